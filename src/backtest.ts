@@ -0,0 +1,162 @@
+#!/usr/bin/env node
+/**
+ * Backtest entry point.
+ *
+ * Replays a leader's historical fills against a simulated follower using the live
+ * sizing logic, then reports equity curve, drawdown, turnover and fees.
+ *
+ * Fills come from `BACKTEST_FILLS_FILE` or are fetched with `userFillsByTime` for
+ * `BACKTEST_LEADER_ADDRESS`; prices come from `BACKTEST_PRICES_FILE` or are fetched
+ * as candles for every traded coin. A fills file is replayed over the range it covers
+ * unless `BACKTEST_START`/`BACKTEST_END` narrow it.
+ */
+
+import { readFile, writeFile } from "node:fs/promises";
+import * as hl from "@nktkas/hyperliquid";
+import * as dotenv from "dotenv";
+import { loadBacktestConfig, type BacktestConfig } from "./config/index.js";
+import { BacktestEngine, type HistoricalFill, type PriceHistory } from "./services/backtest.js";
+import { logger } from "./utils/logger.js";
+
+/** Maximum fills returned by one `userFillsByTime` request */
+const FILLS_PAGE_SIZE = 2000;
+/** Maximum candles returned by one `candleSnapshot` request */
+const CANDLES_PAGE_SIZE = 5000;
+
+/**
+ * Replay window in milliseconds.
+ */
+interface ReplayWindow {
+  startTime: number;
+  endTime: number;
+}
+
+/**
+ * Loads leader fills from file or the Info API, restricted to the backtest window.
+ */
+async function loadFills(config: BacktestConfig, infoClient: hl.InfoClient): Promise<HistoricalFill[]> {
+  let fills: HistoricalFill[];
+  if (config.fillsFile) {
+    fills = JSON.parse(await readFile(config.fillsFile, "utf8")) as HistoricalFill[];
+  } else {
+    // Page through fills by advancing the start time past the last fill received
+    fills = [];
+    const endTime = config.endTime ?? Date.now();
+    let startTime = config.startTime ?? 0;
+    while (startTime < endTime) {
+      const page = await infoClient.userFillsByTime({
+        user: config.leaderAddress as `0x${string}`,
+        startTime,
+        endTime,
+      });
+      fills.push(...page);
+      const last = page[page.length - 1];
+      if (page.length < FILLS_PAGE_SIZE || !last) {
+        break;
+      }
+      startTime = last.time + 1;
+    }
+  }
+
+  return fills
+    .filter((fill) => fill.time >= (config.startTime ?? -Infinity) && fill.time <= (config.endTime ?? Infinity))
+    .sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Loads price history from file, or fetches candle closes over the window for every traded coin.
+ */
+async function loadPrices(
+  config: BacktestConfig,
+  window: ReplayWindow,
+  infoClient: hl.InfoClient,
+  coins: string[],
+): Promise<PriceHistory> {
+  if (config.pricesFile) {
+    return JSON.parse(await readFile(config.pricesFile, "utf8")) as PriceHistory;
+  }
+
+  const history: PriceHistory = {};
+  for (const coin of coins) {
+    // Page through candles by advancing the start time past the last candle received
+    const points: Array<[number, number]> = [];
+    let startTime = window.startTime;
+    while (startTime < window.endTime) {
+      const page = await infoClient.candleSnapshot({
+        coin,
+        interval: config.candleInterval,
+        startTime,
+        endTime: window.endTime,
+      });
+      points.push(...page.map((candle): [number, number] => [candle.T, Number(candle.c)]));
+      const last = page[page.length - 1];
+      if (page.length < CANDLES_PAGE_SIZE || !last) {
+        break;
+      }
+      startTime = last.T + 1;
+    }
+    history[coin] = points;
+  }
+  return history;
+}
+
+async function main() {
+  try {
+    dotenv.config();
+    const config = loadBacktestConfig();
+
+    const transport = new hl.HttpTransport({ isTestnet: config.environment === "testnet", timeout: 30_000 });
+    const infoClient = new hl.InfoClient({ transport });
+
+    const fills = await loadFills(config, infoClient);
+    const firstFill = fills[0];
+    const lastFill = fills[fills.length - 1];
+    if (!firstFill || !lastFill) {
+      throw new Error("No leader fills found in the backtest window");
+    }
+    const window: ReplayWindow = {
+      startTime: config.startTime ?? firstFill.time,
+      endTime: config.endTime ?? lastFill.time,
+    };
+    const coins = Array.from(new Set(fills.map((fill) => fill.coin)));
+    const prices = await loadPrices(config, window, infoClient, coins);
+    logger.info("Loaded backtest data", {
+      fills: fills.length,
+      coins,
+      from: new Date(window.startTime).toISOString(),
+      to: new Date(window.endTime).toISOString(),
+    });
+
+    const engine = new BacktestEngine({
+      risk: config.risk,
+      leaderStartingEquityUsd: config.leaderStartingEquityUsd,
+      follower: config.follower,
+      transport,
+      log: logger,
+    });
+    const result = await engine.run(fills, prices);
+
+    logger.info("Backtest complete", {
+      from: new Date(result.startTime).toISOString(),
+      to: new Date(result.endTime).toISOString(),
+      finalEquityUsd: result.pnl.equityUsd.toFixed(2),
+      totalReturnPct: result.totalReturnPct.toFixed(2),
+      maxDrawdownPct: result.maxDrawdownPct.toFixed(2),
+      turnover: result.turnover.toFixed(2),
+      feesUsd: result.feesUsd.toFixed(2),
+      leaderFills: result.leaderFills,
+      followerFills: result.pnl.fills,
+      rejectedOrders: result.rejectedOrders,
+    });
+
+    if (config.outputFile) {
+      await writeFile(config.outputFile, JSON.stringify(result, null, 2), "utf8");
+      logger.info("Wrote backtest report", { file: config.outputFile });
+    }
+  } catch (error) {
+    logger.error("Backtest failed", { error });
+    process.exit(1);
+  }
+}
+
+void main();
@@ -8,8 +8,9 @@
 import * as hl from "@nktkas/hyperliquid";
 import WebSocket from "ws";
 import { privateKeyToAccount } from "viem/accounts";
-import type { CopyTradingConfig, HyperliquidEnvironment } from "../config/index.js";
+import type { CopyTradingConfig, FollowerConfig, HyperliquidEnvironment } from "../config/index.js";
 import { logger } from "../utils/logger.js";
+import { metrics } from "../utils/metrics.js";
 
 /**
  * Helper to determine if the environment is testnet.
@@ -18,24 +19,83 @@ function isTestnet(environment: HyperliquidEnvironment) {
   return environment === "testnet";
 }
 
+/**
+ * Exchange actions the agent sends on behalf of a follower. Live followers use a signing
+ * `hl.ExchangeClient`; paper followers use a simulated client implementing only these.
+ */
+export type FollowerExchangeClient = Pick<
+  hl.ExchangeClient,
+  "order" | "cancel" | "batchModify" | "updateLeverage" | "twapOrder" | "twapCancel"
+>;
+
+/**
+ * Signing client and trading address for a single follower account.
+ */
+export interface FollowerClients {
+  /** Follower identifier from configuration */
+  id: string;
+  /** Exchange API client for write operations (placing orders, managing positions) */
+  exchangeClient: FollowerExchangeClient;
+  /** Viem account object for the follower wallet */
+  followerAccount: ReturnType<typeof privateKeyToAccount>;
+  /** Address to use for follower trading (either wallet or vault) */
+  followerTradingAddress: `0x${string}`;
+}
+
 /**
  * Bundle of all Hyperliquid API clients and related objects.
+ * Read-only and WebSocket clients are shared; each follower gets its own signer.
  */
 export interface HyperliquidClients {
   /** Info API client for read-only queries (positions, fills, metadata) */
   infoClient: hl.InfoClient;
-  /** Exchange API client for write operations (placing orders, managing positions) */
-  exchangeClient: hl.ExchangeClient;
   /** Subscription client for real-time WebSocket data streams */
   subscriptionClient: hl.SubscriptionClient;
   /** Underlying HTTP transport */
   httpTransport: hl.HttpTransport;
   /** Underlying WebSocket transport */
   wsTransport: hl.WebSocketTransport;
-  /** Viem account object for the follower wallet */
-  followerAccount: ReturnType<typeof privateKeyToAccount>;
-  /** Address to use for follower trading (either wallet or vault) */
-  followerTradingAddress: `0x${string}`;
+  /** Per-follower signing clients, in configuration order */
+  followers: FollowerClients[];
+}
+
+/**
+ * Creates the exchange client and resolves the trading address for one follower.
+ *
+ * @param environment - Hyperliquid network
+ * @param httpTransport - Shared HTTP transport
+ * @param follower - Follower configuration
+ * @returns Follower signing client bundle
+ */
+function createFollowerClients(
+  environment: HyperliquidEnvironment,
+  httpTransport: hl.HttpTransport,
+  follower: FollowerConfig,
+): FollowerClients {
+  // Convert follower private key to viem account for signing
+  const followerAccount = privateKeyToAccount(follower.privateKey);
+
+  // Determine trading address: use vault if specified, otherwise use wallet address
+  const followerTradingAddress = (follower.vaultAddress ?? followerAccount.address) as `0x${string}`;
+
+  // Create Exchange API client for placing orders
+  const exchangeClient = new hl.ExchangeClient({
+    transport: httpTransport,
+    wallet: followerAccount,
+    // If trading through a vault, set the default vault address
+    ...(follower.vaultAddress ? { defaultVaultAddress: follower.vaultAddress } : {}),
+    signatureChainId: async () => {
+      // Hyperliquid uses different chain IDs for mainnet vs testnet in EIP-712 signatures
+      return isTestnet(environment) ? ("0x66eee" as const) : ("0x1" as const);
+    },
+  });
+
+  return {
+    id: follower.id,
+    exchangeClient,
+    followerAccount,
+    followerTradingAddress,
+  };
 }
 
 /**
@@ -96,26 +156,13 @@ export function createHyperliquidClients(config: CopyTradingConfig): Hyperliquid
     },
   });
 
-  // Convert follower private key to viem account for signing
-  const followerAccount = privateKeyToAccount(config.followerPrivateKey);
-
-  // Determine trading address: use vault if specified, otherwise use wallet address
-  const followerTradingAddress = (config.followerVaultAddress ?? followerAccount.address) as `0x${string}`;
-
   // Create Info API client for read-only queries
   const infoClient = new hl.InfoClient({ transport: httpTransport });
 
-  // Create Exchange API client for placing orders
-  const exchangeClient = new hl.ExchangeClient({
-    transport: httpTransport,
-    wallet: followerAccount,
-    // If trading through a vault, set the default vault address
-    ...(config.followerVaultAddress ? { defaultVaultAddress: config.followerVaultAddress } : {}),
-    signatureChainId: async () => {
-      // Hyperliquid uses different chain IDs for mainnet vs testnet in EIP-712 signatures
-      return isTestnet(config.environment) ? ("0x66eee" as const) : ("0x1" as const);
-    },
-  });
+  // Create one signing client per follower, all sharing the HTTP transport
+  const followers = config.followers.map((follower) =>
+    createFollowerClients(config.environment, httpTransport, follower),
+  );
 
   // Create subscription client for real-time WebSocket streams
   const subscriptionClient = new hl.SubscriptionClient({ transport: wsTransport });
@@ -125,13 +172,21 @@ export function createHyperliquidClients(config: CopyTradingConfig): Hyperliquid
     logger.error("WebSocket transport failed to initialize", { error });
   });
 
+  // Every "open" after the first is a reconnect
+  let wsOpens = 0;
+  wsTransport.socket.addEventListener("open", () => {
+    wsOpens += 1;
+    if (wsOpens > 1) {
+      metrics.wsReconnects.inc();
+      logger.warn("WebSocket reconnected", { reconnects: wsOpens - 1 });
+    }
+  });
+
   return {
     infoClient,
-    exchangeClient,
     subscriptionClient,
     httpTransport,
     wsTransport,
-    followerAccount,
-    followerTradingAddress,
+    followers,
   };
 }
@@ -0,0 +1,276 @@
+/**
+ * Paper trading clients.
+ *
+ * Swaps each follower's exchange client for a simulated one backed by a `PaperLedger`,
+ * and wraps the info client so follower account and order reads return the virtual account.
+ * Leader state, metadata and mark prices still come from the real Hyperliquid API,
+ * so the agent runs unchanged without ever sending an order.
+ */
+
+import * as hl from "@nktkas/hyperliquid";
+import type { PaperTradingConfig } from "../config/index.js";
+import { PaperLedger, type PaperFillResult, type PaperRestingOrder } from "../domain/paperLedger.js";
+import type { MarketMetadataService } from "../services/marketMetadata.js";
+import { logger, type Logger } from "../utils/logger.js";
+import type { FollowerExchangeClient, HyperliquidClients } from "./hyperliquid.js";
+
+/** Parameters accepted by `ExchangeClient.order` */
+type OrderArgs = Parameters<hl.ExchangeClient["order"]>;
+/** Successful response of `ExchangeClient.order` */
+type OrderResult = Awaited<ReturnType<hl.ExchangeClient["order"]>>;
+/** Per-order status in an order response, including errors */
+type OrderStatus = OrderResult["response"]["data"]["statuses"][number] | { error: string };
+/** Open order as returned by `InfoClient.frontendOpenOrders` */
+type FrontendOrder = Awaited<ReturnType<hl.InfoClient["frontendOpenOrders"]>>[number];
+
+/**
+ * Exchange client that fills orders against a virtual account instead of Hyperliquid.
+ *
+ * It implements only the follower actions the agent uses and holds no wallet, so nothing
+ * it does can be signed or sent to the exchange.
+ */
+export class PaperExchangeClient implements FollowerExchangeClient {
+  /**
+   * @param ledger - Virtual account the orders are filled against
+   * @param metadataService - Resolves asset ids to coins
+   * @param log - Logger instance
+   */
+  constructor(
+    readonly ledger: PaperLedger,
+    private readonly metadataService: MarketMetadataService,
+    private readonly log: Logger = logger,
+  ) {}
+
+  /**
+   * Simulates a batch of orders. IOC limit orders fill against the ledger and post-only
+   * (`Alo`) orders rest on it; other order types are rejected. Like the real client,
+   * throws `ApiRequestError` if any order in the batch fails.
+   */
+  async order(...args: OrderArgs): Promise<OrderResult> {
+    const [params] = args;
+    const statuses: OrderStatus[] = params.orders.map((order) => {
+      const metadata = this.metadataService.getByAssetId(Number(order.a));
+      if (!metadata) {
+        return { error: `Unknown asset ${order.a}` };
+      }
+      const tif = "limit" in order.t ? order.t.limit.tif : undefined;
+      const request = {
+        coin: metadata.coin,
+        isBuy: order.b,
+        size: Number(order.s),
+        limitPrice: Number(order.p),
+        reduceOnly: order.r,
+      };
+      if (tif === "Ioc") {
+        return this.toStatus(this.ledger.executeIoc(request), order.c);
+      }
+      if (tif === "Alo") {
+        const cloid = order.c as `0x${string}` | undefined;
+        const result = this.ledger.placePostOnly({ ...request, ...(cloid ? { cloid } : {}) });
+        if ("error" in result) {
+          return result;
+        }
+        this.log.info("Paper post-only order resting", { coin: metadata.coin, oid: result.oid, price: order.p, size: order.s });
+        return { resting: { oid: result.oid, ...(cloid ? { cloid } : {}) } };
+      }
+      return { error: "Paper trading only simulates IOC and post-only limit orders" };
+    });
+
+    const response = { status: "ok" as const, response: { type: "order" as const, data: { statuses } } };
+    const fills = statuses.filter((status) => "filled" in status).length;
+    if (fills > 0) {
+      this.log.info("Paper trading PnL", { ...this.ledger.getPnlSummary() });
+    }
+    if (statuses.some((status) => "error" in status)) {
+      throw new hl.ApiRequestError(response);
+    }
+    return response as OrderResult;
+  }
+
+  /**
+   * Cancels resting paper orders. Like the real client, throws `ApiRequestError` if any
+   * order was not open.
+   */
+  async cancel(...args: Parameters<hl.ExchangeClient["cancel"]>): ReturnType<hl.ExchangeClient["cancel"]> {
+    const [params] = args;
+    const statuses = params.cancels.map((cancel) =>
+      this.ledger.cancel(Number(cancel.o))
+        ? ("success" as const)
+        : { error: "Order was never placed, already canceled, or filled." },
+    );
+    const response = { status: "ok" as const, response: { type: "cancel" as const, data: { statuses } } };
+    if (statuses.some((status) => status !== "success")) {
+      throw new hl.ApiRequestError(response);
+    }
+    return { status: "ok", response: { type: "cancel", data: { statuses: statuses as "success"[] } } };
+  }
+
+  /**
+   * Order modification is not simulated; paper accounts never hold trigger orders to modify.
+   */
+  async batchModify(..._args: Parameters<hl.ExchangeClient["batchModify"]>): ReturnType<hl.ExchangeClient["batchModify"]> {
+    throw new hl.ApiRequestError({ status: "err", response: "Paper trading does not simulate order modification" });
+  }
+
+  /**
+   * Applies a leverage setting to the virtual account's margin accounting.
+   */
+  async updateLeverage(
+    ...args: Parameters<hl.ExchangeClient["updateLeverage"]>
+  ): ReturnType<hl.ExchangeClient["updateLeverage"]> {
+    const [params] = args;
+    const metadata = this.metadataService.getByAssetId(Number(params.asset));
+    if (!metadata) {
+      throw new hl.ApiRequestError({ status: "err", response: `Unknown asset ${params.asset}` });
+    }
+    this.ledger.setLeverage(metadata.coin, Number(params.leverage), params.isCross);
+    this.log.info("Paper leverage updated", { coin: metadata.coin, leverage: params.leverage, isCross: params.isCross });
+    return { status: "ok", response: { type: "default" } };
+  }
+
+  /**
+   * Native TWAP orders are not simulated; rejecting them makes the executor slice instead.
+   */
+  async twapOrder(..._args: Parameters<hl.ExchangeClient["twapOrder"]>): ReturnType<hl.ExchangeClient["twapOrder"]> {
+    throw new hl.ApiRequestError({ status: "err", response: "Paper trading does not simulate TWAP orders" });
+  }
+
+  /**
+   * No paper TWAP can be running, so there is nothing to cancel.
+   */
+  async twapCancel(..._args: Parameters<hl.ExchangeClient["twapCancel"]>): ReturnType<hl.ExchangeClient["twapCancel"]> {
+    throw new hl.ApiRequestError({ status: "err", response: "Paper trading does not simulate TWAP orders" });
+  }
+
+  private toStatus(result: PaperFillResult, cloid: string | undefined): OrderStatus {
+    if ("error" in result) {
+      return { error: result.error };
+    }
+    this.log.info("Paper order filled", {
+      coin: result.filled.coin,
+      size: result.filled.size,
+      price: result.filled.price,
+      feeUsd: result.filled.feeUsd.toFixed(4),
+    });
+    return {
+      filled: {
+        totalSz: String(result.filled.size),
+        avgPx: String(result.filled.price),
+        oid: result.filled.oid,
+        ...(cloid ? { cloid: cloid as `0x${string}` } : {}),
+      },
+    };
+  }
+}
+
+/**
+ * Renders a paper post-only order as a Hyperliquid open order.
+ */
+function toFrontendOrder(order: PaperRestingOrder): FrontendOrder {
+  return {
+    coin: order.coin,
+    side: order.isBuy ? "B" : "A",
+    limitPx: String(order.limitPrice),
+    sz: String(order.size - order.filledSize),
+    oid: order.oid,
+    timestamp: order.timestamp,
+    origSz: String(order.size),
+    triggerCondition: "N/A",
+    isTrigger: false,
+    triggerPx: "0.0",
+    children: [],
+    isPositionTpsl: false,
+    reduceOnly: order.reduceOnly,
+    orderType: "Limit",
+    tif: "Alo",
+    cloid: order.cloid ?? null,
+  };
+}
+
+/**
+ * Info client that answers follower account queries (clearinghouse state, order status,
+ * open orders) from paper ledgers and forwards everything else to Hyperliquid.
+ */
+export class PaperInfoClient extends hl.InfoClient {
+  constructor(transport: hl.HttpTransport, private readonly ledgers: ReadonlyMap<string, PaperLedger>) {
+    super({ transport });
+  }
+
+  override async clearinghouseState(
+    ...args: Parameters<hl.InfoClient["clearinghouseState"]>
+  ): ReturnType<hl.InfoClient["clearinghouseState"]> {
+    const ledger = this.ledgers.get(args[0].user.toLowerCase());
+    if (ledger) {
+      return ledger.toClearinghouseState();
+    }
+    return super.clearinghouseState(...args);
+  }
+
+  override async orderStatus(...args: Parameters<hl.InfoClient["orderStatus"]>): ReturnType<hl.InfoClient["orderStatus"]> {
+    const ledger = this.ledgers.get(args[0].user.toLowerCase());
+    if (!ledger) {
+      return super.orderStatus(...args);
+    }
+    const order = typeof args[0].oid === "number" ? ledger.getOrder(args[0].oid) : undefined;
+    if (!order) {
+      return { status: "unknownOid" };
+    }
+    return {
+      status: "order",
+      order: { order: toFrontendOrder(order), status: order.status, statusTimestamp: order.statusTimestamp },
+    };
+  }
+
+  override async frontendOpenOrders(
+    ...args: Parameters<hl.InfoClient["frontendOpenOrders"]>
+  ): ReturnType<hl.InfoClient["frontendOpenOrders"]> {
+    const ledger = this.ledgers.get(args[0].user.toLowerCase());
+    if (ledger) {
+      return ledger.getOpenOrders().map(toFrontendOrder);
+    }
+    return super.frontendOpenOrders(...args);
+  }
+}
+
+/**
+ * Replaces follower exchange clients and the info client with paper trading versions.
+ *
+ * @param clients - Live client bundle (transports and leader-facing reads are reused)
+ * @param metadataService - Source of asset IDs and mark prices for the fill model
+ * @param paper - Paper trading parameters
+ * @param log - Logger instance
+ * @returns Client bundle that never submits real orders, plus the ledger per follower id
+ */
+export function createPaperClients(
+  clients: HyperliquidClients,
+  metadataService: MarketMetadataService,
+  paper: PaperTradingConfig,
+  log: Logger = logger,
+): { clients: HyperliquidClients; ledgers: Map<string, PaperLedger> } {
+  const ledgersById = new Map<string, PaperLedger>();
+  const ledgersByAddress = new Map<string, PaperLedger>();
+
+  const followers = clients.followers.map((follower) => {
+    const ledger = new PaperLedger(metadataService, paper);
+    ledgersById.set(follower.id, ledger);
+    ledgersByAddress.set(follower.followerTradingAddress.toLowerCase(), ledger);
+    return {
+      ...follower,
+      exchangeClient: new PaperExchangeClient(ledger, metadataService, log),
+    };
+  });
+
+  log.warn("Paper trading mode enabled; no orders will be sent to Hyperliquid", {
+    followers: followers.map((follower) => follower.id),
+    startingEquityUsd: paper.startingEquityUsd,
+  });
+
+  return {
+    clients: {
+      ...clients,
+      infoClient: new PaperInfoClient(clients.httpTransport, ledgersByAddress),
+      followers,
+    },
+    ledgers: ledgersById,
+  };
+}
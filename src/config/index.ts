@@ -3,11 +3,61 @@
  * Loads and validates environment variables with sensible defaults.
  */
 
+import { parse as parseYaml } from "yaml";
 import { toFloat } from "../utils/math.js";
 
 /** Hyperliquid network environment */
 export type HyperliquidEnvironment = "mainnet" | "testnet";
 
+/**
+ * Risk limits that can be overridden for a single coin.
+ */
+export interface CoinRiskOverride {
+  copyRatio?: number;
+  maxLeverage?: number;
+  maxNotionalUsd?: number;
+}
+
+/**
+ * Handling of an existing follower position in a coin that is denied or not allowlisted.
+ * - "close": close it on the next sync
+ * - "leave": leave it untouched (never added to, never closed by the agent)
+ */
+export type DeniedCoinPolicy = "close" | "leave";
+
+/**
+ * How follower target sizes follow the leader.
+ * - "mirror": re-derive the target from the leader's leverage at the current mark price every sync
+ * - "entryLocked": fix the target when the leader opens or changes a position; only leader
+ *   size changes cause trades, price moves alone never do
+ */
+export type SizingMode = "mirror" | "entryLocked";
+
+/**
+ * Built-in strategy deriving a follower target notional from a leader position
+ * (see `src/domain/sizing.ts`).
+ * - "leverageMirror": leader leverage × copyRatio × follower equity
+ * - "fixedRatio": copyRatio × the leader's position size
+ * - "fixedNotional": `fixedNotionalUsd` per position
+ * - "equityProportional": leader notional × follower equity / leader equity × copyRatio
+ * - "volatilityTarget": `volatilityTargetPct` of follower equity as expected daily move
+ */
+export type SizingStrategyName =
+  | "leverageMirror"
+  | "fixedRatio"
+  | "fixedNotional"
+  | "equityProportional"
+  | "volatilityTarget";
+
+/** Valid `SizingStrategyName` values */
+const SIZING_STRATEGY_NAMES: readonly SizingStrategyName[] = [
+  "leverageMirror",
+  "fixedRatio",
+  "fixedNotional",
+  "equityProportional",
+  "volatilityTarget",
+];
+
 /**
  * Risk management parameters for copy trading.
  */
@@ -30,6 +80,150 @@ export interface RiskConfig {
   maxSlippageBps: number;
   /** When true, invert leader direction (long->short, short->long) */
   inverse: boolean;
+  /** Per-coin overrides of `copyRatio`, `maxLeverage` and `maxNotionalUsd`, keyed by coin */
+  coinOverrides?: Record<string, CoinRiskOverride>;
+  /** When set, only these coins are traded */
+  allowedCoins?: string[];
+  /** Coins that are never traded */
+  deniedCoins?: string[];
+  /** What to do with existing positions in coins that may not be traded */
+  deniedCoinPolicy: DeniedCoinPolicy;
+  /** Maximum sum of absolute position notionals, as a multiple of follower equity */
+  maxGrossLeverage?: number;
+  /** Maximum absolute net (long minus short) notional, as a multiple of follower equity */
+  maxNetLeverage?: number;
+  /** Maximum notional of any single coin, as a percentage of follower equity */
+  maxCoinConcentrationPct?: number;
+  /** Trip the circuit breaker when equity falls this many percent below the day's high */
+  maxDailyLossPct?: number;
+  /** Trip the circuit breaker when equity falls this many percent below its peak */
+  maxDrawdownPct?: number;
+  /** When the circuit breaker trips, close all positions instead of only blocking new exposure */
+  flattenOnBreach?: boolean;
+  /** Skip rebalances of an existing position smaller than this percentage of its target size */
+  driftTolerancePct?: number;
+  /** Skip rebalances of an existing position smaller than this notional in USD */
+  driftToleranceUsd?: number;
+  /** Whether targets track the mark price or stay fixed between leader trades */
+  sizingMode: SizingMode;
+  /** How target notionals are derived from leader positions */
+  sizingStrategy: SizingStrategyName;
+  /** Notional per position in USD for the "fixedNotional" strategy */
+  fixedNotionalUsd?: number;
+  /** Daily volatility budget per position, as a percentage of follower equity ("volatilityTarget") */
+  volatilityTargetPct?: number;
+}
+
+/** Subset of risk parameters set by the risk config file */
+export type RiskOverrides = Partial<RiskConfig>;
+
+/**
+ * Contents of the hot-reloadable risk config file (`RISK_CONFIG_FILE`).
+ * Top-level keys apply to every follower; `followers.<id>` entries override them per follower.
+ */
+export interface RiskConfigFile extends RiskOverrides {
+  followers?: Record<string, RiskOverrides>;
+}
+
+/**
+ * A leader account to follow and its weight in the blended target book.
+ */
+export interface LeaderConfig {
+  /** Ethereum address of the leader account */
+  address: `0x${string}`;
+  /**
+   * Signed weight applied to this leader's leverage before netting.
+   * - 1.0 = full weight
+   * - 0.5 = half weight
+   * - -1.0 = inverse (long->short, short->long)
+   */
+  weight: number;
+}
+
+/**
+ * A follower account (wallet or vault) with its own signer and risk limits.
+ */
+export interface FollowerConfig {
+  /** Short identifier used in logs and per-follower environment variables */
+  id: string;
+  /** Private key of the follower signer (hex format with 0x prefix) */
+  privateKey: `0x${string}`;
+  /** Optional vault address if trading through a Hyperliquid vault */
+  vaultAddress?: `0x${string}`;
+  /** Risk management parameters for this follower */
+  risk: RiskConfig;
+}
+
+/**
+ * Simulated exchange parameters for paper trading.
+ */
+export interface PaperTradingConfig {
+  /** Starting virtual account value in USD for each follower */
+  startingEquityUsd: number;
+  /** Simulated taker fee in basis points of notional */
+  feeBps: number;
+  /** Simulated slippage from mark price in basis points */
+  slippageBps: number;
+}
+
+/**
+ * How follower deltas are turned into orders.
+ * - `immediate`: one IOC order per delta
+ * - `sliced`: large deltas are split into IOC child orders sent over time
+ * - `twap`: large deltas are sent as Hyperliquid native TWAP orders
+ */
+export type ExecutionMode = "immediate" | "sliced" | "twap";
+
+/**
+ * Order execution settings shared by all followers.
+ */
+export interface ExecutionConfig {
+  /** Execution mode for deltas at or above `sliceThresholdUsd` */
+  mode: ExecutionMode;
+  /** Deltas with at least this notional are executed over time; smaller ones are sent immediately */
+  sliceThresholdUsd: number;
+  /** Target notional of each child order in sliced mode */
+  sliceNotionalUsd: number;
+  /** Delay between child orders in sliced mode */
+  sliceIntervalMs: number;
+  /** Duration of native TWAP orders in minutes (Hyperliquid allows 5–1440) */
+  twapMinutes: number;
+  /** Whether native TWAP orders randomize their slice timing */
+  twapRandomize: boolean;
+  /** Rest non-urgent deltas as post-only orders at the touch before falling back to IOC */
+  makerFirst: boolean;
+  /** How long a maker execution may rest before the remainder is sent as IOC */
+  makerTimeoutMs: number;
+  /** How often a resting maker order is checked and re-priced to the touch */
+  makerRepriceIntervalMs: number;
+  /** Adverse move of the touch from where the maker execution started that triggers the IOC fallback */
+  makerMaxDriftBps: number;
+  /** Shrink IOC orders to the size the L2 book can fill within `maxSlippageBps` */
+  liquidityGuard: boolean;
+}
+
+/**
+ * Realized volatility estimation for the "volatilityTarget" sizing strategy.
+ */
+export interface VolatilityConfig {
+  /** Days of candles the estimate is computed from */
+  lookbackDays: number;
+  /** Candle interval; returns are scaled to daily volatility */
+  candleInterval: CandleInterval;
+  /** How long a coin's estimate is reused before its candles are fetched again */
+  refreshIntervalMs: number;
+}
+
+/**
+ * Local HTTP control API settings.
+ */
+export interface ControlApiConfig {
+  /** Interface to bind (default: 127.0.0.1) */
+  host: string;
+  /** Port to listen on */
+  port: number;
+  /** Bearer token required on every request */
+  token: string;
 }
 
 /**
@@ -38,20 +232,63 @@ export interface RiskConfig {
 export interface CopyTradingConfig {
   /** Hyperliquid network to connect to */
   environment: HyperliquidEnvironment;
-  /** Ethereum address of the leader account to copy */
-  leaderAddress: string;
-  /** Private key of the follower account (hex format with 0x prefix) */
-  followerPrivateKey: `0x${string}`;
-  /** Optional vault address if trading through a Hyperliquid vault */
-  followerVaultAddress?: `0x${string}`;
-  /** Risk management parameters */
-  risk: RiskConfig;
+  /** Leader accounts to copy, netted per coin by weight */
+  leaders: LeaderConfig[];
+  /** Follower accounts driven by the shared leader subscriptions */
+  followers: FollowerConfig[];
   /** Interval in milliseconds for periodic full state reconciliation */
   reconciliationIntervalMs: number;
   /** Interval in milliseconds for refreshing follower account state */
   refreshAccountIntervalMs: number;
   /** Whether to aggregate fills by time in WebSocket subscriptions */
   websocketAggregateFills: boolean;
+  /** Mirror leader take-profit / stop-loss trigger orders onto followers */
+  mirrorTriggerOrders: boolean;
+  /** Interval in milliseconds between trigger order mirroring passes */
+  triggerOrderSyncIntervalMs: number;
+  /** Optional path of the JSONL event store for fills, order batches and snapshots */
+  eventStorePath?: string;
+  /** When set, follower orders are simulated against virtual accounts instead of sent */
+  paper?: PaperTradingConfig;
+  /** When set, the HTTP control API is started */
+  controlApi?: ControlApiConfig;
+  /** Optional JSON or YAML file with risk overrides, watched and re-applied on change */
+  riskConfigFile?: string;
+  /** How deltas are executed */
+  execution: ExecutionConfig;
+  /** Realized volatility estimation for volatility-targeted sizing */
+  volatility: VolatilityConfig;
+}
+
+/** Candle interval used for backtest price history and volatility estimates */
+export type CandleInterval = "1m" | "5m" | "15m" | "1h" | "4h" | "1d";
+
+/**
+ * Configuration for replaying a leader's historical fills against a simulated follower.
+ */
+export interface BacktestConfig {
+  /** Hyperliquid network used when fetching fills or candles */
+  environment: HyperliquidEnvironment;
+  /** Leader whose fills are fetched via `userFillsByTime` (unless a fills file is given) */
+  leaderAddress?: `0x${string}`;
+  /** JSON file with an array of leader fills in `userFillsByTime` format */
+  fillsFile?: string;
+  /** JSON file mapping coin to `[timeMs, price]` pairs (otherwise candles are fetched) */
+  pricesFile?: string;
+  /** Replay window start in milliseconds; unset to start at the first fill of `fillsFile` */
+  startTime?: number;
+  /** Replay window end in milliseconds; unset to end at the last fill of `fillsFile` */
+  endTime?: number;
+  /** Candle interval for fetched price history */
+  candleInterval: CandleInterval;
+  /** Assumed leader account value at the start of the window, used for leverage */
+  leaderStartingEquityUsd: number;
+  /** Simulated follower account and fill model */
+  follower: PaperTradingConfig;
+  /** Follower risk parameters under test */
+  risk: RiskConfig;
+  /** Optional path to write the full JSON report to */
+  outputFile?: string;
 }
 
 /**
@@ -87,6 +324,25 @@ function optionalNumberEnv(key: string, fallback: number): number {
   return parsed;
 }
 
+/**
+ * Parses an optional timestamp environment variable (milliseconds or ISO-8601 date) with a fallback.
+ * @param key - Environment variable name
+ * @param fallback - Default value in milliseconds if not set
+ * @returns The parsed timestamp in milliseconds or fallback
+ * @throws {Error} If the value is set but not a valid timestamp
+ */
+function optionalTimeEnv(key: string, fallback: number): number {
+  const raw = process.env[key];
+  if (!raw) {
+    return fallback;
+  }
+  const parsed = /^\d+$/.test(raw) ? Number(raw) : Date.parse(raw);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`Invalid timestamp for ${key}: ${raw}`);
+  }
+  return parsed;
+}
+
 /**
  * Parses an optional boolean environment variable with a fallback.
  * Accepts: "1", "true", "yes", "on" (case-insensitive) for true.
@@ -103,37 +359,642 @@ function optionalBooleanEnv(key: string, fallback: boolean): boolean {
 }
 
 /**
- * Loads and validates configuration from environment variables.
- * @returns Complete validated configuration
- * @throws {Error} If required variables are missing or invalid
+ * Parses the leader list from `LEADERS`, falling back to a single `LEADER_ADDRESS`.
+ * `LEADERS` is a comma-separated list of `address[:weight]` entries (weight defaults to 1),
+ * e.g. `0xabc...:1,0xdef...:-0.5`.
+ * @returns Leaders with their signed weights
+ * @throws {Error} If an address or weight is invalid, or no leader is configured
  */
-export function loadConfig(): CopyTradingConfig {
+function loadLeaders(): LeaderConfig[] {
+  const raw = process.env.LEADERS;
+  if (!raw) {
+    return [{ address: requireAddressEnv("LEADER_ADDRESS"), weight: 1 }];
+  }
+
+  const leaders = raw
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      const [address = "", weightRaw] = entry.split(":").map((part) => part.trim());
+      if (!isAddress(address)) {
+        throw new Error(`Invalid leader address in LEADERS: ${address}`);
+      }
+      const weight = weightRaw ? toFloat(weightRaw) : 1;
+      if (!Number.isFinite(weight) || weight === 0) {
+        throw new Error(`Invalid leader weight in LEADERS for ${address}: ${weightRaw}`);
+      }
+      return { address, weight };
+    });
+
+  if (leaders.length === 0) {
+    throw new Error("LEADERS must contain at least one leader address");
+  }
+  const addresses = new Set(leaders.map((leader) => leader.address.toLowerCase()));
+  if (addresses.size !== leaders.length) {
+    throw new Error("LEADERS contains duplicate leader addresses");
+  }
+  return leaders;
+}
+
+/**
+ * Checks that a value looks like a 42-character hex address.
+ */
+function isAddress(value: string): value is `0x${string}` {
+  return /^0x[0-9a-fA-F]{40}$/.test(value);
+}
+
+/**
+ * Requires an environment variable holding a hex address.
+ * @throws {Error} If the variable is missing or not a 42-character hex string
+ */
+function requireAddressEnv(key: string): `0x${string}` {
+  const value = requireEnv(key);
+  if (!isAddress(value)) {
+    throw new Error(`${key} must be a 42-character hex string`);
+  }
+  return value;
+}
+
+/**
+ * Parses an optional comma-separated list environment variable.
+ * @param key - Environment variable name
+ * @returns Trimmed non-empty entries, or undefined if not set
+ */
+function optionalListEnv(key: string): string[] | undefined {
+  const raw = process.env[key];
+  if (!raw) {
+    return undefined;
+  }
+  return raw
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+}
+
+/**
+ * Parses an optional percentage environment variable in the open range (0, 100).
+ * @param key - Environment variable name
+ * @param fallback - Value used if not set
+ * @throws {Error} If the value is set but not a percentage
+ */
+function optionalPercentEnv(key: string, fallback: number | undefined): number | undefined {
+  if (!process.env[key]) {
+    return fallback;
+  }
+  const value = optionalNumberEnv(key, 0);
+  if (!(value > 0 && value < 100)) {
+    throw new Error(`${key} must be a percentage between 0 and 100`);
+  }
+  return value;
+}
+
+/**
+ * Parses an optional positive number environment variable without a default.
+ * @param key - Environment variable name
+ * @param fallback - Value used if not set
+ * @throws {Error} If the value is set but not a positive number
+ */
+function optionalPositiveEnv(key: string, fallback: number | undefined): number | undefined {
+  if (!process.env[key]) {
+    return fallback;
+  }
+  const value = optionalNumberEnv(key, 0);
+  if (!(value > 0)) {
+    throw new Error(`${key} must be a positive number`);
+  }
+  return value;
+}
+
+/**
+ * Validates per-coin risk overrides from an untrusted source.
+ * @param value - Parsed object keyed by coin
+ * @param source - Description of the source used in error messages
+ * @returns The validated overrides
+ * @throws {Error} If a key is unknown or a value is not a positive number
+ */
+function validateCoinOverrides(value: unknown, source: string): Record<string, CoinRiskOverride> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error(`${source} must be an object keyed by coin`);
+  }
+  const overrides: Record<string, CoinRiskOverride> = {};
+  for (const [coin, entry] of Object.entries(value)) {
+    if (typeof entry !== "object" || entry === null || Array.isArray(entry)) {
+      throw new Error(`${source}.${coin} must be an object`);
+    }
+    const override: CoinRiskOverride = {};
+    for (const [key, raw] of Object.entries(entry)) {
+      if (key !== "copyRatio" && key !== "maxLeverage" && key !== "maxNotionalUsd") {
+        throw new Error(`Unknown coin risk setting ${source}.${coin}.${key}`);
+      }
+      if (typeof raw !== "number" || !Number.isFinite(raw) || raw <= 0) {
+        throw new Error(`${source}.${coin}.${key} must be a positive number`);
+      }
+      override[key] = raw;
+    }
+    overrides[coin] = override;
+  }
+  return overrides;
+}
+
+/**
+ * Validates a denied coin policy value.
+ * @throws {Error} If the value is not "close" or "leave"
+ */
+function validateDeniedCoinPolicy(value: unknown, source: string): DeniedCoinPolicy {
+  if (value !== "close" && value !== "leave") {
+    throw new Error(`${source} must be "close" or "leave"`);
+  }
+  return value;
+}
+
+/**
+ * Validates a sizing mode value.
+ * @throws {Error} If the value is not "mirror" or "entryLocked"
+ */
+function validateSizingMode(value: unknown, source: string): SizingMode {
+  if (value !== "mirror" && value !== "entryLocked") {
+    throw new Error(`${source} must be "mirror" or "entryLocked"`);
+  }
+  return value;
+}
+
+/**
+ * Validates a sizing strategy name.
+ * @throws {Error} If the value is not a built-in strategy
+ */
+function validateSizingStrategy(value: unknown, source: string): SizingStrategyName {
+  if (!SIZING_STRATEGY_NAMES.includes(value as SizingStrategyName)) {
+    throw new Error(`${source} must be one of ${SIZING_STRATEGY_NAMES.join(", ")}`);
+  }
+  return value as SizingStrategyName;
+}
+
+/**
+ * Checks that the parameters required by the selected sizing strategy are set.
+ * @param risk - Effective risk configuration
+ * @param source - Description of the configuration used in error messages
+ * @throws {Error} If a required parameter is missing
+ */
+function validateSizingParameters(risk: RiskConfig, source: string) {
+  if (risk.sizingStrategy === "fixedNotional" && risk.fixedNotionalUsd === undefined) {
+    throw new Error(`Sizing strategy "fixedNotional" for ${source} requires fixedNotionalUsd (FIXED_NOTIONAL_USD)`);
+  }
+  if (risk.sizingStrategy === "volatilityTarget" && risk.volatilityTargetPct === undefined) {
+    throw new Error(`Sizing strategy "volatilityTarget" for ${source} requires volatilityTargetPct (VOLATILITY_TARGET_PCT)`);
+  }
+}
+
+/**
+ * Loads risk parameters from environment variables with an optional key prefix.
+ * Unset prefixed keys fall back to the given defaults.
+ * @param prefix - Environment key prefix (e.g., "FOLLOWER_ALPHA_")
+ * @param defaults - Values used for unset keys
+ * @returns Risk configuration
+ */
+function loadRiskConfig(prefix: string, defaults: RiskConfig): RiskConfig {
+  const rawOverrides = process.env[`${prefix}COIN_RISK_OVERRIDES`];
+  let coinOverrides = defaults.coinOverrides;
+  if (rawOverrides) {
+    try {
+      coinOverrides = validateCoinOverrides(JSON.parse(rawOverrides), `${prefix}COIN_RISK_OVERRIDES`);
+    } catch (error) {
+      throw new Error(`Invalid ${prefix}COIN_RISK_OVERRIDES: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  const allowedCoins = optionalListEnv(`${prefix}ALLOWED_COINS`) ?? defaults.allowedCoins;
+  const deniedCoins = optionalListEnv(`${prefix}DENIED_COINS`) ?? defaults.deniedCoins;
+  const rawPolicy = process.env[`${prefix}DENIED_COIN_POLICY`];
+  const maxGrossLeverage = optionalPositiveEnv(`${prefix}MAX_GROSS_LEVERAGE`, defaults.maxGrossLeverage);
+  const maxNetLeverage = optionalPositiveEnv(`${prefix}MAX_NET_LEVERAGE`, defaults.maxNetLeverage);
+  const maxCoinConcentrationPct = optionalPositiveEnv(
+    `${prefix}MAX_COIN_CONCENTRATION_PCT`,
+    defaults.maxCoinConcentrationPct,
+  );
+  const maxDailyLossPct = optionalPercentEnv(`${prefix}MAX_DAILY_LOSS_PCT`, defaults.maxDailyLossPct);
+  const maxDrawdownPct = optionalPercentEnv(`${prefix}MAX_DRAWDOWN_PCT`, defaults.maxDrawdownPct);
+  const driftTolerancePct = optionalPercentEnv(`${prefix}DRIFT_TOLERANCE_PCT`, defaults.driftTolerancePct);
+  const driftToleranceUsd = optionalPositiveEnv(`${prefix}DRIFT_TOLERANCE_USD`, defaults.driftToleranceUsd);
+  const rawSizingMode = process.env[`${prefix}SIZING_MODE`];
+  const rawSizingStrategy = process.env[`${prefix}SIZING_STRATEGY`];
+  const fixedNotionalUsd = optionalPositiveEnv(`${prefix}FIXED_NOTIONAL_USD`, defaults.fixedNotionalUsd);
+  const volatilityTargetPct = optionalPercentEnv(`${prefix}VOLATILITY_TARGET_PCT`, defaults.volatilityTargetPct);
+
+  const risk: RiskConfig = {
+    copyRatio: optionalNumberEnv(`${prefix}COPY_RATIO`, defaults.copyRatio),
+    maxLeverage: optionalNumberEnv(`${prefix}MAX_LEVERAGE`, defaults.maxLeverage),
+    maxNotionalUsd: optionalNumberEnv(`${prefix}MAX_NOTIONAL_USD`, defaults.maxNotionalUsd),
+    maxSlippageBps: optionalNumberEnv(`${prefix}MAX_SLIPPAGE_BPS`, defaults.maxSlippageBps),
+    inverse: optionalBooleanEnv(`${prefix}INVERSE`, defaults.inverse),
+    ...(coinOverrides ? { coinOverrides } : {}),
+    ...(allowedCoins ? { allowedCoins } : {}),
+    ...(deniedCoins ? { deniedCoins } : {}),
+    deniedCoinPolicy: rawPolicy
+      ? validateDeniedCoinPolicy(rawPolicy, `${prefix}DENIED_COIN_POLICY`)
+      : defaults.deniedCoinPolicy,
+    ...(maxGrossLeverage !== undefined ? { maxGrossLeverage } : {}),
+    ...(maxNetLeverage !== undefined ? { maxNetLeverage } : {}),
+    ...(maxCoinConcentrationPct !== undefined ? { maxCoinConcentrationPct } : {}),
+    ...(maxDailyLossPct !== undefined ? { maxDailyLossPct } : {}),
+    ...(maxDrawdownPct !== undefined ? { maxDrawdownPct } : {}),
+    flattenOnBreach: optionalBooleanEnv(`${prefix}FLATTEN_ON_BREACH`, defaults.flattenOnBreach ?? false),
+    ...(driftTolerancePct !== undefined ? { driftTolerancePct } : {}),
+    ...(driftToleranceUsd !== undefined ? { driftToleranceUsd } : {}),
+    sizingMode: rawSizingMode ? validateSizingMode(rawSizingMode, `${prefix}SIZING_MODE`) : defaults.sizingMode,
+    sizingStrategy: rawSizingStrategy
+      ? validateSizingStrategy(rawSizingStrategy, `${prefix}SIZING_STRATEGY`)
+      : defaults.sizingStrategy,
+    ...(fixedNotionalUsd !== undefined ? { fixedNotionalUsd } : {}),
+    ...(volatilityTargetPct !== undefined ? { volatilityTargetPct } : {}),
+  };
+  validateSizingParameters(risk, `${prefix}SIZING_STRATEGY`);
+  return risk;
+}
+
+/**
+ * Loads a single follower from environment variables with the given key prefix.
+ * @param id - Follower identifier
+ * @param prefix - Environment key prefix ("" for the default follower)
+ * @param risk - Baseline risk configuration for unset prefixed keys
+ * @throws {Error} If the private key is missing or the vault address is invalid
+ */
+function loadFollower(id: string, prefix: string, risk: RiskConfig): FollowerConfig {
+  const privateKey = requireEnv(`${prefix}FOLLOWER_PRIVATE_KEY`) as `0x${string}`;
+  const vaultAddress = process.env[`${prefix}FOLLOWER_VAULT_ADDRESS`];
+  if (vaultAddress && !isAddress(vaultAddress)) {
+    throw new Error(`${prefix}FOLLOWER_VAULT_ADDRESS must be a 42-character hex string`);
+  }
+
+  return {
+    id,
+    privateKey,
+    ...(vaultAddress ? { vaultAddress: vaultAddress as `0x${string}` } : {}),
+    risk: loadRiskConfig(prefix, risk),
+  };
+}
+
+/**
+ * Parses the follower list for fan-out mode.
+ *
+ * Without `FOLLOWERS`, a single follower "default" is read from the unprefixed variables.
+ * With `FOLLOWERS=alpha,beta`, each follower reads `<ID>_FOLLOWER_PRIVATE_KEY`,
+ * `<ID>_FOLLOWER_VAULT_ADDRESS` and optional `<ID>_COPY_RATIO`, `<ID>_MAX_LEVERAGE`, etc.,
+ * where `<ID>` is the upper-cased id; unset risk keys fall back to the unprefixed values.
+ * @param risk - Baseline risk configuration from the unprefixed variables
+ * @throws {Error} If ids are duplicated or a follower is misconfigured
+ */
+function loadFollowers(risk: RiskConfig): FollowerConfig[] {
+  const raw = process.env.FOLLOWERS;
+  if (!raw) {
+    return [loadFollower("default", "", risk)];
+  }
+
+  const ids = raw
+    .split(",")
+    .map((id) => id.trim())
+    .filter((id) => id.length > 0);
+  if (ids.length === 0) {
+    throw new Error("FOLLOWERS must contain at least one follower id");
+  }
+  if (new Set(ids).size !== ids.length) {
+    throw new Error("FOLLOWERS contains duplicate follower ids");
+  }
+
+  return ids.map((id) => {
+    if (!/^[A-Za-z0-9_]+$/.test(id)) {
+      throw new Error(`Invalid follower id in FOLLOWERS: ${id}`);
+    }
+    return loadFollower(id, `${id.toUpperCase()}_`, risk);
+  });
+}
+
+/**
+ * Reads the Hyperliquid network from `HYPERLIQUID_ENVIRONMENT` (default: mainnet).
+ * @throws {Error} If the value is not a supported network
+ */
+function loadEnvironment(): HyperliquidEnvironment {
   const environment =
     (process.env.HYPERLIQUID_ENVIRONMENT as HyperliquidEnvironment | undefined) ?? "mainnet";
   if (environment !== "mainnet" && environment !== "testnet") {
     throw new Error(`Unsupported Hyperliquid environment: ${environment}`);
   }
+  return environment;
+}
+
+/**
+ * Validates risk overrides from an untrusted source, rejecting unknown keys and out-of-range values.
+ * @param value - Parsed overrides object
+ * @param source - Description of the source used in error messages
+ * @returns The validated overrides
+ * @throws {Error} If a key is unknown or a value is invalid
+ */
+function validateRiskOverrides(value: unknown, source: string): RiskOverrides {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error(`${source} must be an object`);
+  }
+  const overrides: RiskOverrides = {};
+  for (const [key, raw] of Object.entries(value)) {
+    switch (key) {
+      case "copyRatio":
+      case "maxLeverage":
+      case "maxNotionalUsd":
+      case "maxGrossLeverage":
+      case "maxNetLeverage":
+      case "maxCoinConcentrationPct":
+      case "driftToleranceUsd":
+      case "fixedNotionalUsd":
+        if (typeof raw !== "number" || !Number.isFinite(raw) || raw <= 0) {
+          throw new Error(`${source}.${key} must be a positive number`);
+        }
+        overrides[key] = raw;
+        break;
+      case "maxSlippageBps":
+        if (typeof raw !== "number" || !Number.isFinite(raw) || raw < 0 || raw >= 10_000) {
+          throw new Error(`${source}.${key} must be a number between 0 and 10000`);
+        }
+        overrides[key] = raw;
+        break;
+      case "maxDailyLossPct":
+      case "maxDrawdownPct":
+      case "driftTolerancePct":
+      case "volatilityTargetPct":
+        if (typeof raw !== "number" || !(raw > 0 && raw < 100)) {
+          throw new Error(`${source}.${key} must be a percentage between 0 and 100`);
+        }
+        overrides[key] = raw;
+        break;
+      case "inverse":
+      case "flattenOnBreach":
+        if (typeof raw !== "boolean") {
+          throw new Error(`${source}.${key} must be a boolean`);
+        }
+        overrides[key] = raw;
+        break;
+      case "coinOverrides":
+        overrides[key] = validateCoinOverrides(raw, `${source}.${key}`);
+        break;
+      case "allowedCoins":
+      case "deniedCoins":
+        if (!Array.isArray(raw) || raw.some((coin) => typeof coin !== "string" || coin.length === 0)) {
+          throw new Error(`${source}.${key} must be an array of coin names`);
+        }
+        overrides[key] = raw as string[];
+        break;
+      case "deniedCoinPolicy":
+        overrides[key] = validateDeniedCoinPolicy(raw, `${source}.${key}`);
+        break;
+      case "sizingMode":
+        overrides[key] = validateSizingMode(raw, `${source}.${key}`);
+        break;
+      case "sizingStrategy":
+        overrides[key] = validateSizingStrategy(raw, `${source}.${key}`);
+        break;
+      default:
+        throw new Error(`Unknown risk setting ${source}.${key}`);
+    }
+  }
+  return overrides;
+}
+
+/**
+ * Parses the risk config file and resolves the effective risk for every follower.
+ * Each follower starts from its environment-derived risk, then the file's top-level
+ * keys, then its own `followers.<id>` section. The file is read as YAML, which also
+ * accepts plain JSON.
+ *
+ * @param raw - File contents (JSON or YAML)
+ * @param followers - Configured followers with their environment-derived risk
+ * @returns Effective risk configuration by follower id
+ * @throws {Error} If the file is not valid JSON or YAML, has unknown keys or ids, has invalid values,
+ *   or selects a sizing strategy without its parameters
+ */
+export function parseRiskConfigFile(raw: string, followers: readonly FollowerConfig[]): Map<string, RiskConfig> {
+  let parsed: unknown;
+  try {
+    parsed = parseYaml(raw);
+  } catch (error) {
+    throw new Error(`Risk config file is not valid JSON or YAML: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error("Risk config file must contain an object of risk settings");
+  }
+
+  const { followers: sections = {}, ...shared } = parsed as RiskConfigFile;
+  const sharedOverrides = validateRiskOverrides(shared, "risk");
+  if (typeof sections !== "object" || sections === null || Array.isArray(sections)) {
+    throw new Error("risk.followers must be an object keyed by follower id");
+  }
+  for (const id of Object.keys(sections)) {
+    if (!followers.some((follower) => follower.id === id)) {
+      throw new Error(`Unknown follower id in risk config file: ${id}`);
+    }
+  }
+
+  return new Map(
+    followers.map((follower): [string, RiskConfig] => {
+      const risk: RiskConfig = {
+        ...follower.risk,
+        ...sharedOverrides,
+        ...validateRiskOverrides(sections[follower.id] ?? {}, `risk.followers.${follower.id}`),
+      };
+      validateSizingParameters(risk, `risk.followers.${follower.id}`);
+      return [follower.id, risk];
+    }),
+  );
+}
+
+/** Default risk parameters when no environment override is set */
+const DEFAULT_RISK: RiskConfig = {
+  copyRatio: 1,
+  maxLeverage: 10,
+  maxNotionalUsd: 250_000,
+  maxSlippageBps: 25,
+  inverse: false,
+  deniedCoinPolicy: "close",
+  sizingMode: "mirror",
+  sizingStrategy: "leverageMirror",
+};
+
+/**
+ * Loads backtest configuration from `BACKTEST_*` variables plus the usual risk variables.
+ * Either `BACKTEST_FILLS_FILE` or `BACKTEST_LEADER_ADDRESS` must be set.
+ * @returns Validated backtest configuration
+ * @throws {Error} If no fill source is configured or values are invalid
+ */
+export function loadBacktestConfig(): BacktestConfig {
+  const fillsFile = process.env.BACKTEST_FILLS_FILE;
+  const leaderAddress = process.env.BACKTEST_LEADER_ADDRESS;
+  if (!fillsFile && !leaderAddress) {
+    throw new Error("Set BACKTEST_FILLS_FILE or BACKTEST_LEADER_ADDRESS to choose a fill source");
+  }
+  if (leaderAddress && !isAddress(leaderAddress)) {
+    throw new Error("BACKTEST_LEADER_ADDRESS must be a 42-character hex string");
+  }
+
+  // A fills file is replayed over the range it covers unless a bound is set explicitly
+  const endTime = fillsFile && !process.env.BACKTEST_END ? undefined : optionalTimeEnv("BACKTEST_END", Date.now());
+  const startTime =
+    fillsFile && !process.env.BACKTEST_START
+      ? undefined
+      : optionalTimeEnv("BACKTEST_START", (endTime ?? Date.now()) - 30 * 24 * 60 * 60 * 1000);
+  if (startTime !== undefined && endTime !== undefined && startTime >= endTime) {
+    throw new Error("BACKTEST_START must be before BACKTEST_END");
+  }
 
-  const followerPrivateKey = requireEnv("FOLLOWER_PRIVATE_KEY") as `0x${string}`;
-  const followerVaultAddress = process.env.FOLLOWER_VAULT_ADDRESS as `0x${string}` | undefined;
-  if (followerVaultAddress && followerVaultAddress.length !== 42) {
-    throw new Error("FOLLOWER_VAULT_ADDRESS must be a 42-character hex string");
+  const candleInterval = (process.env.BACKTEST_CANDLE_INTERVAL ?? "1h") as CandleInterval;
+  if (!["1m", "5m", "15m", "1h", "4h", "1d"].includes(candleInterval)) {
+    throw new Error(`Unsupported BACKTEST_CANDLE_INTERVAL: ${candleInterval}`);
+  }
+
+  // Live candle volatility would look ahead of the replayed fills
+  const risk = loadRiskConfig("", DEFAULT_RISK);
+  if (risk.sizingStrategy === "volatilityTarget") {
+    throw new Error('SIZING_STRATEGY "volatilityTarget" is not supported in backtests');
   }
 
   return {
-    environment,
-    leaderAddress: requireEnv("LEADER_ADDRESS"),
-    followerPrivateKey,
-    ...(followerVaultAddress ? { followerVaultAddress } : {}),
-    risk: {
-      copyRatio: optionalNumberEnv("COPY_RATIO", 1),
-      maxLeverage: optionalNumberEnv("MAX_LEVERAGE", 10),
-      maxNotionalUsd: optionalNumberEnv("MAX_NOTIONAL_USD", 250_000),
-      maxSlippageBps: optionalNumberEnv("MAX_SLIPPAGE_BPS", 25),
-      inverse: optionalBooleanEnv("INVERSE", false),
+    environment: loadEnvironment(),
+    ...(leaderAddress ? { leaderAddress: leaderAddress as `0x${string}` } : {}),
+    ...(fillsFile ? { fillsFile } : {}),
+    ...(process.env.BACKTEST_PRICES_FILE ? { pricesFile: process.env.BACKTEST_PRICES_FILE } : {}),
+    ...(startTime !== undefined ? { startTime } : {}),
+    ...(endTime !== undefined ? { endTime } : {}),
+    candleInterval,
+    leaderStartingEquityUsd: optionalNumberEnv("BACKTEST_LEADER_EQUITY_USD", 100_000),
+    follower: {
+      startingEquityUsd: optionalNumberEnv("BACKTEST_FOLLOWER_EQUITY_USD", 10_000),
+      feeBps: optionalNumberEnv("PAPER_FEE_BPS", 4.5),
+      slippageBps: optionalNumberEnv("PAPER_SLIPPAGE_BPS", 2),
     },
+    risk,
+    ...(process.env.BACKTEST_OUTPUT_FILE ? { outputFile: process.env.BACKTEST_OUTPUT_FILE } : {}),
+  };
+}
+
+/**
+ * Loads control API settings; the API is enabled only when `CONTROL_API_PORT` is set.
+ * @throws {Error} If the port is set without `CONTROL_API_TOKEN`
+ */
+function loadControlApi(): ControlApiConfig | undefined {
+  if (!process.env.CONTROL_API_PORT) {
+    return undefined;
+  }
+  const token = requireEnv("CONTROL_API_TOKEN");
+  if (token.length < 16) {
+    throw new Error("CONTROL_API_TOKEN must be at least 16 characters");
+  }
+  return {
+    host: process.env.CONTROL_API_HOST ?? "127.0.0.1",
+    port: optionalNumberEnv("CONTROL_API_PORT", 8080),
+    token,
+  };
+}
+
+/**
+ * Loads execution settings (`EXECUTION_MODE` and its slicing / TWAP parameters, `MAKER_FIRST`, `LIQUIDITY_GUARD`).
+ * @throws {Error} If the mode is unknown or a parameter is out of range
+ */
+function loadExecutionConfig(): ExecutionConfig {
+  const mode = (process.env.EXECUTION_MODE ?? "immediate") as ExecutionMode;
+  if (!["immediate", "sliced", "twap"].includes(mode)) {
+    throw new Error(`EXECUTION_MODE must be immediate, sliced or twap, got ${mode}`);
+  }
+  const sliceThresholdUsd = optionalNumberEnv("SLICE_THRESHOLD_USD", 50_000);
+  const sliceNotionalUsd = optionalNumberEnv("SLICE_NOTIONAL_USD", 10_000);
+  const sliceIntervalMs = optionalNumberEnv("SLICE_INTERVAL_MS", 5_000);
+  const twapMinutes = optionalNumberEnv("TWAP_MINUTES", 5);
+  const makerTimeoutMs = optionalNumberEnv("MAKER_TIMEOUT_MS", 30_000);
+  const makerRepriceIntervalMs = optionalNumberEnv("MAKER_REPRICE_INTERVAL_MS", 2_000);
+  const makerMaxDriftBps = optionalNumberEnv("MAKER_MAX_DRIFT_BPS", 20);
+  if (sliceThresholdUsd <= 0 || sliceNotionalUsd <= 0 || sliceIntervalMs <= 0) {
+    throw new Error("SLICE_THRESHOLD_USD, SLICE_NOTIONAL_USD and SLICE_INTERVAL_MS must be positive");
+  }
+  if (!Number.isInteger(twapMinutes) || twapMinutes < 5 || twapMinutes > 1440) {
+    throw new Error(`TWAP_MINUTES must be a whole number between 5 and 1440, got ${twapMinutes}`);
+  }
+  if (makerTimeoutMs <= 0 || makerRepriceIntervalMs <= 0 || makerMaxDriftBps <= 0) {
+    throw new Error("MAKER_TIMEOUT_MS, MAKER_REPRICE_INTERVAL_MS and MAKER_MAX_DRIFT_BPS must be positive");
+  }
+  return {
+    mode,
+    sliceThresholdUsd,
+    sliceNotionalUsd,
+    sliceIntervalMs,
+    twapMinutes,
+    twapRandomize: optionalBooleanEnv("TWAP_RANDOMIZE", false),
+    makerFirst: optionalBooleanEnv("MAKER_FIRST", false),
+    makerTimeoutMs,
+    makerRepriceIntervalMs,
+    makerMaxDriftBps,
+    liquidityGuard: optionalBooleanEnv("LIQUIDITY_GUARD", true),
+  };
+}
+
+/**
+ * Loads volatility estimation settings from `VOLATILITY_*` variables.
+ * @throws {Error} If values are out of range
+ */
+function loadVolatilityConfig(): VolatilityConfig {
+  const lookbackDays = optionalNumberEnv("VOLATILITY_LOOKBACK_DAYS", 14);
+  const candleInterval = (process.env.VOLATILITY_CANDLE_INTERVAL ?? "1h") as CandleInterval;
+  const refreshIntervalMs = optionalNumberEnv("VOLATILITY_REFRESH_MS", 3_600_000);
+  if (lookbackDays <= 0 || refreshIntervalMs <= 0) {
+    throw new Error("VOLATILITY_LOOKBACK_DAYS and VOLATILITY_REFRESH_MS must be positive");
+  }
+  if (!["1m", "5m", "15m", "1h", "4h", "1d"].includes(candleInterval)) {
+    throw new Error(`Unsupported VOLATILITY_CANDLE_INTERVAL: ${candleInterval}`);
+  }
+  return { lookbackDays, candleInterval, refreshIntervalMs };
+}
+
+/** Placeholder for secrets in redacted configuration */
+const REDACTED = "[redacted]";
+
+/**
+ * Returns a copy of the configuration safe to expose: private keys and tokens are replaced.
+ * @param config - Effective configuration
+ * @returns Configuration with secrets redacted
+ */
+export function redactConfig(config: CopyTradingConfig): CopyTradingConfig {
+  return {
+    ...config,
+    followers: config.followers.map((follower) => ({ ...follower, privateKey: REDACTED as `0x${string}` })),
+    ...(config.controlApi ? { controlApi: { ...config.controlApi, token: REDACTED } } : {}),
+  };
+}
+
+/**
+ * Loads and validates configuration from environment variables.
+ * @returns Complete validated configuration
+ * @throws {Error} If required variables are missing or invalid
+ */
+export function loadConfig(): CopyTradingConfig {
+  const environment = loadEnvironment();
+  const risk = loadRiskConfig("", DEFAULT_RISK);
+  const controlApi = loadControlApi();
+
+  return {
+    environment,
+    leaders: loadLeaders(),
+    followers: loadFollowers(risk),
     reconciliationIntervalMs: optionalNumberEnv("RECONCILIATION_INTERVAL_MS", 60_000),
     refreshAccountIntervalMs: optionalNumberEnv("REFRESH_ACCOUNT_INTERVAL_MS", 5_000),
     websocketAggregateFills: optionalBooleanEnv("AGGREGATE_FILLS", true),
+    mirrorTriggerOrders: optionalBooleanEnv("MIRROR_TRIGGER_ORDERS", false),
+    triggerOrderSyncIntervalMs: optionalNumberEnv("TRIGGER_ORDER_SYNC_INTERVAL_MS", 10_000),
+    ...(process.env.EVENT_STORE_PATH ? { eventStorePath: process.env.EVENT_STORE_PATH } : {}),
+    ...(optionalBooleanEnv("PAPER_TRADING", false)
+      ? {
+          paper: {
+            startingEquityUsd: optionalNumberEnv("PAPER_STARTING_EQUITY_USD", 10_000),
+            feeBps: optionalNumberEnv("PAPER_FEE_BPS", 4.5),
+            slippageBps: optionalNumberEnv("PAPER_SLIPPAGE_BPS", 2),
+          },
+        }
+      : {}),
+    ...(controlApi ? { controlApi } : {}),
+    ...(process.env.RISK_CONFIG_FILE ? { riskConfigFile: process.env.RISK_CONFIG_FILE } : {}),
+    execution: loadExecutionConfig(),
+    volatility: loadVolatilityConfig(),
   };
 }
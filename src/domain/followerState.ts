@@ -5,12 +5,14 @@
  * the required order sizes to match target positions with risk limits applied.
  */
 
-import type { RiskConfig } from "../config/index.js";
+import type { CoinRiskOverride, RiskConfig } from "../config/index.js";
 import { safeDivide } from "../utils/math.js";
 import type { PositionSnapshot } from "./types.js";
 import type { TargetPosition } from "./leaderState.js";
 import { TraderStateStore } from "./traderState.js";
-import { logger } from "../utils/logger.js";
+import { logger, type Logger } from "../utils/logger.js";
+import { maxNotionalForEquity, type MarginTierSource } from "../services/marketMetadata.js";
+import { SIZING_STRATEGIES, type VolatilitySource } from "./sizing.js";
 
 /**
  * Represents the difference between current and target position for a coin.
@@ -28,12 +30,99 @@ export interface PositionDelta {
   maxNotionalUsd: number;
 }
 
+/** Effective per-coin risk limits after applying `coinOverrides` */
+export type CoinRiskLimits = Required<CoinRiskOverride>;
+
+/**
+ * Checks a coin against the allowlist and denylist (case-insensitive).
+ * @returns True if the follower may hold and trade the coin
+ */
+export function isCoinTradable(risk: RiskConfig, coin: string): boolean {
+  const name = coin.toUpperCase();
+  if (risk.deniedCoins?.some((denied) => denied.toUpperCase() === name)) {
+    return false;
+  }
+  return !risk.allowedCoins || risk.allowedCoins.some((allowed) => allowed.toUpperCase() === name);
+}
+
+/** Risk fields that feed into target sizes; changing any of them re-sizes entry-locked targets */
+const SIZING_RISK_FIELDS = [
+  "copyRatio",
+  "maxLeverage",
+  "maxNotionalUsd",
+  "inverse",
+  "coinOverrides",
+  "maxGrossLeverage",
+  "maxNetLeverage",
+  "maxCoinConcentrationPct",
+  "sizingMode",
+  "sizingStrategy",
+  "fixedNotionalUsd",
+  "volatilityTargetPct",
+] as const satisfies ReadonlyArray<keyof RiskConfig>;
+
+/**
+ * Returns true if two risk configurations differ in a field that affects target sizes.
+ * Execution-only settings (slippage, drift tolerance, circuit breaker, coin lists) do not count.
+ */
+export function changesSizing(previous: RiskConfig, next: RiskConfig): boolean {
+  return SIZING_RISK_FIELDS.some((field) => JSON.stringify(previous[field]) !== JSON.stringify(next[field]));
+}
+
+/**
+ * Resolves the copy ratio, leverage and notional limits for a coin,
+ * applying its entry in `coinOverrides` (case-insensitive) over the global values.
+ */
+export function resolveCoinRisk(risk: RiskConfig, coin: string): CoinRiskLimits {
+  const name = coin.toUpperCase();
+  const override = Object.entries(risk.coinOverrides ?? {}).find(([key]) => key.toUpperCase() === name)?.[1];
+  return {
+    copyRatio: override?.copyRatio ?? risk.copyRatio,
+    maxLeverage: override?.maxLeverage ?? risk.maxLeverage,
+    maxNotionalUsd: override?.maxNotionalUsd ?? risk.maxNotionalUsd,
+  };
+}
+
+/**
+ * Returns true if a delta only rebalances an existing position by no more than the drift
+ * tolerance: `driftTolerancePct` of the target size and `driftToleranceUsd` of notional
+ * (an unset tolerance does not limit). Opens, closes and flips are never within the band,
+ * and nothing is when neither tolerance is set.
+ *
+ * @param delta - Position delta
+ * @param markPrice - Price used to value the deviation
+ * @param risk - Risk configuration holding the tolerances
+ */
+export function isWithinDriftBand(delta: PositionDelta, markPrice: number, risk: RiskConfig): boolean {
+  const { driftTolerancePct, driftToleranceUsd } = risk;
+  const currentSize = delta.current?.size ?? 0;
+  if (driftTolerancePct === undefined && driftToleranceUsd === undefined) {
+    return false;
+  }
+  if (Math.sign(currentSize) !== Math.sign(delta.targetSize)) {
+    return false;
+  }
+  const deviationPct = safeDivide(Math.abs(delta.deltaSize), Math.abs(delta.targetSize), Infinity) * 100;
+  const deviationUsd = Math.abs(delta.deltaSize) * markPrice;
+  return (
+    (driftTolerancePct === undefined || deviationPct <= driftTolerancePct) &&
+    (driftToleranceUsd === undefined || deviationUsd <= driftToleranceUsd)
+  );
+}
+
 /**
  * Manages follower account state and computes position deltas.
  */
 export class FollowerState extends TraderStateStore {
-  constructor() {
-    super("follower");
+  private portfolioScale = 1;
+  /** Target size per coin fixed at the leader's last size change (entry-locked sizing) */
+  private readonly entryLocks = new Map<string, { leaderSize: number; targetSize: number }>();
+
+  /**
+   * @param log - Logger instance (e.g., scoped to a follower id)
+   */
+  constructor(log: Logger = logger) {
+    super("follower", log);
   }
 
   /**
@@ -44,59 +133,154 @@ export class FollowerState extends TraderStateStore {
   }
 
   /**
-   * Computes position deltas by mirroring leader's leverage scaled by copyRatio.
+   * Applies a fill of one of the follower's own orders as reported by the exchange
+   * (`totalSz` / `avgPx` of an order status), so positions reflect it before the next
+   * clearinghouse fetch replaces them.
+   *
+   * @param coin - Trading pair
+   * @param isBuy - Order side
+   * @param size - Filled size
+   * @param price - Average fill price
+   */
+  applyOrderFill(coin: string, isBuy: boolean, size: number, price: number) {
+    if (size <= 0) {
+      return;
+    }
+    this.applyFill({
+      coin,
+      px: String(price),
+      sz: String(size),
+      side: isBuy ? "B" : "A",
+      startPosition: String(this.getPosition(coin)?.size ?? 0),
+      time: Date.now(),
+    });
+  }
+
+  /**
+   * Computes position deltas from the leader targets with the follower's sizing strategy.
    *
    * Core logic:
-   * 1. Calculate target leverage = leader's leverage × copyRatio
-   * 2. Calculate target notional = target leverage × follower's equity
-   * 3. Apply risk caps (maxLeverage, maxNotionalUsd)
+   * 1. Calculate target notional with `sizingStrategy` (default: leader's leverage × copyRatio
+   *    × follower's equity, see `SIZING_STRATEGIES`)
+   * 2. Apply risk caps (maxLeverage × follower's equity, maxNotionalUsd)
+   * 3. Shrink to the largest notional the coin's margin tiers allow on follower equity
    * 4. Convert notional to position size using mark price
    *
+   * Coins the strategy cannot size (e.g. no volatility estimate) get no delta and keep their
+   * position. Copy ratio and caps come from the coin's `coinOverrides` entry when present. The
+   * resulting book is then scaled down uniformly to respect portfolio-level gross, net
+   * and single-coin concentration limits (see `getPortfolioScale`).
+   * Coins outside the allow/deny lists are never opened; existing positions in them
+   * are closed or left alone according to `deniedCoinPolicy`.
+   *
    * This ensures follower positions scale proportionally to follower's account size.
    *
+   * With `sizingMode: "entryLocked"`, the size computed when a coin's leader size last changed
+   * is kept until the leader trades it again, so mark price and equity moves alone never
+   * change the target (see `resetEntryLocks`).
+   *
    * @param targets - Target positions with leader's leverage
    * @param risk - Risk configuration including copyRatio
+   * @param marginTiers - Margin tier lookup; tiers are not applied when omitted
+   * @param volatility - Volatility estimates for the "volatilityTarget" strategy
    * @returns Array of position deltas to execute
    */
-  computeDeltas(targets: TargetPosition[], risk: RiskConfig): PositionDelta[] {
+  computeDeltas(
+    targets: TargetPosition[],
+    risk: RiskConfig,
+    marginTiers?: MarginTierSource,
+    volatility?: VolatilitySource,
+  ): PositionDelta[] {
     const deltas: PositionDelta[] = [];
     const followerMetrics = this.getMetrics();
     const followerEquity = followerMetrics.accountValueUsd;
+    const strategy = SIZING_STRATEGIES[risk.sizingStrategy];
 
     const targetCoins = new Set<string>();
+    const sized: Array<{
+      target: TargetPosition;
+      current: PositionSnapshot | undefined;
+      copyRatio: number;
+      targetNotional: number;
+      cappedNotional: number;
+      tierCapUsd: number;
+      direction: number;
+    }> = [];
 
-    // Compute deltas for each target position
+    // Size each target position with its per-coin caps
     for (const target of targets) {
       const current = this.getPositions().get(target.coin);
       targetCoins.add(target.coin);
 
-      // Scale leader's leverage by copyRatio
-      const targetLeverage = target.leaderLeverage * risk.copyRatio;
-      
-      // Cap leverage to risk limits
-      const cappedLeverage = Math.min(targetLeverage, risk.maxLeverage);
-      
-      // Calculate target notional based on follower's equity
-      const targetNotional = cappedLeverage * followerEquity;
-      
-      // Apply hard notional cap
-      const allowedNotional = Math.min(targetNotional, risk.maxNotionalUsd);
-      
+      // Never open denied coins; the loop below applies the policy to existing positions
+      if (!isCoinTradable(risk, target.coin)) {
+        targetCoins.delete(target.coin);
+        continue;
+      }
+      const limits = resolveCoinRisk(risk, target.coin);
+
+      // Size the position with the follower's strategy
+      const targetNotional = strategy.targetNotional(target, {
+        followerEquity,
+        copyRatio: limits.copyRatio,
+        risk,
+        ...(volatility ? { volatility } : {}),
+      });
+      if (targetNotional === null) {
+        this.log.debug(`Cannot size ${target.coin} with ${strategy.name}; leaving position unchanged`);
+        continue;
+      }
+
+      // Apply leverage and hard notional caps, then stay within a margin tier that allows the resulting leverage
+      const tierCapUsd = maxNotionalForEquity(marginTiers?.getMarginTiers(target.coin) ?? [], followerEquity);
+      const cappedNotional = Math.min(
+        targetNotional,
+        limits.maxLeverage * followerEquity,
+        limits.maxNotionalUsd,
+        tierCapUsd,
+      );
+      // Determine direction: mirror leader, or invert if configured
+      const direction = target.direction * (risk.inverse ? -1 : 1);
+
+      sized.push({
+        target,
+        current,
+        copyRatio: limits.copyRatio,
+        targetNotional,
+        cappedNotional,
+        tierCapUsd,
+        direction,
+      });
+    }
+
+    // Scale the whole book down uniformly if it breaches portfolio-level limits
+    const scale = this.computePortfolioScale(
+      sized.map((entry) => entry.direction * entry.cappedNotional),
+      followerEquity,
+      risk,
+    );
+
+    for (const { target, current, copyRatio, targetNotional, cappedNotional, tierCapUsd, direction } of sized) {
+      const allowedNotional = cappedNotional * scale;
+
       // Convert notional to size using current mark price
       const price = target.markPrice;
-      // Determine direction: mirror leader, or invert if configured
-      const direction = Math.sign(target.leaderSize) * (risk.inverse ? -1 : 1);
-      const allowedSize = direction * safeDivide(allowedNotional, price, 0);
+      const sizedAtMark = direction * safeDivide(allowedNotional, price, 0);
+      const allowedSize = risk.sizingMode === "entryLocked" ? this.lockTarget(target, sizedAtMark) : sizedAtMark;
       const deltaSize = allowedSize - (current?.size ?? 0);
       
       // Log detailed sizing calculation (debug for cleanliness)
       if (Math.abs(deltaSize) > 1e-6) {
-        logger.debug(`Position sizing for ${target.coin}`, {
+        this.log.debug(`Position sizing for ${target.coin}`, {
+          sizingStrategy: strategy.name,
           leaderLeverage: target.leaderLeverage.toFixed(2) + "x",
-          copyRatio: risk.copyRatio,
+          copyRatio,
           inverse: !!risk.inverse,
-          targetLeverage: targetLeverage.toFixed(2) + "x",
-          cappedLeverage: cappedLeverage.toFixed(2) + "x",
+          targetNotional: "$" + targetNotional.toFixed(2),
+          cappedLeverage: safeDivide(cappedNotional, followerEquity, 0).toFixed(2) + "x",
+          marginTierCap: Number.isFinite(tierCapUsd) ? "$" + tierCapUsd.toFixed(2) : "none",
+          portfolioScale: scale.toFixed(4),
+          sizingMode: risk.sizingMode,
           followerEquity: "$" + followerEquity.toFixed(2),
           allowedNotional: "$" + allowedNotional.toFixed(2),
           markPrice: price,
@@ -115,7 +299,13 @@ export class FollowerState extends TraderStateStore {
       });
     }
 
-    // Generate close deltas for positions not in targets (follower has but leader doesn't)
+    for (const coin of this.entryLocks.keys()) {
+      if (!targetCoins.has(coin)) {
+        this.entryLocks.delete(coin);
+      }
+    }
+
+    // Generate close deltas for positions not in targets (follower has but leader doesn't, or coin is denied)
     for (const [coin, position] of this.getPositions()) {
       if (targetCoins.has(coin)) {
         continue;
@@ -124,6 +314,10 @@ export class FollowerState extends TraderStateStore {
       if (Math.abs(position.size) < 1e-9) {
         continue;
       }
+      if (!isCoinTradable(risk, coin) && risk.deniedCoinPolicy === "leave") {
+        this.log.debug(`Leaving position in denied coin ${coin} untouched`, { size: position.size });
+        continue;
+      }
       deltas.push({
         coin,
         current: position,
@@ -135,4 +329,96 @@ export class FollowerState extends TraderStateStore {
 
     return deltas;
   }
+
+  /**
+   * Drops every entry-locked target so the next `computeDeltas` call sizes all coins at the
+   * current mark price (e.g. after the risk configuration changed).
+   */
+  resetEntryLocks() {
+    this.entryLocks.clear();
+  }
+
+  /**
+   * Returns the coin's locked target size, locking `sizedAtMark` first when the leader size
+   * differs from the one the lock was taken at (or no lock exists yet).
+   *
+   * @param target - Target position with the blended leader size
+   * @param sizedAtMark - Target size computed at the current mark price
+   */
+  private lockTarget(target: TargetPosition, sizedAtMark: number): number {
+    const lock = this.entryLocks.get(target.coin);
+    if (lock && Math.abs(lock.leaderSize - target.leaderSize) <= 1e-9) {
+      return lock.targetSize;
+    }
+    // Without a price the size is meaningless; size at the next sync that has one
+    if (target.markPrice <= 0) {
+      return sizedAtMark;
+    }
+    this.entryLocks.set(target.coin, { leaderSize: target.leaderSize, targetSize: sizedAtMark });
+    if (lock) {
+      this.log.debug(`Relocked ${target.coin} target after leader size change`, {
+        leaderSize: target.leaderSize,
+        previousTargetSize: lock.targetSize,
+        targetSize: sizedAtMark,
+      });
+    }
+    return sizedAtMark;
+  }
+
+  /**
+   * Returns the scale factor applied to the target book by the last `computeDeltas` call
+   * (1 when no portfolio limit was binding).
+   */
+  getPortfolioScale(): number {
+    return this.portfolioScale;
+  }
+
+  /**
+   * Computes the uniform factor (≤ 1) that brings the target book within `maxGrossLeverage`,
+   * `maxNetLeverage` and `maxCoinConcentrationPct`, logging whenever the factor changes.
+   *
+   * @param signedNotionals - Per-coin target notional after per-coin caps (negative = short)
+   * @param followerEquity - Follower account value
+   * @param risk - Risk configuration with the portfolio limits
+   */
+  private computePortfolioScale(signedNotionals: number[], followerEquity: number, risk: RiskConfig): number {
+    const gross = signedNotionals.reduce((sum, notional) => sum + Math.abs(notional), 0);
+    const net = Math.abs(signedNotionals.reduce((sum, notional) => sum + notional, 0));
+    const largest = Math.max(0, ...signedNotionals.map((notional) => Math.abs(notional)));
+
+    const limits: Array<[string, number | undefined, number]> = [
+      ["maxGrossLeverage", risk.maxGrossLeverage, gross],
+      ["maxNetLeverage", risk.maxNetLeverage, net],
+      ["maxCoinConcentrationPct", risk.maxCoinConcentrationPct && risk.maxCoinConcentrationPct / 100, largest],
+    ];
+    let scale = 1;
+    let binding: string | null = null;
+    for (const [name, maxLeverage, exposure] of limits) {
+      if (maxLeverage === undefined || exposure <= 0 || followerEquity <= 0) {
+        continue;
+      }
+      const limitScale = (maxLeverage * followerEquity) / exposure;
+      if (limitScale < scale) {
+        scale = limitScale;
+        binding = name;
+      }
+    }
+
+    if (scale !== this.portfolioScale) {
+      const meta = {
+        scale: scale.toFixed(4),
+        binding,
+        grossLeverage: safeDivide(gross, followerEquity, 0).toFixed(2) + "x",
+        netLeverage: safeDivide(net, followerEquity, 0).toFixed(2) + "x",
+        largestCoinPct: (safeDivide(largest, followerEquity, 0) * 100).toFixed(1) + "%",
+      };
+      if (scale < 1) {
+        this.log.info("Scaling target book to portfolio limits", meta);
+      } else {
+        this.log.info("Portfolio limits no longer binding", meta);
+      }
+    }
+    this.portfolioScale = scale;
+    return scale;
+  }
 }
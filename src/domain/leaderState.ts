@@ -7,9 +7,10 @@
 
 import type { RiskConfig } from "../config/index.js";
 import { safeDivide } from "../utils/math.js";
-import type { PositionSnapshot } from "./types.js";
+import type { MarginMode, PositionSnapshot } from "./types.js";
 import { TraderStateStore } from "./traderState.js";
-import type { MarketMetadataService } from "../services/marketMetadata.js";
+import { logger, type Logger } from "../utils/logger.js";
+import type { MarkPriceSource } from "../services/marketMetadata.js";
 
 /**
  * Represents a target position that the follower should replicate.
@@ -17,20 +18,54 @@ import type { MarketMetadataService } from "../services/marketMetadata.js";
 export interface TargetPosition {
   /** Trading pair */
   coin: string;
-  /** Leader's position size (raw, not scaled) */
+  /**
+   * Leader's position size (raw, not scaled). In a blended book this is the weighted net size,
+   * whose sign can differ from `direction` when leaders with different equity offset each other.
+   */
   leaderSize: number;
-  /** Leader's leverage for this position (notional / leader's account value) */
+  /**
+   * Signed size that size-based strategies copy, always on the side of `direction`: the net
+   * leverage at mark price on the average leader equity, so each leader's position counts in
+   * proportion to its account. Equal to `leaderSize` for a single leader.
+   */
+  blendedSize: number;
+  /** Side the follower should hold before `inverse` is applied: 1 = long, -1 = short */
+  direction: 1 | -1;
+  /** Leader's leverage for this position (notional / leader's account value), unsigned */
   leaderLeverage: number;
   /** Current mark price for the asset */
   markPrice: number;
+  /** Leader's account value in USD (pooled across leaders in a blended book) */
+  leaderEquityUsd: number;
+  /** Leader's margin mode for this coin, when known */
+  marginMode?: MarginMode;
 }
 
+/**
+ * A leader state store paired with its address and signed blending weight.
+ */
+export interface WeightedLeader {
+  /** Leader account address */
+  address: `0x${string}`;
+  /** Signed weight applied to the leader's leverage (negative = inverse) */
+  weight: number;
+  /** Leader state store */
+  state: LeaderState;
+}
+
+/** Net leverage below this is treated as flat after blending */
+const MIN_BLENDED_LEVERAGE = 1e-9;
+
 /**
  * Manages leader account state and computes target positions for the follower.
  */
 export class LeaderState extends TraderStateStore {
-  constructor() {
-    super("leader");
+  /**
+   * @param name - Human-readable name for logging (e.g., "leader 0xabc...")
+   * @param log - Logger instance
+   */
+  constructor(name = "leader", log: Logger = logger) {
+    super(name, log);
   }
 
   /**
@@ -45,7 +80,7 @@ export class LeaderState extends TraderStateStore {
    * @param metadataService - Service providing current mark prices
    * @returns Array of target positions with leader's leverage info
    */
-  computeTargets(metadataService: MarketMetadataService): TargetPosition[] {
+  computeTargets(metadataService: MarkPriceSource): TargetPosition[] {
     const metrics = this.getMetrics();
     const leaderEquity = metrics.accountValueUsd;
     
@@ -60,8 +95,12 @@ export class LeaderState extends TraderStateStore {
       return {
         coin: position.coin,
         leaderSize: position.size,
+        blendedSize: position.size,
+        direction: position.size < 0 ? -1 : 1,
         leaderLeverage,
         markPrice,
+        leaderEquityUsd: leaderEquity,
+        ...(position.marginMode ? { marginMode: position.marginMode } : {}),
       };
     });
   }
@@ -73,3 +112,65 @@ export class LeaderState extends TraderStateStore {
     return this.getPositions().get(coin);
   }
 }
+
+/**
+ * Nets the targets of several leaders into one blended target book.
+ *
+ * Each leader's leverage is signed by position direction and multiplied by its weight,
+ * then summed per coin. The blended target carries the absolute net leverage and takes its
+ * `direction` from the sign of the net leverage; `leaderSize` is the weighted net size, which
+ * is netted without regard to equity and may be zero or opposite to `direction`, so it only
+ * identifies leader trades. `blendedSize` is the net leverage expressed as a size on the
+ * average leader equity, which keeps the sign of `direction` for size-based sizing.
+ * Coins whose net leverage cancels out are dropped. The margin mode is taken from the
+ * leader contributing the most weighted leverage to the coin. `leaderEquityUsd` is the summed
+ * account value of all leaders, so equity-proportional sizing treats them as one pooled account.
+ *
+ * @param leaders - Leaders with their signed weights
+ * @param metadataService - Service providing current mark prices
+ * @returns One target position per coin with non-zero net leverage
+ */
+export function blendTargets(
+  leaders: readonly WeightedLeader[],
+  metadataService: MarkPriceSource,
+): TargetPosition[] {
+  const book = new Map<
+    string,
+    { netLeverage: number; netSize: number; markPrice: number; marginMode?: MarginMode; modeLeverage: number }
+  >();
+
+  for (const leader of leaders) {
+    for (const target of leader.state.computeTargets(metadataService)) {
+      const entry = book.get(target.coin) ?? { netLeverage: 0, netSize: 0, markPrice: target.markPrice, modeLeverage: 0 };
+      const contribution = leader.weight * target.direction * target.leaderLeverage;
+      entry.netLeverage += contribution;
+      entry.netSize += leader.weight * target.leaderSize;
+      entry.markPrice = target.markPrice;
+      if (target.marginMode && Math.abs(contribution) > entry.modeLeverage) {
+        entry.marginMode = target.marginMode;
+        entry.modeLeverage = Math.abs(contribution);
+      }
+      book.set(target.coin, entry);
+    }
+  }
+
+  const pooledEquity = leaders.reduce((sum, leader) => sum + leader.state.getMetrics().accountValueUsd, 0);
+  const averageEquity = safeDivide(pooledEquity, leaders.length, 0);
+  const targets: TargetPosition[] = [];
+  for (const [coin, entry] of book) {
+    if (Math.abs(entry.netLeverage) < MIN_BLENDED_LEVERAGE) {
+      continue;
+    }
+    targets.push({
+      coin,
+      leaderSize: entry.netSize,
+      blendedSize: safeDivide(entry.netLeverage * averageEquity, entry.markPrice, 0),
+      direction: entry.netLeverage < 0 ? -1 : 1,
+      leaderLeverage: Math.abs(entry.netLeverage),
+      markPrice: entry.markPrice,
+      leaderEquityUsd: pooledEquity,
+      ...(entry.marginMode ? { marginMode: entry.marginMode } : {}),
+    });
+  }
+  return targets;
+}
@@ -0,0 +1,441 @@
+/**
+ * Virtual follower account for paper trading and backtests.
+ *
+ * Simulates IOC fills against the current mark price (plus configured slippage) and
+ * post-only orders that rest until the simulated touch reaches them, tracks positions,
+ * cash, fees and realized PnL, and renders the account as a Hyperliquid clearinghouse
+ * state so the rest of the agent reads it like a real one.
+ */
+
+import type { ClearinghouseStateResponse } from "@nktkas/hyperliquid/api/info";
+import type { MarkPriceSource } from "../services/marketMetadata.js";
+import { round, safeDivide } from "../utils/math.js";
+
+/** Minimum position size to consider non-zero (prevents floating point dust) */
+const EPSILON = 1e-9;
+
+/**
+ * Parameters of the simulated account and fill model.
+ */
+export interface PaperLedgerOptions {
+  /** Starting account value in USD */
+  startingEquityUsd: number;
+  /** Fee charged on every fill (taker or resting), in basis points of notional */
+  feeBps: number;
+  /** Simulated half-spread around mark price, in basis points: IOC orders fill this much worse than mark */
+  slippageBps: number;
+  /** Leverage assumed for coins without an explicit setting */
+  defaultLeverage?: number;
+}
+
+/**
+ * IOC order request against the virtual account.
+ */
+export interface PaperOrder {
+  coin: string;
+  isBuy: boolean;
+  /** Order size (always positive) */
+  size: number;
+  /** Worst acceptable fill price */
+  limitPrice: number;
+  reduceOnly: boolean;
+}
+
+/**
+ * Result of a simulated IOC order: either a fill or an exchange-style error.
+ */
+export type PaperFillResult =
+  | { filled: { oid: number; coin: string; size: number; price: number; feeUsd: number } }
+  | { error: string };
+
+/**
+ * Post-only order request against the virtual account.
+ */
+export interface PaperRestingOrderRequest extends PaperOrder {
+  /** Client order id, echoed in order queries */
+  cloid?: `0x${string}`;
+}
+
+/**
+ * Lifecycle state of a post-only order, named like Hyperliquid order statuses.
+ */
+export type PaperOrderStatus = "open" | "filled" | "canceled" | "reduceOnlyCanceled" | "marginCanceled";
+
+/**
+ * Post-only order placed on the virtual account.
+ */
+export interface PaperRestingOrder extends PaperRestingOrderRequest {
+  /** Order id assigned by the ledger */
+  oid: number;
+  /** Size filled so far (orders fill in full or not at all) */
+  filledSize: number;
+  /** Current state */
+  status: PaperOrderStatus;
+  /** Placement time in milliseconds */
+  timestamp: number;
+  /** Time of the last status change in milliseconds */
+  statusTimestamp: number;
+}
+
+/**
+ * Simulated PnL summary for the virtual account.
+ */
+export interface PaperPnlSummary {
+  startingEquityUsd: number;
+  equityUsd: number;
+  realizedPnlUsd: number;
+  unrealizedPnlUsd: number;
+  feesUsd: number;
+  /** Equity change since start (realized + unrealized - fees) */
+  totalPnlUsd: number;
+  /** Cumulative traded notional in USD */
+  volumeUsd: number;
+  fills: number;
+  /** Orders rejected by the simulated exchange (no price, no liquidity within the limit, margin, post-only crossing) */
+  rejectedOrders: number;
+}
+
+/**
+ * Open position in the virtual account.
+ */
+interface PaperPosition {
+  size: number;
+  entryPrice: number;
+}
+
+/**
+ * In-memory virtual account with a mark-price fill model.
+ */
+export class PaperLedger {
+  private readonly positions = new Map<string, PaperPosition>();
+  private readonly leverageByCoin = new Map<string, { leverage: number; isCross: boolean }>();
+  private readonly orders = new Map<number, PaperRestingOrder>();
+  private nextOid = 1;
+  private cashUsd: number;
+  private realizedPnlUsd = 0;
+  private feesUsd = 0;
+  private volumeUsd = 0;
+  private fills = 0;
+  private rejectedOrders = 0;
+
+  /**
+   * @param prices - Source of current mark prices
+   * @param options - Account and fill model parameters
+   */
+  constructor(private readonly prices: MarkPriceSource, private readonly options: PaperLedgerOptions) {
+    this.cashUsd = options.startingEquityUsd;
+  }
+
+  /**
+   * Simulates an IOC order against the current mark price.
+   *
+   * The fill price is mark ± `slippageBps`; if that is worse than the limit price the
+   * order does not fill, like an IOC order finding no liquidity. Reduce-only orders are
+   * clamped to the open position, and orders that would push margin usage above
+   * account value are rejected.
+   *
+   * @param order - Order to simulate
+   * @returns Fill details or an exchange-style error message
+   */
+  executeIoc(order: PaperOrder): PaperFillResult {
+    this.matchRestingOrders();
+    const touch = this.simulatedTouch(order.coin);
+    if (!touch) {
+      return this.reject(`No mark price available for ${order.coin}`);
+    }
+
+    const fillPrice = order.isBuy ? touch.ask : touch.bid;
+    if (order.isBuy ? fillPrice > order.limitPrice : fillPrice < order.limitPrice) {
+      return this.reject(`Order could not immediately match against any resting orders. coin=${order.coin}`);
+    }
+
+    const fill = this.fill(order, fillPrice);
+    return "error" in fill ? this.reject(fill.error) : { filled: { oid: this.nextOid++, ...fill } };
+  }
+
+  /**
+   * Places a post-only order. It is rejected if it would cross the simulated touch
+   * (mark ± `slippageBps`) and otherwise rests until the touch reaches its limit price,
+   * then fills in full at that price. Resting orders are matched whenever the ledger is
+   * read or traded, against the mark price at that moment; a reduce-only order with
+   * nothing left to reduce, or one the account cannot margin when reached, is cancelled.
+   *
+   * @param order - Order to place
+   * @returns Order id of the resting order, or an exchange-style error message
+   */
+  placePostOnly(order: PaperRestingOrderRequest): { oid: number } | { error: string } {
+    this.matchRestingOrders();
+    const touch = this.simulatedTouch(order.coin);
+    if (!touch) {
+      return this.reject(`No mark price available for ${order.coin}`);
+    }
+    if (order.isBuy ? order.limitPrice >= touch.ask : order.limitPrice <= touch.bid) {
+      return this.reject(`Post only order would have immediately matched, bbo was ${touch.bid}@${touch.ask}. asset=${order.coin}`);
+    }
+
+    const now = Date.now();
+    const oid = this.nextOid++;
+    this.orders.set(oid, { ...order, oid, filledSize: 0, status: "open", timestamp: now, statusTimestamp: now });
+    return { oid };
+  }
+
+  /**
+   * Cancels an open post-only order.
+   * @returns False if the order is unknown or no longer open
+   */
+  cancel(oid: number): boolean {
+    this.matchRestingOrders();
+    const order = this.orders.get(oid);
+    if (!order || order.status !== "open") {
+      return false;
+    }
+    this.close(order, "canceled");
+    return true;
+  }
+
+  /**
+   * Returns a post-only order placed on this ledger by id, in any state.
+   */
+  getOrder(oid: number): PaperRestingOrder | undefined {
+    this.matchRestingOrders();
+    return this.orders.get(oid);
+  }
+
+  /**
+   * Returns the post-only orders still resting.
+   */
+  getOpenOrders(): PaperRestingOrder[] {
+    this.matchRestingOrders();
+    return Array.from(this.orders.values()).filter((order) => order.status === "open");
+  }
+
+  /**
+   * Sets the leverage used for margin accounting on a coin.
+   */
+  setLeverage(coin: string, leverage: number, isCross: boolean) {
+    this.leverageByCoin.set(coin, { leverage, isCross });
+  }
+
+  /**
+   * Current account value: cash plus unrealized PnL at mark.
+   */
+  getEquityUsd(): number {
+    return this.cashUsd + this.getUnrealizedPnlUsd();
+  }
+
+  /**
+   * Returns a snapshot of simulated PnL since the ledger was created.
+   */
+  getPnlSummary(): PaperPnlSummary {
+    this.matchRestingOrders();
+    const equityUsd = this.getEquityUsd();
+    return {
+      startingEquityUsd: this.options.startingEquityUsd,
+      equityUsd,
+      realizedPnlUsd: this.realizedPnlUsd,
+      unrealizedPnlUsd: this.getUnrealizedPnlUsd(),
+      feesUsd: this.feesUsd,
+      totalPnlUsd: equityUsd - this.options.startingEquityUsd,
+      volumeUsd: this.volumeUsd,
+      fills: this.fills,
+      rejectedOrders: this.rejectedOrders,
+    };
+  }
+
+  /**
+   * Renders the virtual account as a Hyperliquid clearinghouse state response.
+   */
+  toClearinghouseState(): ClearinghouseStateResponse {
+    this.matchRestingOrders();
+    const assetPositions: ClearinghouseStateResponse["assetPositions"] = [];
+    let totalNotional = 0;
+    let totalMargin = 0;
+
+    for (const [coin, position] of this.positions) {
+      const markPrice = this.markOrEntry(coin, position);
+      const positionValue = Math.abs(position.size) * markPrice;
+      const { leverage, isCross } = this.getLeverage(coin);
+      const marginUsed = positionValue / leverage;
+      const unrealizedPnl = position.size * (markPrice - position.entryPrice);
+      totalNotional += positionValue;
+      totalMargin += marginUsed;
+
+      assetPositions.push({
+        type: "oneWay",
+        position: {
+          coin,
+          szi: String(round(position.size, 9)),
+          leverage: isCross
+            ? { type: "cross", value: leverage }
+            : { type: "isolated", value: leverage, rawUsd: String(-positionValue + marginUsed) },
+          entryPx: String(position.entryPrice),
+          positionValue: String(positionValue),
+          unrealizedPnl: String(unrealizedPnl),
+          returnOnEquity: String(safeDivide(unrealizedPnl, marginUsed, 0)),
+          liquidationPx: null,
+          marginUsed: String(marginUsed),
+          maxLeverage: leverage,
+          cumFunding: { allTime: "0", sinceOpen: "0", sinceChange: "0" },
+        },
+      });
+    }
+
+    const accountValue = this.getEquityUsd();
+    const summary = {
+      accountValue: String(accountValue),
+      totalNtlPos: String(totalNotional),
+      totalRawUsd: String(this.cashUsd),
+      totalMarginUsed: String(totalMargin),
+    };
+
+    return {
+      marginSummary: summary,
+      crossMarginSummary: summary,
+      crossMaintenanceMarginUsed: String(totalMargin / 2),
+      withdrawable: String(Math.max(0, accountValue - totalMargin)),
+      assetPositions,
+      time: Date.now(),
+    };
+  }
+
+  /**
+   * Counts a rejected order and returns its error.
+   */
+  private reject(error: string): { error: string } {
+    this.rejectedOrders += 1;
+    return { error };
+  }
+
+  /**
+   * Books a fill at `price` after reduce-only clamping and the margin check, charging the fee.
+   */
+  private fill(order: PaperOrder, price: number): { coin: string; size: number; price: number; feeUsd: number } | { error: string } {
+    const existing = this.positions.get(order.coin)?.size ?? 0;
+    let size = order.size;
+    if (order.reduceOnly) {
+      const reduces = existing !== 0 && Math.sign(existing) !== (order.isBuy ? 1 : -1);
+      if (!reduces) {
+        return { error: "Reduce only order would increase position." };
+      }
+      size = Math.min(size, Math.abs(existing));
+    }
+
+    const signedSize = order.isBuy ? size : -size;
+    if (!this.hasMarginFor(order.coin, existing + signedSize)) {
+      return { error: "Insufficient margin to place order." };
+    }
+
+    const notional = size * price;
+    const feeUsd = (notional * this.options.feeBps) / 10_000;
+    this.applyFill(order.coin, signedSize, price);
+    this.cashUsd -= feeUsd;
+    this.feesUsd += feeUsd;
+    this.volumeUsd += notional;
+    this.fills += 1;
+    return { coin: order.coin, size, price, feeUsd };
+  }
+
+  /**
+   * Fills every resting order whose limit price the simulated touch has reached.
+   */
+  private matchRestingOrders() {
+    for (const order of this.orders.values()) {
+      const touch = order.status === "open" ? this.simulatedTouch(order.coin) : undefined;
+      if (!touch || (order.isBuy ? touch.ask > order.limitPrice : touch.bid < order.limitPrice)) {
+        continue;
+      }
+      const fill = this.fill(order, order.limitPrice);
+      if ("error" in fill) {
+        this.close(order, order.reduceOnly && fill.error.startsWith("Reduce only") ? "reduceOnlyCanceled" : "marginCanceled");
+        continue;
+      }
+      order.filledSize = fill.size;
+      this.close(order, "filled");
+    }
+  }
+
+  private close(order: PaperRestingOrder, status: Exclude<PaperOrderStatus, "open">) {
+    order.status = status;
+    order.statusTimestamp = Date.now();
+  }
+
+  /**
+   * Simulated best bid and ask: mark price ∓ `slippageBps`.
+   */
+  private simulatedTouch(coin: string): { bid: number; ask: number } | undefined {
+    const markPrice = this.prices.getMarkPrice(coin);
+    if (!markPrice || markPrice <= 0) {
+      return undefined;
+    }
+    const slippage = this.options.slippageBps / 10_000;
+    return { bid: markPrice * (1 - slippage), ask: markPrice * (1 + slippage) };
+  }
+
+  /**
+   * Updates position size and entry price for a fill, realizing PnL on reductions.
+   */
+  private applyFill(coin: string, signedSize: number, price: number) {
+    const existing = this.positions.get(coin);
+    const oldSize = existing?.size ?? 0;
+    const newSize = round(oldSize + signedSize, 9);
+
+    if (existing && Math.sign(oldSize) !== Math.sign(signedSize)) {
+      // Reducing, closing or flipping: realize PnL on the closed portion
+      const closingSize = Math.min(Math.abs(oldSize), Math.abs(signedSize));
+      const realized = closingSize * (price - existing.entryPrice) * Math.sign(oldSize);
+      this.cashUsd += realized;
+      this.realizedPnlUsd += realized;
+    }
+
+    if (Math.abs(newSize) < EPSILON) {
+      this.positions.delete(coin);
+      return;
+    }
+
+    let entryPrice = price;
+    if (existing && Math.sign(oldSize) === Math.sign(newSize)) {
+      entryPrice =
+        Math.sign(oldSize) === Math.sign(signedSize)
+          ? safeDivide(Math.abs(oldSize) * existing.entryPrice + Math.abs(signedSize) * price, Math.abs(newSize), price)
+          : existing.entryPrice;
+    }
+    this.positions.set(coin, { size: newSize, entryPrice });
+  }
+
+  /**
+   * Checks whether the account could hold `newSize` on `coin` given margin for all other positions.
+   * Reducing a position is always allowed.
+   */
+  private hasMarginFor(coin: string, newSize: number): boolean {
+    const current = this.positions.get(coin);
+    if (current && Math.abs(newSize) <= Math.abs(current.size) && Math.sign(newSize) !== -Math.sign(current.size)) {
+      return true;
+    }
+
+    let requiredMargin = 0;
+    for (const [otherCoin, position] of this.positions) {
+      if (otherCoin !== coin) {
+        requiredMargin += (Math.abs(position.size) * this.markOrEntry(otherCoin, position)) / this.getLeverage(otherCoin).leverage;
+      }
+    }
+    const markPrice = this.prices.getMarkPrice(coin) ?? 0;
+    requiredMargin += (Math.abs(newSize) * markPrice) / this.getLeverage(coin).leverage;
+    return requiredMargin <= this.getEquityUsd();
+  }
+
+  private getUnrealizedPnlUsd(): number {
+    let total = 0;
+    for (const [coin, position] of this.positions) {
+      total += position.size * (this.markOrEntry(coin, position) - position.entryPrice);
+    }
+    return total;
+  }
+
+  private markOrEntry(coin: string, position: PaperPosition): number {
+    return this.prices.getMarkPrice(coin) ?? position.entryPrice;
+  }
+
+  private getLeverage(coin: string): { leverage: number; isCross: boolean } {
+    return this.leverageByCoin.get(coin) ?? { leverage: this.options.defaultLeverage ?? 20, isCross: true };
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * Daily loss and drawdown circuit breaker for a follower account.
+ *
+ * Tracks follower equity against the highest equity of the current UTC day (daily
+ * high-water mark) and the highest equity seen since start (peak). When the loss from
+ * either exceeds `maxDailyLossPct` or `maxDrawdownPct`, the guard trips and stays
+ * tripped until `reset()` is called or a new UTC day begins. Clearing a trip re-bases
+ * the breached mark at the current equity so the breaker does not re-trip on the same loss.
+ * `getState()` and `restore()` carry the trip and both marks across restarts.
+ */
+
+import type { RiskConfig } from "../config/index.js";
+import { logger, type Logger } from "../utils/logger.js";
+import { safeDivide } from "../utils/math.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Details of a tripped circuit breaker.
+ */
+export interface RiskGuardTrip {
+  /** Which limit was breached */
+  reason: "dailyLoss" | "drawdown";
+  /** Time the breaker tripped in milliseconds */
+  trippedAtMs: number;
+  /** Follower equity when the breaker tripped */
+  equityUsd: number;
+  /** Daily high-water mark or peak the loss was measured from */
+  referenceUsd: number;
+  /** Loss from the reference in percent */
+  lossPct: number;
+}
+
+/**
+ * Snapshot of the guard's state for status reporting.
+ */
+export interface RiskGuardStatus {
+  /** Active trip, null if trading is allowed */
+  tripped: RiskGuardTrip | null;
+  /** Highest equity of the current UTC day */
+  dailyHighUsd: number;
+  /** Highest equity since start or the last reset */
+  peakUsd: number;
+}
+
+/**
+ * Guard state saved across restarts.
+ */
+export interface RiskGuardState extends RiskGuardStatus {
+  /** Start of the UTC day `dailyHighUsd` belongs to, in milliseconds */
+  dayStartMs: number;
+}
+
+/**
+ * Equity-based circuit breaker; one instance per follower.
+ */
+export class RiskGuard {
+  private tripped: RiskGuardTrip | null = null;
+  private dailyHighUsd = 0;
+  private peakUsd = 0;
+  private dayStartMs = 0;
+  private lastEquityUsd = 0;
+
+  /**
+   * @param log - Logger instance
+   * @param now - Clock (injectable for backtests)
+   */
+  constructor(private readonly log: Logger = logger, private readonly now: () => number = Date.now) {}
+
+  /**
+   * Feeds the latest follower equity and checks the configured limits.
+   *
+   * @param equityUsd - Current follower account value
+   * @param risk - Risk configuration holding `maxDailyLossPct` / `maxDrawdownPct`
+   * @returns True if the breaker is tripped after this update
+   */
+  update(equityUsd: number, risk: RiskConfig): boolean {
+    const time = this.now();
+    const dayStartMs = Math.floor(time / DAY_MS) * DAY_MS;
+
+    // A new UTC day clears any trip and starts a fresh daily high-water mark
+    if (dayStartMs !== this.dayStartMs) {
+      this.dayStartMs = dayStartMs;
+      if (this.tripped) {
+        this.log.info("Circuit breaker cleared for new trading day", { previous: this.tripped });
+        this.clear(equityUsd);
+      }
+      this.dailyHighUsd = equityUsd;
+    }
+    if (equityUsd <= 0) {
+      return this.tripped !== null;
+    }
+    this.lastEquityUsd = equityUsd;
+
+    this.dailyHighUsd = Math.max(this.dailyHighUsd, equityUsd);
+    this.peakUsd = Math.max(this.peakUsd, equityUsd);
+    if (this.tripped) {
+      return true;
+    }
+
+    const dailyLossPct = safeDivide(this.dailyHighUsd - equityUsd, this.dailyHighUsd, 0) * 100;
+    const drawdownPct = safeDivide(this.peakUsd - equityUsd, this.peakUsd, 0) * 100;
+    if (risk.maxDailyLossPct !== undefined && dailyLossPct >= risk.maxDailyLossPct) {
+      this.trip("dailyLoss", equityUsd, this.dailyHighUsd, dailyLossPct, time);
+    } else if (risk.maxDrawdownPct !== undefined && drawdownPct >= risk.maxDrawdownPct) {
+      this.trip("drawdown", equityUsd, this.peakUsd, drawdownPct, time);
+    }
+    return this.tripped !== null;
+  }
+
+  /**
+   * Returns true while the breaker is tripped.
+   */
+  isTripped(): boolean {
+    return this.tripped !== null;
+  }
+
+  /**
+   * Manually clears a trip, re-basing the breached mark at the last equity.
+   */
+  reset() {
+    if (!this.tripped) {
+      return;
+    }
+    this.log.warn("Circuit breaker manually reset", { previous: this.tripped });
+    this.clear(this.lastEquityUsd);
+  }
+
+  /**
+   * Returns the guard's current state.
+   */
+  getStatus(): RiskGuardStatus {
+    return { tripped: this.tripped, dailyHighUsd: this.dailyHighUsd, peakUsd: this.peakUsd };
+  }
+
+  /**
+   * Returns the state needed to resume the guard after a restart.
+   */
+  getState(): RiskGuardState {
+    return { ...this.getStatus(), dayStartMs: this.dayStartMs };
+  }
+
+  /**
+   * Resumes from a saved state. A trip saved on an earlier UTC day is cleared by the next
+   * `update()`, as it would have been without the restart.
+   */
+  restore(state: RiskGuardState) {
+    this.tripped = state.tripped;
+    this.dailyHighUsd = state.dailyHighUsd;
+    this.peakUsd = state.peakUsd;
+    this.dayStartMs = state.dayStartMs;
+    this.lastEquityUsd = state.tripped?.equityUsd ?? state.dailyHighUsd;
+  }
+
+  private trip(reason: RiskGuardTrip["reason"], equityUsd: number, referenceUsd: number, lossPct: number, time: number) {
+    this.tripped = { reason, trippedAtMs: time, equityUsd, referenceUsd, lossPct };
+    this.log.error("Circuit breaker tripped; blocking new exposure", { ...this.tripped });
+  }
+
+  private clear(equityUsd: number) {
+    if (this.tripped?.reason === "drawdown") {
+      this.peakUsd = equityUsd;
+    }
+    this.tripped = null;
+    this.dailyHighUsd = equityUsd;
+  }
+}
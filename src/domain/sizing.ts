@@ -0,0 +1,131 @@
+/**
+ * Sizing strategies for follower target positions.
+ *
+ * A strategy turns a leader target into the follower's unsigned target notional in USD.
+ * Direction, per-coin caps (`maxLeverage`, `maxNotionalUsd`, margin tiers), portfolio limits
+ * and entry locking are applied afterwards by `FollowerState.computeDeltas`, whatever the
+ * strategy. The strategy is chosen per follower with `sizingStrategy`.
+ */
+
+import type { RiskConfig, SizingStrategyName } from "../config/index.js";
+import { safeDivide } from "../utils/math.js";
+import type { TargetPosition } from "./leaderState.js";
+
+/**
+ * Source of realized volatility estimates.
+ */
+export interface VolatilitySource {
+  /**
+   * Returns the coin's daily volatility as a fraction (0.04 = 4% standard deviation of
+   * daily returns), or undefined if no estimate is available.
+   */
+  getDailyVolatility(coin: string): number | undefined;
+}
+
+/**
+ * Follower-side inputs to a sizing decision.
+ */
+export interface SizingContext {
+  /** Follower account value in USD */
+  followerEquity: number;
+  /** Copy ratio for the coin after `coinOverrides` */
+  copyRatio: number;
+  /** Follower risk configuration (strategy parameters) */
+  risk: RiskConfig;
+  /** Volatility estimates, required by `volatilityTarget` */
+  volatility?: VolatilitySource;
+}
+
+/**
+ * Computes a follower target notional from a leader target.
+ */
+export interface SizingStrategy {
+  /** Name used in configuration and logs */
+  readonly name: SizingStrategyName;
+  /**
+   * Returns the unsigned target notional in USD before risk caps, or null if the coin
+   * cannot be sized right now (its position is then left unchanged).
+   */
+  targetNotional(target: TargetPosition, context: SizingContext): number | null;
+}
+
+/**
+ * Mirrors the leader's leverage scaled by the copy ratio:
+ * notional = leader leverage × copyRatio × follower equity.
+ */
+export class LeverageMirrorSizing implements SizingStrategy {
+  readonly name = "leverageMirror";
+
+  targetNotional(target: TargetPosition, context: SizingContext): number {
+    return target.leaderLeverage * context.copyRatio * context.followerEquity;
+  }
+}
+
+/**
+ * Holds a fixed fraction of the leader's position size:
+ * notional = |blended size| × copyRatio × mark price.
+ */
+export class FixedRatioSizing implements SizingStrategy {
+  readonly name = "fixedRatio";
+
+  targetNotional(target: TargetPosition, context: SizingContext): number {
+    return Math.abs(target.blendedSize) * context.copyRatio * target.markPrice;
+  }
+}
+
+/**
+ * Opens every copied position at `fixedNotionalUsd`, independent of the leader's size
+ * (the copy ratio is not applied).
+ */
+export class FixedNotionalSizing implements SizingStrategy {
+  readonly name = "fixedNotional";
+
+  targetNotional(_target: TargetPosition, context: SizingContext): number | null {
+    return context.risk.fixedNotionalUsd ?? null;
+  }
+}
+
+/**
+ * Scales the leader's notional by the ratio of follower to leader equity:
+ * notional = |blended size| × mark price × follower equity / leader equity × copyRatio.
+ * With several leaders, their equity is pooled and the blended size is their net leverage on
+ * the average leader equity.
+ */
+export class EquityProportionalSizing implements SizingStrategy {
+  readonly name = "equityProportional";
+
+  targetNotional(target: TargetPosition, context: SizingContext): number | null {
+    if (target.leaderEquityUsd <= 0) {
+      return null;
+    }
+    const leaderNotional = Math.abs(target.blendedSize) * target.markPrice;
+    return leaderNotional * safeDivide(context.followerEquity, target.leaderEquityUsd, 0) * context.copyRatio;
+  }
+}
+
+/**
+ * Sizes each position so its expected daily move is `volatilityTargetPct` of follower equity:
+ * notional = follower equity × volatilityTargetPct / 100 / daily volatility. The leader only
+ * decides which coins are held and in which direction; the copy ratio is not applied.
+ */
+export class VolatilityTargetSizing implements SizingStrategy {
+  readonly name = "volatilityTarget";
+
+  targetNotional(target: TargetPosition, context: SizingContext): number | null {
+    const budgetPct = context.risk.volatilityTargetPct;
+    const dailyVolatility = context.volatility?.getDailyVolatility(target.coin);
+    if (budgetPct === undefined || dailyVolatility === undefined || dailyVolatility <= 0) {
+      return null;
+    }
+    return (context.followerEquity * budgetPct) / 100 / dailyVolatility;
+  }
+}
+
+/** Built-in strategies by configuration name */
+export const SIZING_STRATEGIES: Readonly<Record<SizingStrategyName, SizingStrategy>> = {
+  leverageMirror: new LeverageMirrorSizing(),
+  fixedRatio: new FixedRatioSizing(),
+  fixedNotional: new FixedNotionalSizing(),
+  equityProportional: new EquityProportionalSizing(),
+  volatilityTarget: new VolatilityTargetSizing(),
+};
@@ -17,7 +17,7 @@ import type { AccountMetrics, PositionSnapshot } from "./types.js";
 /**
  * Fill data structure from Hyperliquid WebSocket events.
  */
-interface Fill {
+export interface Fill {
   /** Trading pair */
   coin: string;
   /** Fill price */
@@ -47,12 +47,13 @@ export class TraderStateStore {
     withdrawableUsd: 0,
     lastUpdatedMs: 0,
   };
+  private lastFillTimeMs = 0;
 
   /**
    * @param name - Human-readable name for logging (e.g., "leader", "follower")
    * @param log - Logger instance
    */
-  constructor(private readonly name: string, private readonly log: Logger = logger) {}
+  constructor(private readonly name: string, protected readonly log: Logger = logger) {}
 
   /**
    * Returns a read-only view of current positions.
@@ -68,6 +69,22 @@ export class TraderStateStore {
     return this.metrics;
   }
 
+  /**
+   * Replaces account-level metrics without touching positions.
+   * Used where metrics are derived locally (e.g., backtests) rather than from a snapshot.
+   */
+  setMetrics(metrics: AccountMetrics) {
+    this.metrics = metrics;
+  }
+
+  /**
+   * Returns the exchange time of the most recent live fill applied via `handleFillEvent`, 0 if none.
+   * Fills from the snapshot sent when a subscription (re)connects are historical and not counted.
+   */
+  getLastFillTimeMs(): number {
+    return this.lastFillTimeMs;
+  }
+
   /**
    * Processes a batch of fills from a WebSocket event, updating positions incrementally.
    * @param event - User fills event from Hyperliquid WebSocket
@@ -75,6 +92,9 @@ export class TraderStateStore {
   handleFillEvent(event: UserFillsEvent) {
     for (const fill of event.fills) {
       this.applyFill(fill as Fill);
+      if (!event.isSnapshot) {
+        this.lastFillTimeMs = Math.max(this.lastFillTimeMs, fill.time);
+      }
     }
   }
 
@@ -116,6 +136,7 @@ export class TraderStateStore {
         entryPrice: toFloat(position.entryPx),
         positionValueUsd: toFloat(position.positionValue),
         leverage: Number(position.leverage.value ?? 0),
+        marginMode: position.leverage.type,
         marginUsedUsd: toFloat(position.marginUsed),
         liquidationPrice: position.liquidationPx ? toFloat(position.liquidationPx) : null,
         lastUpdatedMs: now,
@@ -149,7 +170,7 @@ export class TraderStateStore {
    *
    * @param fill - Fill data from WebSocket event
    */
-  private applyFill(fill: Fill) {
+  protected applyFill(fill: Fill) {
     const existing = this.positions.get(fill.coin);
     const oldSize = existing?.size ?? toFloat(fill.startPosition);
     const fillSize = toFloat(fill.sz);
@@ -206,6 +227,7 @@ export class TraderStateStore {
       entryPrice: newEntryPrice,
       positionValueUsd: Math.abs(newSize) * fillPrice,
       leverage,
+      ...(existing?.marginMode ? { marginMode: existing.marginMode } : {}),
       marginUsedUsd,
       liquidationPrice: existing?.liquidationPrice ?? null,
       lastUpdatedMs: now,
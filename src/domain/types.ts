@@ -5,6 +5,9 @@
 /** Direction of a position */
 export type PositionSide = "long" | "short" | "flat";
 
+/** Margin mode of a position's exchange leverage setting */
+export type MarginMode = "cross" | "isolated";
+
 /**
  * Immutable snapshot of a position at a point in time.
  */
@@ -19,6 +22,8 @@ export interface PositionSnapshot {
   positionValueUsd: number;
   /** Current leverage multiplier */
   leverage: number;
+  /** Margin mode of the position, when known from a clearinghouse snapshot */
+  marginMode?: MarginMode;
   /** Margin currently allocated to this position in USD */
   marginUsedUsd: number;
   /** Estimated liquidation price, null if not available */
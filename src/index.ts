@@ -2,27 +2,39 @@
 /**
  * Hyperliquid Copy Trading Agent
  *
- * This agent automatically replicates trades from a leader account to a follower account
- * on Hyperliquid DEX, with configurable risk management and position scaling.
+ * This agent automatically replicates trades from one or more leader accounts to a follower
+ * account on Hyperliquid DEX, with configurable risk management and position scaling.
  *
  * Key features:
  * - Real-time WebSocket subscriptions to leader fills
+ * - Weighted multi-leader portfolios netted per coin
+ * - Fan-out of one set of leader subscriptions to many follower accounts and vaults
  * - Periodic reconciliation to ensure state consistency
  * - Risk controls: copy ratio, max leverage, max notional, slippage limits
  * - Support for both direct wallet trading and vault delegation
+ * - Paper trading mode against simulated follower accounts
+ * - Optional bearer-protected HTTP control API
+ * - Hot-reload of risk parameters from a watched config file
  */
 
 import { setTimeout as delay } from "node:timers/promises";
 import * as dotenv from "dotenv";
 import { loadConfig } from "./config/index.js";
 import { createHyperliquidClients } from "./clients/hyperliquid.js";
-import { LeaderState } from "./domain/leaderState.js";
+import { createPaperClients } from "./clients/paper.js";
+import { LeaderState, type WeightedLeader } from "./domain/leaderState.js";
 import { FollowerState } from "./domain/followerState.js";
 import { MarketMetadataService } from "./services/marketMetadata.js";
+import { VolatilityService } from "./services/volatility.js";
+import { TriggerOrderMirror } from "./services/triggerOrders.js";
 import { TradeExecutor } from "./services/tradeExecutor.js";
 import { Reconciler } from "./services/reconciler.js";
 import { SubscriptionService } from "./services/subscriptions.js";
-import { logger } from "./utils/logger.js";
+import { FollowerFleet } from "./services/followerFleet.js";
+import { EventStore } from "./services/eventStore.js";
+import { ControlApiServer } from "./services/controlApi.js";
+import { RiskConfigWatcher } from "./services/riskConfigWatcher.js";
+import { logger, withContext } from "./utils/logger.js";
 
 /**
  * Main entry point for the copy trading agent.
@@ -35,45 +47,86 @@ async function main() {
     // Load configuration from environment variables
     const config = loadConfig();
 
-    // Initialize Hyperliquid API clients (HTTP + WebSocket)
-    const clients = createHyperliquidClients(config);
+    // Initialize Hyperliquid API clients (HTTP + WebSocket, one signer per follower)
+    const liveClients = createHyperliquidClients(config);
+
+    // Service to fetch and cache market metadata (decimals, max leverage, etc.), shared by all followers
+    const metadataService = new MarketMetadataService(liveClients.infoClient, logger);
+
+    // Candle-based volatility estimates for volatility-targeted sizing; only fetched for followers using it
+    const volatilityService = new VolatilityService(liveClients.infoClient, config.volatility, logger);
+
+    // In paper mode, follower orders and follower account reads go to simulated ledgers
+    const paper = config.paper ? createPaperClients(liveClients, metadataService, config.paper, logger) : undefined;
+    const clients = paper?.clients ?? liveClients;
+
+    // Optional persistent record of leader fills, order batches and account snapshots
+    const eventStore = config.eventStorePath ? new EventStore(config.eventStorePath, logger) : undefined;
+
+    // State stores for each weighted leader, shared by all followers
+    const leaders: WeightedLeader[] = config.leaders.map((leader) => ({
+      address: leader.address,
+      weight: leader.weight,
+      state: new LeaderState(`leader ${leader.address}`),
+    }));
+
+    // One follower state + trade executor pair per configured follower account
+    const fleet = new FollowerFleet(
+      config.followers.map((followerConfig, index) => {
+        const followerClients = clients.followers[index];
+        if (!followerClients) {
+          throw new Error(`Missing clients for follower ${followerConfig.id}`);
+        }
+        const followerLog = config.followers.length > 1 ? withContext(logger, { follower: followerConfig.id }) : logger;
+        const followerState = new FollowerState(followerLog);
+
+        // Core service that computes deltas and executes follower orders
+        const executor = new TradeExecutor({
+          followerId: followerConfig.id,
+          exchangeClient: followerClients.exchangeClient,
+          infoClient: clients.infoClient,
+          followerAddress: followerClients.followerTradingAddress,
+          leaders,
+          followerState,
+          metadataService,
+          volatilityService,
+          risk: followerConfig.risk,
+          execution: config.execution,
+          log: followerLog,
+          ...(eventStore ? { eventStore } : {}),
+        });
 
-    // State stores for leader and follower positions
-    const leaderState = new LeaderState();
-    const followerState = new FollowerState();
+        return {
+          id: followerConfig.id,
+          address: followerClients.followerTradingAddress,
+          state: followerState,
+          executor,
+        };
+      }),
+      logger,
+    );
 
-    // Service to fetch and cache market metadata (decimals, max leverage, etc.)
-    const metadataService = new MarketMetadataService(clients.infoClient, logger);
+    // Resume each follower's circuit breaker so a restart does not clear a trip
+    await Promise.all(fleet.list().map((follower) => follower.executor.restoreRiskGuard()));
 
-    // Core service that computes deltas and executes follower orders
-    const tradeExecutor = new TradeExecutor({
-      exchangeClient: clients.exchangeClient,
-      infoClient: clients.infoClient,
-      followerAddress: clients.followerTradingAddress,
-      leaderState,
-      followerState,
-      metadataService,
-      risk: config.risk,
-      log: logger,
-    });
+    // Optional risk config file overriding env risk; invalid at startup is fatal, later edits are validated live
+    const riskWatcher = config.riskConfigFile
+      ? new RiskConfigWatcher(config.riskConfigFile, config.followers, fleet, logger)
+      : undefined;
+    await riskWatcher?.load();
+    riskWatcher?.start();
 
     // Periodic reconciliation service to sync full account state from Hyperliquid API
-    const reconciler = new Reconciler(
-      clients.infoClient,
-      config,
-      leaderState,
-      followerState,
-      clients.followerTradingAddress,
-      logger,
-    );
+    const reconciler = new Reconciler(clients.infoClient, config, leaders, fleet.list(), logger, eventStore);
 
-    // WebSocket subscription service for real-time leader fill updates
+    // WebSocket subscription service for real-time leader fill updates (one per leader, shared by all followers)
     const subscriptions = new SubscriptionService(
       clients.subscriptionClient,
       config,
-      leaderState,
-      () => tradeExecutor.syncWithLeader(),
+      leaders,
+      () => fleet.syncAll(),
       logger,
+      eventStore,
     );
 
     // Start WebSocket subscriptions to leader fills
@@ -85,13 +138,43 @@ async function main() {
     // Start periodic reconciliation loop
     reconciler.start();
 
+    // Optional mirroring of leader TP/SL trigger orders; paper accounts do not simulate trigger orders
+    if (config.mirrorTriggerOrders && paper) {
+      logger.warn("MIRROR_TRIGGER_ORDERS is ignored in paper trading mode");
+    }
+    const triggerMirror =
+      config.mirrorTriggerOrders && !paper
+        ? new TriggerOrderMirror(
+            clients.infoClient,
+            leaders,
+            clients.followers.flatMap((followerClients) => {
+              const follower = fleet.get(followerClients.id);
+              return follower
+                ? [
+                    {
+                      id: follower.id,
+                      address: follower.address,
+                      state: follower.state,
+                      exchangeClient: followerClients.exchangeClient,
+                      getRisk: () => follower.executor.getRisk(),
+                    },
+                  ]
+                : [];
+            }),
+            metadataService,
+            config.triggerOrderSyncIntervalMs,
+            logger,
+          )
+        : undefined;
+    triggerMirror?.start();
+
     /**
-     * Background polling loop to periodically sync follower with leader.
+     * Background polling loop to periodically sync every follower with the leaders.
      * This provides a fallback in case WebSocket events are missed.
      */
     const pollLoop = async () => {
       while (true) {
-        await tradeExecutor.syncWithLeader().catch((error) => {
+        await fleet.syncAll().catch((error) => {
           logger.error("Periodic sync failed", { error });
         });
         await delay(config.refreshAccountIntervalMs);
@@ -100,6 +183,19 @@ async function main() {
 
     void pollLoop();
 
+    // Optional HTTP control API for status, pause/resume and manual sync/reconcile
+    const controlApi = config.controlApi
+      ? new ControlApiServer({
+          config,
+          fleet,
+          leaders,
+          reconciler,
+          log: logger,
+          ...(paper ? { paperLedgers: paper.ledgers } : {}),
+        })
+      : undefined;
+    await controlApi?.start();
+
     /**
      * Graceful shutdown handler for SIGINT/SIGTERM signals.
      * Unsubscribes from WebSocket channels and closes connections cleanly.
@@ -108,6 +204,11 @@ async function main() {
       logger.warn(`Received ${signal}, shutting down`);
       await subscriptions.stop().catch((error) => logger.error("Failed to stop subscriptions cleanly", { error }));
       reconciler.stop();
+      triggerMirror?.stop();
+      riskWatcher?.stop();
+      await fleet.stopAll();
+      await controlApi?.stop().catch((error) => logger.error("Failed to stop control API cleanly", { error }));
+      await eventStore?.flush();
       await clients.wsTransport.close().catch(() => undefined);
       process.exit(0);
     };
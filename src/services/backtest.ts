@@ -0,0 +1,315 @@
+/**
+ * Historical replay engine for evaluating a leader before allocating.
+ *
+ * Replays a leader's recorded fills and price history through the live `TradeExecutor`, with
+ * a `PaperLedger` as the follower account and the historical prices as mark prices, so the
+ * backtest sizes, filters and orders exactly as the agent would: margin tiers, portfolio
+ * limits, the drift band, flip splitting, margin fitting and the circuit breaker included.
+ *
+ * Produces the follower's equity curve, max drawdown, turnover and fees.
+ */
+
+import type * as hl from "@nktkas/hyperliquid";
+import type { UserFillsEvent } from "@nktkas/hyperliquid/api/subscription";
+import { PaperExchangeClient, PaperInfoClient } from "../clients/paper.js";
+import type { ExecutionConfig, RiskConfig } from "../config/index.js";
+import { FollowerState } from "../domain/followerState.js";
+import { LeaderState } from "../domain/leaderState.js";
+import { PaperLedger, type PaperLedgerOptions, type PaperPnlSummary } from "../domain/paperLedger.js";
+import { logger, type Logger } from "../utils/logger.js";
+import { safeDivide, toFloat } from "../utils/math.js";
+import { MarketMetadataService, type MarkPriceSource } from "./marketMetadata.js";
+import { TradeExecutor } from "./tradeExecutor.js";
+
+/** Placeholder account of the replayed leader */
+const BACKTEST_LEADER = "0x0000000000000000000000000000000000000001";
+/** Placeholder account of the simulated follower */
+const BACKTEST_FOLLOWER = "0x0000000000000000000000000000000000000002";
+
+/**
+ * Every delta is sent at once as an IOC order: there is no recorded order book to check
+ * liquidity against, rest maker orders on or work sliced executions through.
+ */
+const BACKTEST_EXECUTION: ExecutionConfig = {
+  mode: "immediate",
+  sliceThresholdUsd: Number.POSITIVE_INFINITY,
+  sliceNotionalUsd: Number.POSITIVE_INFINITY,
+  sliceIntervalMs: 0,
+  twapMinutes: 0,
+  twapRandomize: false,
+  makerFirst: false,
+  makerTimeoutMs: 0,
+  makerRepriceIntervalMs: 0,
+  makerMaxDriftBps: 0,
+  liquidityGuard: false,
+};
+
+/** Fill as delivered by the `userFills` subscription */
+type LeaderFill = UserFillsEvent["fills"][number];
+
+/**
+ * Leader fill as exported by `userFillsByTime` (extra fields are ignored).
+ */
+export interface HistoricalFill {
+  coin: string;
+  px: string;
+  sz: string;
+  side: "B" | "A";
+  time: number;
+  startPosition: string;
+  /** Realized PnL of this fill, used to evolve leader equity */
+  closedPnl?: string;
+  /** Fee paid by the leader, used to evolve leader equity */
+  fee?: string;
+}
+
+/** Price history per coin as ascending `[timeMs, price]` pairs */
+export type PriceHistory = Record<string, Array<[number, number]>>;
+
+/**
+ * Point on the follower equity curve.
+ */
+export interface EquityPoint {
+  time: number;
+  equityUsd: number;
+}
+
+/**
+ * Summary of a backtest run.
+ */
+export interface BacktestResult {
+  startTime: number;
+  endTime: number;
+  equityCurve: EquityPoint[];
+  /** Final equity relative to starting equity, in percent */
+  totalReturnPct: number;
+  /** Largest peak-to-trough equity decline, in percent */
+  maxDrawdownPct: number;
+  /** Traded notional divided by starting equity */
+  turnover: number;
+  feesUsd: number;
+  volumeUsd: number;
+  /** Leader fills replayed */
+  leaderFills: number;
+  /** Follower orders rejected by the simulated exchange */
+  rejectedOrders: number;
+  pnl: PaperPnlSummary;
+}
+
+/**
+ * Backtest parameters.
+ */
+export interface BacktestOptions {
+  /** Follower risk parameters under test */
+  risk: RiskConfig;
+  /** Assumed leader account value before the first fill */
+  leaderStartingEquityUsd: number;
+  /** Simulated follower account and fill model */
+  follower: PaperLedgerOptions;
+  /** Transport the market metadata (asset ids, size decimals, margin tiers) is loaded over */
+  transport: hl.HttpTransport;
+  /** Optional logger instance */
+  log?: Logger;
+}
+
+/**
+ * Mark price source that steps through recorded price history.
+ */
+export class HistoricalPriceFeed implements MarkPriceSource {
+  private readonly prices = new Map<string, number>();
+  private readonly cursors = new Map<string, number>();
+
+  constructor(private readonly history: PriceHistory) {}
+
+  /**
+   * Moves every coin's price to its latest recorded point at or before `time`.
+   */
+  advanceTo(time: number) {
+    for (const [coin, points] of Object.entries(this.history)) {
+      let cursor = this.cursors.get(coin) ?? 0;
+      while (cursor < points.length && (points[cursor]?.[0] ?? Infinity) <= time) {
+        const point = points[cursor];
+        if (point) {
+          this.prices.set(coin, point[1]);
+        }
+        cursor += 1;
+      }
+      this.cursors.set(coin, cursor);
+    }
+  }
+
+  /**
+   * Overrides a coin's price (e.g., with a fill price observed at this instant).
+   */
+  setPrice(coin: string, price: number) {
+    this.prices.set(coin, price);
+  }
+
+  getMarkPrice(coin: string): number | undefined {
+    return this.prices.get(coin);
+  }
+}
+
+/**
+ * Market metadata loaded from Hyperliquid, with mark prices taken from recorded history
+ * instead of the live API.
+ */
+class HistoricalMarketData extends MarketMetadataService {
+  constructor(infoClient: hl.InfoClient, private readonly feed: HistoricalPriceFeed, log: Logger) {
+    super(infoClient, log);
+  }
+
+  override getMarkPrice(coin: string): number | undefined {
+    return this.feed.getMarkPrice(coin);
+  }
+
+  override async refreshMarkPrices(signal?: AbortSignal) {
+    await this.ensureLoaded(signal);
+  }
+}
+
+/**
+ * Converts a recorded fill to a subscription fill, with neutral values for fields the
+ * export may omit.
+ *
+ * @param fill - Recorded fill
+ * @param tid - Trade id to assign
+ */
+function toLeaderFill(fill: HistoricalFill, tid: number): LeaderFill {
+  return {
+    coin: fill.coin,
+    px: fill.px,
+    sz: fill.sz,
+    side: fill.side,
+    time: fill.time,
+    startPosition: fill.startPosition,
+    dir: "",
+    closedPnl: fill.closedPnl ?? "0",
+    hash: `0x${"0".repeat(64)}`,
+    oid: 0,
+    crossed: true,
+    fee: fill.fee ?? "0",
+    tid,
+    feeToken: "USDC",
+    twapId: null,
+  };
+}
+
+/**
+ * Replays leader fills against a simulated follower.
+ */
+export class BacktestEngine {
+  private readonly log: Logger;
+
+  constructor(private readonly options: BacktestOptions) {
+    this.log = options.log ?? logger;
+  }
+
+  /**
+   * Runs the replay over every fill and price timestamp, syncing the follower at each step
+   * with a `TradeExecutor` whose clock follows the replay.
+   *
+   * @param fills - Leader fills (any order; sorted by time internally)
+   * @param prices - Price history per coin
+   * @returns Equity curve and summary statistics
+   */
+  async run(fills: readonly HistoricalFill[], prices: PriceHistory): Promise<BacktestResult> {
+    const { risk, follower } = this.options;
+    const feed = new HistoricalPriceFeed(prices);
+    const ledger = new PaperLedger(feed, follower);
+    const infoClient = new PaperInfoClient(this.options.transport, new Map([[BACKTEST_FOLLOWER, ledger]]));
+    const metadataService = new HistoricalMarketData(infoClient, feed, this.log);
+    await metadataService.ensureLoaded();
+
+    const leaderState = new LeaderState("backtest leader", this.log);
+    let clockMs = 0;
+    const executor = new TradeExecutor({
+      followerId: "backtest",
+      exchangeClient: new PaperExchangeClient(ledger, metadataService, this.log),
+      infoClient,
+      followerAddress: BACKTEST_FOLLOWER,
+      leaders: [{ address: BACKTEST_LEADER, weight: 1, state: leaderState }],
+      followerState: new FollowerState(this.log),
+      metadataService,
+      risk,
+      execution: BACKTEST_EXECUTION,
+      now: () => clockMs,
+      log: this.log,
+    });
+
+    // Build the timeline from fill times and price points
+    const fillsByTime = new Map<number, LeaderFill[]>();
+    fills.forEach((fill, index) => {
+      const group = fillsByTime.get(fill.time) ?? [];
+      group.push(toLeaderFill(fill, index));
+      fillsByTime.set(fill.time, group);
+    });
+    const times = new Set<number>(fillsByTime.keys());
+    for (const points of Object.values(prices)) {
+      for (const [time] of points) {
+        times.add(time);
+      }
+    }
+    const timeline = Array.from(times).sort((a, b) => a - b);
+
+    let leaderCashUsd = this.options.leaderStartingEquityUsd;
+    let peakEquity = follower.startingEquityUsd;
+    let maxDrawdownPct = 0;
+    const equityCurve: EquityPoint[] = [];
+
+    for (const time of timeline) {
+      clockMs = time;
+      feed.advanceTo(time);
+
+      // Apply leader fills at this instant
+      const fillsNow = fillsByTime.get(time);
+      if (fillsNow) {
+        for (const fill of fillsNow) {
+          feed.setPrice(fill.coin, toFloat(fill.px));
+          leaderCashUsd += toFloat(fill.closedPnl) - toFloat(fill.fee);
+        }
+        leaderState.handleFillEvent({ user: BACKTEST_LEADER, fills: fillsNow });
+      }
+
+      // Derive leader equity from realized cash plus unrealized PnL at current prices
+      let leaderUnrealized = 0;
+      let leaderNotional = 0;
+      for (const position of leaderState.getPositions().values()) {
+        const markPrice = feed.getMarkPrice(position.coin) ?? position.entryPrice;
+        leaderUnrealized += position.size * (markPrice - position.entryPrice);
+        leaderNotional += Math.abs(position.size) * markPrice;
+      }
+      leaderState.setMetrics({
+        accountValueUsd: leaderCashUsd + leaderUnrealized,
+        totalNotionalUsd: leaderNotional,
+        totalMarginUsedUsd: 0,
+        withdrawableUsd: 0,
+        lastUpdatedMs: time,
+      });
+
+      // Sync the follower exactly as the live agent does
+      await executor.syncWithLeader();
+
+      // Record the equity curve and drawdown
+      const equityUsd = ledger.getEquityUsd();
+      equityCurve.push({ time, equityUsd });
+      peakEquity = Math.max(peakEquity, equityUsd);
+      maxDrawdownPct = Math.max(maxDrawdownPct, safeDivide(peakEquity - equityUsd, peakEquity, 0) * 100);
+    }
+
+    const pnl = ledger.getPnlSummary();
+    return {
+      startTime: timeline[0] ?? 0,
+      endTime: timeline[timeline.length - 1] ?? 0,
+      equityCurve,
+      totalReturnPct: safeDivide(pnl.totalPnlUsd, follower.startingEquityUsd, 0) * 100,
+      maxDrawdownPct,
+      turnover: safeDivide(pnl.volumeUsd, follower.startingEquityUsd, 0),
+      feesUsd: pnl.feesUsd,
+      volumeUsd: pnl.volumeUsd,
+      leaderFills: fills.length,
+      rejectedOrders: pnl.rejectedOrders,
+      pnl,
+    };
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * HTTP control API for operating the running agent.
+ *
+ * Endpoints (all require `Authorization: Bearer <CONTROL_API_TOKEN>`):
+ * - `GET  /status`    Leader/follower positions and metrics, last sync time and last error
+ * - `POST /pause`     Stop placing orders (all followers, or `?follower=<id>`)
+ * - `POST /resume`    Resume placing orders (all followers, or `?follower=<id>`)
+ * - `POST /sync`      Run `syncWithLeader` immediately (all followers, or `?follower=<id>`)
+ * - `POST /reconcile` Run `reconcileOnce` immediately
+ * - `POST /risk-guard/reset` Clear a tripped circuit breaker (all followers, or `?follower=<id>`)
+ * - `GET  /config`    Effective configuration with secrets redacted
+ * - `GET  /metrics`   Prometheus metrics in the text exposition format
+ *
+ * Responses other than `/metrics` are JSON. The server binds to localhost unless configured otherwise.
+ */
+
+import { timingSafeEqual } from "node:crypto";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import { redactConfig, type CopyTradingConfig } from "../config/index.js";
+import type { WeightedLeader } from "../domain/leaderState.js";
+import type { PaperLedger } from "../domain/paperLedger.js";
+import type { TraderStateStore } from "../domain/traderState.js";
+import { logger, type Logger } from "../utils/logger.js";
+import { METRICS_CONTENT_TYPE, registry } from "../utils/metrics.js";
+import type { FollowerFleet, FollowerRuntime } from "./followerFleet.js";
+import type { Reconciler } from "./reconciler.js";
+
+/**
+ * Dependencies required by the control API.
+ */
+export interface ControlApiDeps {
+  /** Effective configuration (must include `controlApi`) */
+  config: CopyTradingConfig;
+  /** Followers to report on and control */
+  fleet: FollowerFleet;
+  /** Weighted leaders to report on */
+  leaders: readonly WeightedLeader[];
+  /** Reconciler triggered by `POST /reconcile` */
+  reconciler: Reconciler;
+  /** Paper ledgers by follower id, reported in paper trading mode */
+  paperLedgers?: ReadonlyMap<string, PaperLedger>;
+  /** Optional logger instance */
+  log?: Logger;
+}
+
+/**
+ * Error carrying the HTTP status to respond with.
+ */
+class HttpError extends Error {
+  constructor(readonly statusCode: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Serializes a trader state store's metrics and open positions.
+ */
+function describeState(state: TraderStateStore) {
+  return {
+    metrics: state.getMetrics(),
+    positions: Array.from(state.getPositions().values()),
+  };
+}
+
+/**
+ * Small `node:http` server exposing status and control endpoints.
+ */
+export class ControlApiServer {
+  private server: Server | null = null;
+  private readonly log: Logger;
+  private readonly token: Buffer;
+
+  constructor(private readonly deps: ControlApiDeps) {
+    if (!deps.config.controlApi) {
+      throw new Error("Control API is not configured");
+    }
+    this.log = deps.log ?? logger;
+    this.token = Buffer.from(deps.config.controlApi.token, "utf8");
+  }
+
+  /**
+   * Starts listening on the configured host and port.
+   */
+  async start() {
+    if (this.server) {
+      return;
+    }
+    const { host, port } = this.deps.config.controlApi!;
+    const server = createServer((req, res) => {
+      void this.handle(req, res);
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, host, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+    this.server = server;
+    this.log.info("Control API listening", { host, port });
+  }
+
+  /**
+   * Stops accepting connections and closes the server.
+   */
+  async stop() {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = null;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * Authenticates, routes and responds to a single request.
+   */
+  private async handle(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    try {
+      if (!this.isAuthorized(req)) {
+        throw new HttpError(401, "Unauthorized");
+      }
+      if (req.method === "GET" && url.pathname === "/metrics") {
+        res.writeHead(200, { "Content-Type": METRICS_CONTENT_TYPE });
+        res.end(registry.render());
+        return;
+      }
+      const body = await this.route(req.method ?? "GET", url);
+      this.respond(res, 200, body);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        this.respond(res, error.statusCode, { error: error.message });
+        return;
+      }
+      this.log.error("Control API request failed", { method: req.method, path: url.pathname, error });
+      this.respond(res, 500, { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  private async route(method: string, url: URL): Promise<unknown> {
+    const route = `${method} ${url.pathname}`;
+    switch (route) {
+      case "GET /status":
+        return this.getStatus();
+      case "GET /config":
+        return this.getEffectiveConfig();
+      case "POST /pause":
+        for (const follower of this.selectFollowers(url)) {
+          follower.executor.pause();
+        }
+        return this.getFollowerStatuses();
+      case "POST /resume":
+        for (const follower of this.selectFollowers(url)) {
+          follower.executor.resume();
+        }
+        return this.getFollowerStatuses();
+      case "POST /sync": {
+        const followers = this.selectFollowers(url);
+        const paused = followers.filter((follower) => follower.executor.getStatus().paused);
+        if (paused.length === followers.length) {
+          throw new HttpError(409, "Trading is paused");
+        }
+        await Promise.all(followers.map((follower) => follower.executor.syncWithLeader()));
+        return this.getFollowerStatuses();
+      }
+      case "POST /risk-guard/reset":
+        for (const follower of this.selectFollowers(url)) {
+          follower.executor.resetRiskGuard();
+        }
+        return this.getFollowerStatuses();
+      case "POST /reconcile":
+        await this.deps.reconciler.reconcileOnce();
+        return this.getStatus();
+      default:
+        throw new HttpError(404, `No route for ${route}`);
+    }
+  }
+
+  /**
+   * Returns the follower named by `?follower=`, or every follower if absent.
+   */
+  private selectFollowers(url: URL): readonly FollowerRuntime[] {
+    const id = url.searchParams.get("follower");
+    if (!id) {
+      return this.deps.fleet.list();
+    }
+    const follower = this.deps.fleet.get(id);
+    if (!follower) {
+      throw new HttpError(404, `Unknown follower ${id}`);
+    }
+    return [follower];
+  }
+
+  private getStatus() {
+    return {
+      leaders: this.deps.leaders.map((leader) => ({
+        address: leader.address,
+        weight: leader.weight,
+        ...describeState(leader.state),
+      })),
+      followers: this.deps.fleet.list().map((follower) => {
+        const ledger = this.deps.paperLedgers?.get(follower.id);
+        return {
+          id: follower.id,
+          address: follower.address,
+          ...follower.executor.getStatus(),
+          ...describeState(follower.state),
+          ...(ledger ? { paperPnl: ledger.getPnlSummary() } : {}),
+        };
+      }),
+    };
+  }
+
+  /**
+   * Returns the redacted configuration with each follower's risk as currently applied
+   * (which may differ from startup after a risk config reload).
+   */
+  private getEffectiveConfig() {
+    const config = redactConfig(this.deps.config);
+    return {
+      ...config,
+      followers: config.followers.map((follower) => ({
+        ...follower,
+        risk: this.deps.fleet.get(follower.id)?.executor.getRisk() ?? follower.risk,
+      })),
+    };
+  }
+
+  private getFollowerStatuses() {
+    return {
+      followers: this.deps.fleet.list().map((follower) => ({
+        id: follower.id,
+        ...follower.executor.getStatus(),
+      })),
+    };
+  }
+
+  /**
+   * Checks the bearer token in constant time.
+   */
+  private isAuthorized(req: IncomingMessage): boolean {
+    const header = req.headers.authorization ?? "";
+    const match = /^Bearer\s+(.+)$/i.exec(header);
+    if (!match?.[1]) {
+      return false;
+    }
+    const provided = Buffer.from(match[1], "utf8");
+    return provided.length === this.token.length && timingSafeEqual(provided, this.token);
+  }
+
+  private respond(res: ServerResponse, statusCode: number, body: unknown) {
+    res.writeHead(statusCode, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+}
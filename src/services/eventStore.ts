@@ -0,0 +1,230 @@
+/**
+ * Persistent event store backed by an append-only JSONL file.
+ *
+ * Records:
+ * - Every live leader fill received over WebSocket (not the snapshot sent on connect)
+ * - Every follower order batch with its per-order exchange status
+ * - Each stage of a follower position flip
+ * - Each follower's circuit breaker state whenever it changes, restored on startup
+ * - Leader/follower account snapshots taken on each reconciliation
+ *
+ * Each event is one JSON line, so the file survives restarts, can be tailed or
+ * shipped elsewhere, and is read back through `query()` by other modules.
+ */
+
+import { createReadStream } from "node:fs";
+import { appendFile, mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+import { createInterface } from "node:readline";
+import { logger, type Logger } from "../utils/logger.js";
+import type { RiskGuardState } from "../domain/riskGuard.js";
+import type { AccountMetrics, PositionSnapshot } from "../domain/types.js";
+
+/**
+ * Leader fill as received from the `userFills` subscription.
+ */
+export interface LeaderFillEvent {
+  type: "leaderFill";
+  /** Leader address */
+  account: `0x${string}`;
+  coin: string;
+  px: string;
+  sz: string;
+  side: "B" | "A";
+  startPosition: string;
+  /** Exchange fill time in milliseconds */
+  fillTime: number;
+}
+
+/**
+ * Outcome of a single order within a submitted batch.
+ */
+export interface StoredOrderStatus {
+  /** Asset ID */
+  asset: number;
+  isBuy: boolean;
+  price: string;
+  size: string;
+  reduceOnly: boolean;
+  /** Exchange status for this order ("filled", "resting", "error", or "unknown" if the batch failed) */
+  status: "filled" | "resting" | "error" | "unknown";
+  /** Exchange order ID, when assigned */
+  oid?: number;
+  /** Filled size, for filled orders */
+  totalSz?: string;
+  /** Average fill price, for filled orders */
+  avgPx?: string;
+  /** Error message, for rejected orders */
+  error?: string;
+}
+
+/**
+ * Follower order batch submitted via `exchangeClient.order`.
+ */
+export interface OrderBatchEvent {
+  type: "orderBatch";
+  /** Follower trading address */
+  account: `0x${string}`;
+  orders: StoredOrderStatus[];
+  /** Batch-level error if the request itself failed */
+  error?: string;
+}
+
+/**
+ * Stage of a follower position flip, which is executed as a close followed by an open.
+ */
+export interface FlipEvent {
+  type: "flip";
+  /** Follower trading address */
+  account: `0x${string}`;
+  coin: string;
+  /**
+   * "close" once the old side's reduce-only IOC close was sent and not rejected (closes worked
+   * by the scheduler are not recorded), "open" when the follower was confirmed flat and the
+   * new side is sent, "openDeferred" when the close left a position
+   */
+  stage: "close" | "open" | "openDeferred";
+  /** Follower position size before this stage (signed) */
+  fromSize: number;
+  /** Target size of the new side (signed) */
+  toSize: number;
+}
+
+/**
+ * Point-in-time account metrics and positions for a leader or follower.
+ */
+export interface AccountSnapshotEvent {
+  type: "accountSnapshot";
+  role: "leader" | "follower";
+  account: `0x${string}`;
+  metrics: AccountMetrics;
+  positions: PositionSnapshot[];
+}
+
+/**
+ * Follower circuit breaker state after a trip, reset, new trading day or new equity high.
+ */
+export interface RiskGuardStateEvent {
+  type: "riskGuardState";
+  /** Follower trading address */
+  account: `0x${string}`;
+  state: RiskGuardState;
+}
+
+/** Any event payload that can be recorded */
+export type EventPayload = LeaderFillEvent | OrderBatchEvent | FlipEvent | AccountSnapshotEvent | RiskGuardStateEvent;
+
+/** Recorded event with store-assigned timestamp */
+export type StoredEvent = EventPayload & {
+  /** Time the event was recorded in milliseconds */
+  time: number;
+};
+
+/**
+ * Filter for reading events back from the store.
+ */
+export interface EventQuery {
+  /** Only return events of these types */
+  types?: EventPayload["type"][];
+  /** Only return events for this account (case-insensitive) */
+  account?: string;
+  /** Only return events recorded at or after this time (ms) */
+  since?: number;
+  /** Only return events recorded at or before this time (ms) */
+  until?: number;
+  /** Return at most this many of the most recent matching events */
+  limit?: number;
+}
+
+/**
+ * Appends events to a JSONL file and reads them back with simple filters.
+ */
+export class EventStore {
+  private writeChain: Promise<void> = Promise.resolve();
+  private dirReady: Promise<string | undefined> | null = null;
+
+  /**
+   * @param filePath - Path of the JSONL file (created with parent directories if missing)
+   * @param log - Logger instance
+   */
+  constructor(private readonly filePath: string, private readonly log: Logger = logger) {}
+
+  /**
+   * Records an event. Writes are serialized so lines never interleave;
+   * failures are logged and never thrown into the trading path.
+   */
+  record(event: EventPayload) {
+    const line = `${JSON.stringify({ time: Date.now(), ...event })}\n`;
+    this.writeChain = this.writeChain
+      .then(async () => {
+        this.dirReady ??= mkdir(dirname(this.filePath), { recursive: true });
+        await this.dirReady;
+        await appendFile(this.filePath, line, "utf8");
+      })
+      .catch((error) => {
+        this.log.error("Failed to write event to store", { type: event.type, error });
+      });
+  }
+
+  /**
+   * Waits until all recorded events have been written.
+   */
+  async flush() {
+    await this.writeChain;
+  }
+
+  /**
+   * Reads events matching the filter, oldest first.
+   * Pending writes are flushed first so callers see their own events.
+   *
+   * @param filter - Optional type, account and time filters
+   * @returns Matching events (the most recent `limit` if set)
+   */
+  async query(filter: EventQuery = {}): Promise<StoredEvent[]> {
+    await this.flush();
+
+    const account = filter.account?.toLowerCase();
+    const matches: StoredEvent[] = [];
+    const stream = createReadStream(this.filePath, { encoding: "utf8" });
+    const lines = createInterface({ input: stream, crlfDelay: Infinity });
+
+    try {
+      for await (const line of lines) {
+        if (!line.trim()) {
+          continue;
+        }
+        let event: StoredEvent;
+        try {
+          event = JSON.parse(line) as StoredEvent;
+        } catch {
+          this.log.warn("Skipping malformed event store line");
+          continue;
+        }
+        if (filter.types && !filter.types.includes(event.type)) {
+          continue;
+        }
+        if (account && event.account.toLowerCase() !== account) {
+          continue;
+        }
+        if (filter.since !== undefined && event.time < filter.since) {
+          continue;
+        }
+        if (filter.until !== undefined && event.time > filter.until) {
+          continue;
+        }
+        matches.push(event);
+        if (filter.limit !== undefined && matches.length > filter.limit) {
+          matches.shift();
+        }
+      }
+    } catch (error) {
+      // A store that has not been written yet simply has no events
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    return matches;
+  }
+}
@@ -0,0 +1,558 @@
+/**
+ * Execution of large follower deltas over time.
+ *
+ * Deltas whose notional reaches `sliceThresholdUsd` are handed to the scheduler instead of
+ * being sent as one IOC order. In `sliced` mode it sends IOC child orders of about
+ * `sliceNotionalUsd` every `sliceIntervalMs`, adding up the filled size of each child; in
+ * `twap` mode it places one Hyperliquid native TWAP order and measures progress from the
+ * follower's position. At most one execution runs per coin.
+ *
+ * With `makerFirst`, other non-urgent deltas run in `maker` mode: a post-only (`Alo`) order
+ * rests at the touch and is re-priced as the book moves. Once `makerTimeoutMs` passes or
+ * the touch drifts `makerMaxDriftBps` away from where it started, the resting order is
+ * cancelled and the remainder is sent as IOC.
+ *
+ * Every executor sync passes its fresh deltas through `reconcile()`, which keeps the
+ * remaining size in line with the latest target, finishes executions whose target has
+ * been reached, and cancels the remainder when the leader reverses mid-execution.
+ */
+
+import type { ExecutionConfig } from "../config/index.js";
+import type { PositionDelta } from "../domain/followerState.js";
+import { logger, type Logger } from "../utils/logger.js";
+
+/** Child orders in a row without any fill before a sliced execution is abandoned */
+const MAX_EMPTY_CHILDREN = 3;
+/** Extra time after a native TWAP's duration before it is considered finished */
+const TWAP_GRACE_MS = 30_000;
+
+/** How a scheduled execution works its delta */
+export type ScheduledMode = "sliced" | "twap" | "maker";
+
+/**
+ * Best bid and ask prices of a coin's order book.
+ */
+export interface BookTouch {
+  bid: string;
+  ask: string;
+}
+
+/**
+ * Fill state of a resting order.
+ */
+export interface RestingOrderFill {
+  /** Absolute size filled since the order was placed */
+  filledSize: number;
+  /** Whether the order is still resting */
+  open: boolean;
+}
+
+/**
+ * Returns true if an order error is a post-only order rejected for crossing the book.
+ */
+function isPostOnlyCross(error: string): boolean {
+  return error.toLowerCase().includes("post only");
+}
+
+/**
+ * Order placement used by the scheduler, implemented by the trade executor.
+ */
+export interface ExecutionVenue {
+  /** Sends one IOC child order for `delta` and returns the absolute filled size */
+  placeSlice(delta: PositionDelta): Promise<number>;
+  /** Places a native TWAP order for `delta` and returns its TWAP id */
+  placeTwap(delta: PositionDelta, minutes: number, randomize: boolean): Promise<number>;
+  /** Cancels a running native TWAP order */
+  cancelTwap(coin: string, twapId: number): Promise<void>;
+  /** Current mark price of a coin */
+  getMarkPrice(coin: string): number | undefined;
+  /** Fetches the best bid and ask, undefined if either side is empty */
+  getTouch(coin: string): Promise<BookTouch | undefined>;
+  /** Posts an `Alo` order for `delta` at `price`, returning its oid or the exchange error */
+  postMaker(delta: PositionDelta, price: string): Promise<{ oid: number } | { error: string }>;
+  /** Reads how much of a resting order has filled */
+  getOrderFill(oid: number): Promise<RestingOrderFill>;
+  /** Cancels a resting order */
+  cancelOrder(coin: string, oid: number): Promise<void>;
+}
+
+/**
+ * Progress of one execution, as reported in executor status.
+ */
+export interface ExecutionSummary {
+  /** Trading pair */
+  coin: string;
+  /** How the delta is being worked */
+  mode: ScheduledMode;
+  /** Order side */
+  isBuy: boolean;
+  /** Absolute size the execution set out to trade */
+  totalSize: number;
+  /** Absolute size filled so far */
+  filledSize: number;
+  /** Absolute size still to trade */
+  remainingSize: number;
+  /** Child orders sent (sliced mode) or post-only orders placed (maker mode) so far */
+  childOrders: number;
+  /** Native TWAP id (twap mode) */
+  twapId?: number;
+  /** Oid of the resting post-only order (maker mode) */
+  restingOid?: number;
+  /** Price of the resting post-only order (maker mode) */
+  restingPrice?: string;
+  /** Start time in milliseconds */
+  startedAtMs: number;
+}
+
+/**
+ * Mutable state of a running execution.
+ */
+interface ActiveExecution extends ExecutionSummary {
+  /** Latest parent delta; child orders are built from it */
+  delta: PositionDelta;
+  /** Follower position size when the execution started */
+  startSize: number;
+  /** Child orders in a row that filled nothing */
+  emptyChildren: number;
+  /** Touch price when the first maker order was placed; drift is measured from it */
+  referencePrice?: number;
+  /** Size of the resting maker order */
+  restingSize: number;
+  /** Filled size of the resting maker order already counted in `filledSize` */
+  restingFilled: number;
+  timer: NodeJS.Timeout | null;
+  inFlight: Promise<void> | null;
+}
+
+/**
+ * Schedules and tracks sliced or TWAP executions for one follower, keyed by coin.
+ */
+export class ExecutionScheduler {
+  private readonly active = new Map<string, ActiveExecution>();
+
+  /**
+   * @param config - Execution settings
+   * @param venue - Order placement
+   * @param minOrderNotionalUsd - Remainders below this notional are not worth another order
+   * @param log - Logger instance
+   * @param now - Clock in milliseconds for start times, maker timeouts and TWAP durations
+   */
+  constructor(
+    private readonly config: ExecutionConfig,
+    private readonly venue: ExecutionVenue,
+    private readonly minOrderNotionalUsd: number,
+    private readonly log: Logger = logger,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  /**
+   * Chooses how a delta should be executed.
+   *
+   * @param notionalUsd - Absolute delta notional
+   * @param urgent - Urgent deltas (closes, flips, circuit breaker) never wait as maker orders
+   * @returns Scheduled mode, or null to send a single IOC order now
+   */
+  selectMode(notionalUsd: number, urgent: boolean): ScheduledMode | null {
+    if (this.config.mode !== "immediate" && notionalUsd >= this.config.sliceThresholdUsd) {
+      return this.config.mode;
+    }
+    return this.config.makerFirst && !urgent ? "maker" : null;
+  }
+
+  /**
+   * Returns true if an execution is running for the coin.
+   */
+  has(coin: string): boolean {
+    return this.active.has(coin);
+  }
+
+  /**
+   * Returns the progress of every running execution.
+   */
+  list(): ExecutionSummary[] {
+    return Array.from(this.active.values(), (execution) => ({
+      coin: execution.coin,
+      mode: execution.mode,
+      isBuy: execution.isBuy,
+      totalSize: execution.totalSize,
+      filledSize: execution.filledSize,
+      remainingSize: execution.remainingSize,
+      childOrders: execution.childOrders,
+      ...(execution.twapId !== undefined ? { twapId: execution.twapId } : {}),
+      ...(execution.restingOid !== undefined ? { restingOid: execution.restingOid } : {}),
+      ...(execution.restingPrice !== undefined ? { restingPrice: execution.restingPrice } : {}),
+      startedAtMs: execution.startedAtMs,
+    }));
+  }
+
+  /**
+   * Updates running executions from a sync's fresh deltas.
+   *
+   * - Target reached (no delta left for the coin): the execution finishes
+   * - Delta in the opposite direction (leader reversed): the remainder is cancelled
+   *   and the delta is returned for normal handling
+   * - Delta in the same direction: the remaining size follows it and the delta is withheld.
+   *   Maker executions only shrink: their fills land continuously, so a fresh delta may
+   *   already include fills that were counted from the resting order.
+   *
+   * @param deltas - Actionable deltas from the current sync
+   * @returns Deltas for coins without a running execution
+   */
+  async reconcile(deltas: PositionDelta[]): Promise<PositionDelta[]> {
+    const byCoin = new Map(deltas.map((delta) => [delta.coin, delta]));
+    for (const execution of Array.from(this.active.values())) {
+      const delta = byCoin.get(execution.coin);
+      if (!delta) {
+        // Let an in-flight step settle first so it cannot leave an order behind
+        this.stop(execution);
+        await execution.inFlight;
+        await this.finish(execution, "target reached");
+        continue;
+      }
+      if (delta.deltaSize > 0 !== execution.isBuy) {
+        await this.cancel(execution.coin, "leader reversed");
+        continue;
+      }
+      byCoin.delete(execution.coin);
+      execution.delta = delta;
+      if (execution.mode === "twap") {
+        this.updateTwapProgress(execution, delta);
+      } else if (execution.mode === "maker") {
+        execution.remainingSize = Math.min(execution.remainingSize, Math.abs(delta.deltaSize));
+      } else if (!execution.inFlight) {
+        // Follower state was just refreshed, so the delta already accounts for filled children
+        execution.remainingSize = Math.abs(delta.deltaSize);
+        execution.totalSize = execution.filledSize + execution.remainingSize;
+      }
+    }
+    return deltas.filter((delta) => byCoin.has(delta.coin));
+  }
+
+  /**
+   * Starts executing a delta over time. The first child order (or the TWAP order) is
+   * placed before this resolves; later child orders follow on a timer.
+   */
+  async start(delta: PositionDelta, mode: ScheduledMode) {
+    if (this.active.has(delta.coin)) {
+      return;
+    }
+    const size = Math.abs(delta.deltaSize);
+    const execution: ActiveExecution = {
+      coin: delta.coin,
+      mode,
+      isBuy: delta.deltaSize > 0,
+      totalSize: size,
+      filledSize: 0,
+      remainingSize: size,
+      childOrders: 0,
+      startedAtMs: this.now(),
+      delta,
+      startSize: delta.current?.size ?? 0,
+      emptyChildren: 0,
+      restingSize: 0,
+      restingFilled: 0,
+      timer: null,
+      inFlight: null,
+    };
+    this.active.set(delta.coin, execution);
+    this.log.info("Starting scheduled execution", {
+      coin: delta.coin,
+      mode,
+      side: execution.isBuy ? "buy" : "sell",
+      size,
+    });
+
+    if (mode === "twap") {
+      await this.startTwap(execution);
+    } else if (mode === "maker") {
+      await this.runMaker(execution);
+    } else {
+      await this.runChild(execution);
+    }
+  }
+
+  /**
+   * Stops an execution, cancelling a running native TWAP or resting maker order.
+   * Filled child orders are kept.
+   */
+  async cancel(coin: string, reason: string) {
+    const execution = this.active.get(coin);
+    if (!execution) {
+      return;
+    }
+    this.stop(execution);
+    await execution.inFlight;
+    await this.cancelResting(execution);
+    if (execution.twapId !== undefined) {
+      try {
+        await this.venue.cancelTwap(coin, execution.twapId);
+      } catch (error) {
+        this.log.warn("Failed to cancel TWAP order", {
+          coin,
+          twapId: execution.twapId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    this.log.warn("Cancelled scheduled execution", { coin, reason, ...this.progress(execution) });
+  }
+
+  /**
+   * Cancels every running execution (e.g. on pause or shutdown).
+   */
+  async cancelAll(reason: string) {
+    await Promise.all(Array.from(this.active.keys(), (coin) => this.cancel(coin, reason)));
+  }
+
+  private async startTwap(execution: ActiveExecution) {
+    try {
+      execution.twapId = await this.venue.placeTwap(execution.delta, this.config.twapMinutes, this.config.twapRandomize);
+      this.log.info("Placed TWAP order", { coin: execution.coin, twapId: execution.twapId, minutes: this.config.twapMinutes });
+    } catch (error) {
+      // Fall back to child orders, e.g. when the venue does not support TWAP orders
+      this.log.warn("TWAP order failed, slicing instead", {
+        coin: execution.coin,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      execution.mode = "sliced";
+      await this.runChild(execution);
+    }
+  }
+
+  /**
+   * Sends the next child order and schedules the one after it.
+   */
+  private async runChild(execution: ActiveExecution) {
+    if (this.active.get(execution.coin) !== execution) {
+      return;
+    }
+    const markPrice = this.venue.getMarkPrice(execution.coin);
+    if (!markPrice || markPrice <= 0 || execution.remainingSize * markPrice < this.minOrderNotionalUsd) {
+      await this.finish(execution, "remaining size below minimum order");
+      return;
+    }
+
+    // Send the final child for the whole remainder rather than leaving an untradeable sliver
+    let childSize = Math.min(execution.remainingSize, this.config.sliceNotionalUsd / markPrice);
+    if ((execution.remainingSize - childSize) * markPrice < this.minOrderNotionalUsd) {
+      childSize = execution.remainingSize;
+    }
+    const sign = execution.isBuy ? 1 : -1;
+    const child: PositionDelta = { ...execution.delta, deltaSize: sign * childSize };
+
+    execution.inFlight = (async () => {
+      const filled = await this.venue.placeSlice(child).catch((error: unknown) => {
+        this.log.warn("Child order failed", {
+          coin: execution.coin,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return 0;
+      });
+      execution.childOrders += 1;
+      execution.filledSize += filled;
+      execution.remainingSize = Math.max(0, execution.remainingSize - filled);
+      execution.emptyChildren = filled > 0 ? 0 : execution.emptyChildren + 1;
+      this.log.info("Scheduled execution progress", { coin: execution.coin, ...this.progress(execution) });
+    })();
+    await execution.inFlight;
+    execution.inFlight = null;
+
+    if (this.active.get(execution.coin) !== execution) {
+      return;
+    }
+    if (execution.emptyChildren >= MAX_EMPTY_CHILDREN) {
+      this.stop(execution);
+      this.log.warn("Abandoned scheduled execution after child orders stopped filling", {
+        coin: execution.coin,
+        ...this.progress(execution),
+      });
+      return;
+    }
+    execution.timer = setTimeout(() => void this.runChild(execution), this.config.sliceIntervalMs);
+  }
+
+  /**
+   * Runs one maker step and schedules the next while the execution is active.
+   */
+  private async runMaker(execution: ActiveExecution) {
+    if (this.active.get(execution.coin) !== execution) {
+      return;
+    }
+    execution.inFlight = this.makerStep(execution).catch((error: unknown) => {
+      this.log.warn("Maker execution step failed", {
+        coin: execution.coin,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+    await execution.inFlight;
+    execution.inFlight = null;
+
+    if (this.active.get(execution.coin) === execution) {
+      execution.timer = setTimeout(() => void this.runMaker(execution), this.config.makerRepriceIntervalMs);
+    }
+  }
+
+  /**
+   * Counts new fills of the resting order, then either keeps it, re-posts it at the
+   * current touch, or gives up on resting and sends the remainder as IOC.
+   */
+  private async makerStep(execution: ActiveExecution) {
+    await this.syncRestingFill(execution);
+    const markPrice = this.venue.getMarkPrice(execution.coin) ?? 0;
+    if (execution.remainingSize * markPrice < this.minOrderNotionalUsd) {
+      await this.finish(execution, "maker order filled");
+      return;
+    }
+
+    const touch = await this.venue.getTouch(execution.coin);
+    if (!touch) {
+      await this.takeRemainder(execution, "empty order book");
+      return;
+    }
+    const touchPrice = execution.isBuy ? touch.bid : touch.ask;
+    execution.referencePrice ??= Number(touchPrice);
+    const adverseMove = (Number(touchPrice) - execution.referencePrice) * (execution.isBuy ? 1 : -1);
+    const driftBps = (adverseMove / execution.referencePrice) * 10_000;
+    if (this.now() - execution.startedAtMs >= this.config.makerTimeoutMs) {
+      await this.takeRemainder(execution, "timeout");
+      return;
+    }
+    if (driftBps >= this.config.makerMaxDriftBps) {
+      await this.takeRemainder(execution, "price drift");
+      return;
+    }
+
+    // Keep the resting order if it is still at the touch and sized for the remainder
+    const restingOpenSize = execution.restingSize - execution.restingFilled;
+    if (
+      execution.restingOid !== undefined &&
+      execution.restingPrice === touchPrice &&
+      Math.abs(restingOpenSize - execution.remainingSize) * markPrice < this.minOrderNotionalUsd
+    ) {
+      return;
+    }
+    await this.cancelResting(execution);
+    if (this.active.get(execution.coin) !== execution) {
+      return;
+    }
+
+    const sign = execution.isBuy ? 1 : -1;
+    const result = await this.venue.postMaker({ ...execution.delta, deltaSize: sign * execution.remainingSize }, touchPrice);
+    if ("oid" in result) {
+      execution.restingOid = result.oid;
+      execution.restingPrice = touchPrice;
+      execution.restingSize = execution.remainingSize;
+      execution.restingFilled = 0;
+      execution.childOrders += 1;
+      this.log.debug("Posted maker order", { coin: execution.coin, oid: result.oid, price: touchPrice });
+    } else if (!isPostOnlyCross(result.error)) {
+      // Crossing the book is retried at the next touch; anything else will not go away by waiting
+      await this.takeRemainder(execution, "maker order rejected");
+    }
+  }
+
+  /**
+   * Cancels the resting maker order and sends the remaining size as one IOC order.
+   */
+  private async takeRemainder(execution: ActiveExecution, reason: string) {
+    await this.cancelResting(execution);
+    const markPrice = this.venue.getMarkPrice(execution.coin) ?? 0;
+    if (execution.remainingSize * markPrice >= this.minOrderNotionalUsd) {
+      const sign = execution.isBuy ? 1 : -1;
+      const filled = await this.venue
+        .placeSlice({ ...execution.delta, deltaSize: sign * execution.remainingSize })
+        .catch(() => 0);
+      execution.filledSize += filled;
+      execution.remainingSize = Math.max(0, execution.remainingSize - filled);
+    }
+    this.stop(execution);
+    this.log.info("Maker execution fell back to IOC", { coin: execution.coin, reason, ...this.progress(execution) });
+  }
+
+  /**
+   * Adds fills of the resting maker order since the last check to the execution.
+   */
+  private async syncRestingFill(execution: ActiveExecution) {
+    if (execution.restingOid === undefined) {
+      return;
+    }
+    const fill = await this.venue.getOrderFill(execution.restingOid);
+    const newlyFilled = Math.max(0, fill.filledSize - execution.restingFilled);
+    execution.restingFilled = fill.filledSize;
+    execution.filledSize += newlyFilled;
+    execution.remainingSize = Math.max(0, execution.remainingSize - newlyFilled);
+    if (!fill.open) {
+      delete execution.restingOid;
+      delete execution.restingPrice;
+    }
+  }
+
+  /**
+   * Cancels the resting maker order, if any, and counts fills that landed before the cancel.
+   */
+  private async cancelResting(execution: ActiveExecution) {
+    const oid = execution.restingOid;
+    if (oid === undefined) {
+      return;
+    }
+    try {
+      await this.venue.cancelOrder(execution.coin, oid);
+    } catch (error) {
+      // Usually already filled or cancelled; the fill check below settles it
+      this.log.debug("Cancel of maker order failed", {
+        coin: execution.coin,
+        oid,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    await this.syncRestingFill(execution).catch(() => undefined);
+    delete execution.restingOid;
+    delete execution.restingPrice;
+  }
+
+  /**
+   * Derives a native TWAP's progress from how far the follower position has moved
+   * since it started, and drops the execution once its duration has elapsed.
+   */
+  private updateTwapProgress(execution: ActiveExecution, delta: PositionDelta) {
+    const moved = Math.abs((delta.current?.size ?? 0) - execution.startSize);
+    execution.filledSize = Math.min(execution.totalSize, moved);
+    execution.remainingSize = execution.totalSize - execution.filledSize;
+
+    const endMs = execution.startedAtMs + this.config.twapMinutes * 60_000 + TWAP_GRACE_MS;
+    if (this.now() >= endMs) {
+      this.stop(execution);
+      this.log.info("TWAP order finished", { coin: execution.coin, ...this.progress(execution) });
+    }
+  }
+
+  private async finish(execution: ActiveExecution, reason: string) {
+    this.stop(execution);
+    await this.cancelResting(execution);
+    if (execution.twapId !== undefined) {
+      // The target no longer needs the rest of the TWAP
+      await this.venue.cancelTwap(execution.coin, execution.twapId).catch(() => undefined);
+    }
+    this.log.info("Scheduled execution complete", { coin: execution.coin, reason, ...this.progress(execution) });
+  }
+
+  private stop(execution: ActiveExecution) {
+    if (execution.timer) {
+      clearTimeout(execution.timer);
+      execution.timer = null;
+    }
+    if (this.active.get(execution.coin) === execution) {
+      this.active.delete(execution.coin);
+    }
+  }
+
+  private progress(execution: ActiveExecution) {
+    return {
+      mode: execution.mode,
+      totalSize: execution.totalSize,
+      filledSize: execution.filledSize,
+      remainingSize: execution.remainingSize,
+      childOrders: execution.childOrders,
+    };
+  }
+}
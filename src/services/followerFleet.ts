@@ -0,0 +1,75 @@
+/**
+ * Fan-out of shared leader state to multiple follower accounts.
+ *
+ * One set of leader subscriptions and one market metadata service drive several
+ * follower state/executor pairs, each with its own signer, vault and risk limits.
+ * A leader fill triggers every follower sync concurrently.
+ */
+
+import { logger, type Logger } from "../utils/logger.js";
+import type { FollowerState } from "../domain/followerState.js";
+import type { TradeExecutor } from "./tradeExecutor.js";
+
+/**
+ * A follower account wired to its own state store and trade executor.
+ */
+export interface FollowerRuntime {
+  /** Follower identifier from configuration */
+  id: string;
+  /** Follower trading address (wallet or vault) */
+  address: `0x${string}`;
+  /** Follower state store */
+  state: FollowerState;
+  /** Executor that syncs this follower with the leaders */
+  executor: TradeExecutor;
+}
+
+/**
+ * Holds all follower runtimes and syncs them together.
+ */
+export class FollowerFleet {
+  constructor(
+    private readonly followers: readonly FollowerRuntime[],
+    private readonly log: Logger = logger,
+  ) {}
+
+  /**
+   * Returns all followers in configuration order.
+   */
+  list(): readonly FollowerRuntime[] {
+    return this.followers;
+  }
+
+  /**
+   * Gets a follower by id, returning undefined if not found.
+   */
+  get(id: string): FollowerRuntime | undefined {
+    return this.followers.find((follower) => follower.id === id);
+  }
+
+  /**
+   * Stops every executor, cancelling sliced or TWAP executions in progress.
+   * A failure in one follower is logged and does not affect the others.
+   */
+  async stopAll() {
+    const results = await Promise.allSettled(this.followers.map((follower) => follower.executor.stop()));
+    results.forEach((result, index) => {
+      if (result.status === "rejected") {
+        this.log.error("Failed to stop follower executor", { follower: this.followers[index]?.id, error: result.reason });
+      }
+    });
+  }
+
+  /**
+   * Syncs every follower with the leaders concurrently.
+   * A failure in one follower is logged and does not affect the others.
+   */
+  async syncAll() {
+    const results = await Promise.allSettled(this.followers.map((follower) => follower.executor.syncWithLeader()));
+    results.forEach((result, index) => {
+      if (result.status === "rejected") {
+        this.log.error("Follower sync failed", { follower: this.followers[index]?.id, error: result.reason });
+      }
+    });
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Keeps the follower's exchange leverage settings in line with its target positions.
+ *
+ * Before opening or increasing a position, the executor asks the manager to make sure
+ * the coin's leverage setting is at least the required leverage (rounded up, capped at
+ * the asset's `maxLeverage` and the margin tier of the target notional) and that its
+ * margin mode matches the leader's.
+ * Settings read from the follower's positions or set by the manager are cached so the
+ * `updateLeverage` action is only sent when something actually needs to change.
+ */
+
+import type { FollowerExchangeClient } from "../clients/hyperliquid.js";
+import type { MarginMode, PositionSnapshot } from "../domain/types.js";
+import { logger, type Logger } from "../utils/logger.js";
+import { clamp } from "../utils/math.js";
+import { maxLeverageForNotional, type MarketMetadataService } from "./marketMetadata.js";
+
+/**
+ * Exchange leverage setting for one coin.
+ */
+interface LeverageSetting {
+  leverage: number;
+  marginMode: MarginMode;
+}
+
+/**
+ * Per-follower cache and updater of exchange leverage settings.
+ */
+export class LeverageManager {
+  private readonly settings = new Map<string, LeverageSetting>();
+  /** Last setting that the exchange rejected per coin, not retried until the request changes */
+  private readonly rejected = new Map<string, string>();
+
+  constructor(
+    private readonly exchangeClient: FollowerExchangeClient,
+    private readonly metadataService: MarketMetadataService,
+    private readonly log: Logger = logger,
+  ) {}
+
+  /**
+   * Refreshes cached settings from the follower's open positions, which report the
+   * leverage and margin mode actually in effect on the exchange.
+   */
+  syncFromPositions(positions: ReadonlyMap<string, PositionSnapshot>) {
+    for (const position of positions.values()) {
+      if (position.marginMode && position.leverage > 0) {
+        this.settings.set(position.coin, { leverage: position.leverage, marginMode: position.marginMode });
+      }
+    }
+  }
+
+  /**
+   * Returns the coin's known leverage setting, or undefined if it was never read or set.
+   */
+  getLeverage(coin: string): number | undefined {
+    return this.settings.get(coin)?.leverage;
+  }
+
+  /**
+   * Ensures the coin's leverage setting supports `requiredLeverage` in the given margin mode,
+   * sending `updateLeverage` only if the cached setting is lower or in a different mode.
+   * Failures are logged and never thrown; the order still goes out under the existing setting.
+   *
+   * @param coin - Trading pair
+   * @param requiredLeverage - Minimum leverage setting needed (target notional divided by follower equity)
+   * @param marginMode - Margin mode to mirror (default: cross)
+   * @param notionalUsd - Target position notional, used to pick the margin tier (default: lowest tier)
+   */
+  async ensure(coin: string, requiredLeverage: number, marginMode: MarginMode = "cross", notionalUsd = 0) {
+    const metadata = this.metadataService.requireByCoin(coin);
+    const maxLeverage = Math.min(metadata.maxLeverage, maxLeverageForNotional(metadata.marginTiers, notionalUsd));
+    const leverage = clamp(Math.ceil(requiredLeverage - 1e-9), 1, maxLeverage);
+
+    const current = this.settings.get(coin);
+    if (current && current.marginMode === marginMode && current.leverage >= leverage) {
+      return;
+    }
+    const requestKey = `${marginMode}:${leverage}`;
+    if (this.rejected.get(coin) === requestKey) {
+      return;
+    }
+
+    try {
+      await this.exchangeClient.updateLeverage({
+        asset: metadata.assetId,
+        isCross: marginMode === "cross",
+        leverage,
+      });
+      this.settings.set(coin, { leverage, marginMode });
+      this.rejected.delete(coin);
+      this.log.info("Updated follower leverage", { coin, leverage, marginMode, previous: current ?? null });
+    } catch (error) {
+      this.rejected.set(coin, requestKey);
+      this.log.warn("Failed to update follower leverage", {
+        coin,
+        leverage,
+        marginMode,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Order book liquidity check for IOC orders.
+ *
+ * `maxSlippageBps` sets the IOC limit price, but a large order can still sweep several
+ * levels and fill far from mark. Before an order is sent, the executor walks the L2 book
+ * on the side it would take and keeps only the size whose average fill price stays within
+ * the slippage budget; the rest is left for later syncs.
+ */
+
+/**
+ * One price level of an order book side.
+ */
+export interface BookLevel {
+  /** Level price */
+  px: number;
+  /** Size available at this price */
+  sz: number;
+}
+
+/**
+ * Result of walking the book for an order.
+ */
+export interface FillEstimate {
+  /** Largest size (≤ requested) whose average fill price is within the budget */
+  size: number;
+  /** Estimated average fill price for `size`, 0 if nothing fits */
+  avgPrice: number;
+}
+
+/**
+ * Estimates how much of an order the book can absorb within the slippage budget.
+ *
+ * Levels are taken best-first; a level that would push the average price past
+ * mark ± `maxSlippageBps` is taken only partially, up to the size that lands the
+ * average exactly on the limit. Depth beyond the visible levels is not assumed.
+ *
+ * @param levels - Book side the order would take (asks for buys, bids for sells), best first
+ * @param isBuy - Order side
+ * @param size - Requested absolute size
+ * @param markPrice - Reference price the slippage budget is measured from
+ * @param maxSlippageBps - Allowed average-price slippage in basis points
+ * @returns Fillable size and its estimated average price
+ */
+export function estimateFill(
+  levels: readonly BookLevel[],
+  isBuy: boolean,
+  size: number,
+  markPrice: number,
+  maxSlippageBps: number,
+): FillEstimate {
+  const limit = markPrice * (1 + ((isBuy ? 1 : -1) * maxSlippageBps) / 10_000);
+  // Signed so that "worse than the limit" is always a positive excess
+  const excess = (price: number) => (isBuy ? price - limit : limit - price);
+
+  let filled = 0;
+  let cost = 0;
+  for (const level of levels) {
+    if (filled >= size) {
+      break;
+    }
+    const take = Math.min(level.sz, size - filled);
+    if (excess(level.px) <= 0) {
+      filled += take;
+      cost += take * level.px;
+      continue;
+    }
+    // Slack accumulated from better-than-limit levels pays for part of this level
+    const slack = isBuy ? limit * filled - cost : cost - limit * filled;
+    const partial = Math.min(take, Math.max(0, slack / excess(level.px)));
+    filled += partial;
+    cost += partial * level.px;
+    break;
+  }
+  return { size: filled, avgPrice: filled > 0 ? cost / filled : 0 };
+}
@@ -2,15 +2,31 @@
  * Service for fetching and caching Hyperliquid market metadata.
  *
  * Maintains:
- * - Asset metadata (asset IDs, size decimals, max leverage)
+ * - Asset metadata (asset IDs, size decimals, max leverage, margin tiers)
  * - Current mark prices for all assets
  *
  * Metadata is loaded once on initialization and mark prices can be refreshed periodically.
+ * Concurrent and back-to-back refreshes are coalesced so one instance can be shared by
+ * many followers without duplicating API polling.
  */
 
 import type * as hl from "@nktkas/hyperliquid";
 import { logger, type Logger } from "../utils/logger.js";
 
+/** Amount kept below a tier's upper bound, since a notional on the bound already falls in the next tier */
+const TIER_EDGE_USD = 0.01;
+
+/**
+ * One tier of a margin table: positions with notional at or above `lowerBoundUsd`
+ * may use at most `maxLeverage`.
+ */
+export interface MarginTier {
+  /** Position notional in USD at which this tier starts */
+  lowerBoundUsd: number;
+  /** Maximum leverage allowed within this tier */
+  maxLeverage: number;
+}
+
 /**
  * Metadata for a single trading pair.
  */
@@ -25,21 +41,94 @@ export interface AssetMetadata {
   sizeDecimals: number;
   /** ID of the margin tier table for this asset */
   marginTableId: number;
+  /** Margin tiers from the asset's table, ascending by lower bound */
+  marginTiers: MarginTier[];
+}
+
+/**
+ * Anything that can quote a current mark price per coin.
+ */
+export interface MarkPriceSource {
+  getMarkPrice(coin: string): number | undefined;
+}
+
+/**
+ * Anything that can provide the margin tiers of a coin.
+ */
+export interface MarginTierSource {
+  getMarginTiers(coin: string): readonly MarginTier[] | undefined;
+}
+
+/**
+ * Returns the maximum leverage allowed for a position of the given notional,
+ * i.e. the leverage of the highest tier whose lower bound it reaches.
+ *
+ * @param tiers - Margin tiers ascending by lower bound
+ * @param notionalUsd - Absolute position notional
+ * @returns Tier leverage, or Infinity if there are no tiers
+ */
+export function maxLeverageForNotional(tiers: readonly MarginTier[], notionalUsd: number): number {
+  let maxLeverage = tiers[0]?.maxLeverage ?? Number.POSITIVE_INFINITY;
+  for (const tier of tiers) {
+    if (tier.lowerBoundUsd <= notionalUsd) {
+      maxLeverage = tier.maxLeverage;
+    }
+  }
+  return maxLeverage;
+}
+
+/**
+ * Returns the largest position notional whose leverage on `equityUsd` stays within
+ * the margin tier that notional falls into.
+ *
+ * Each tier allows notional up to `maxLeverage × equity`, kept just below the start of the
+ * next tier; the answer is the largest such notional that still reaches its own tier.
+ *
+ * @param tiers - Margin tiers ascending by lower bound
+ * @param equityUsd - Account value backing the position
+ * @returns Maximum notional in USD, or Infinity if there are no tiers
+ */
+export function maxNotionalForEquity(tiers: readonly MarginTier[], equityUsd: number): number {
+  if (tiers.length === 0) {
+    return Number.POSITIVE_INFINITY;
+  }
+  let maxNotional = 0;
+  tiers.forEach((tier, index) => {
+    const upperBound = (tiers[index + 1]?.lowerBoundUsd ?? Number.POSITIVE_INFINITY) - TIER_EDGE_USD;
+    const notional = Math.min(upperBound, tier.maxLeverage * Math.max(equityUsd, 0));
+    if (notional >= tier.lowerBoundUsd) {
+      maxNotional = Math.max(maxNotional, notional);
+    }
+  });
+  return maxNotional;
 }
 
 /**
  * Caches market metadata and mark prices for efficient order construction.
  */
-export class MarketMetadataService {
+export class MarketMetadataService implements MarkPriceSource, MarginTierSource {
   private loaded = false;
+  private loadInFlight: Promise<void> | null = null;
+  private refreshInFlight: Promise<void> | null = null;
+  private lastRefreshMs = 0;
   private readonly coinToMeta = new Map<string, AssetMetadata>();
+  private readonly assetIdToMeta = new Map<number, AssetMetadata>();
   private readonly coinToMarkPx = new Map<string, number>();
 
-  constructor(private readonly infoClient: hl.InfoClient, private readonly log: Logger = logger) {}
+  /**
+   * @param infoClient - Hyperliquid info client
+   * @param log - Logger instance
+   * @param minRefreshIntervalMs - Mark prices younger than this are reused instead of refetched
+   */
+  constructor(
+    private readonly infoClient: hl.InfoClient,
+    private readonly log: Logger = logger,
+    private readonly minRefreshIntervalMs = 1_000,
+  ) {}
 
   /**
    * Ensures market metadata is loaded, fetching from API if needed.
-   * Safe to call multiple times (no-op if already loaded).
+   * Safe to call multiple times (no-op if already loaded); concurrent callers share one request.
    *
    * @param signal - Optional abort signal to cancel the request
    */
@@ -47,22 +136,45 @@ export class MarketMetadataService {
     if (this.loaded) {
       return;
     }
+    this.loadInFlight ??= this.load(signal).finally(() => {
+      this.loadInFlight = null;
+    });
+    await this.loadInFlight;
+  }
+
+  /**
+   * Fetches metadata and mark prices for all assets.
+   */
+  private async load(signal?: AbortSignal) {
     const [meta, contexts] = await this.infoClient.metaAndAssetCtxs(undefined, signal);
+    const marginTables = new Map(
+      meta.marginTables.map(([id, table]) => [
+        id,
+        table.marginTiers
+          .map((tier) => ({ lowerBoundUsd: Number(tier.lowerBound), maxLeverage: tier.maxLeverage }))
+          .sort((a, b) => a.lowerBoundUsd - b.lowerBoundUsd),
+      ]),
+    );
     meta.universe.forEach((entry, index) => {
+      // Assets without a listed table have a single tier at their max leverage
+      const tiers = marginTables.get(entry.marginTableId) ?? [{ lowerBoundUsd: 0, maxLeverage: entry.maxLeverage }];
       const metadata: AssetMetadata = {
         assetId: index,
         coin: entry.name,
         maxLeverage: entry.maxLeverage,
         sizeDecimals: entry.szDecimals,
         marginTableId: entry.marginTableId,
+        marginTiers: tiers.map((tier) => ({ ...tier, maxLeverage: Math.min(tier.maxLeverage, entry.maxLeverage) })),
       };
       this.coinToMeta.set(entry.name, metadata);
+      this.assetIdToMeta.set(index, metadata);
       const ctx = contexts[index];
       if (ctx) {
         this.coinToMarkPx.set(entry.name, Number(ctx.markPx));
       }
     });
     this.loaded = true;
+    this.lastRefreshMs = Date.now();
     this.log.info("Loaded Hyperliquid market metadata", { assets: this.coinToMeta.size });
   }
 
@@ -73,6 +185,13 @@ export class MarketMetadataService {
     return this.coinToMeta.get(coin);
   }
 
+  /**
+   * Gets metadata for a numeric asset ID, returning undefined if not found.
+   */
+  getByAssetId(assetId: number): AssetMetadata | undefined {
+    return this.assetIdToMeta.get(assetId);
+  }
+
   /**
    * Gets metadata for a coin, throwing if not found.
    * @throws {Error} If the coin is not in the metadata cache
@@ -85,6 +204,13 @@ export class MarketMetadataService {
     return metadata;
   }
 
+  /**
+   * Gets the margin tiers for a coin, undefined if the coin is unknown.
+   */
+  getMarginTiers(coin: string): readonly MarginTier[] | undefined {
+    return this.coinToMeta.get(coin)?.marginTiers;
+  }
+
   /**
    * Gets the current mark price for a coin.
    */
@@ -95,6 +221,8 @@ export class MarketMetadataService {
   /**
    * Refreshes mark prices from the API without reloading metadata.
    * If metadata is not yet loaded, performs a full load instead.
+   * Callers arriving while a refresh is in flight, or within `minRefreshIntervalMs`
+   * of the last one, reuse that result.
    *
    * @param signal - Optional abort signal to cancel the request
    */
@@ -103,6 +231,23 @@ export class MarketMetadataService {
       await this.ensureLoaded(signal);
       return;
     }
+    if (this.refreshInFlight) {
+      await this.refreshInFlight;
+      return;
+    }
+    if (Date.now() - this.lastRefreshMs < this.minRefreshIntervalMs) {
+      return;
+    }
+    this.refreshInFlight = this.fetchMarkPrices(signal).finally(() => {
+      this.refreshInFlight = null;
+    });
+    await this.refreshInFlight;
+  }
+
+  /**
+   * Fetches current mark prices for all assets.
+   */
+  private async fetchMarkPrices(signal?: AbortSignal) {
     const [meta, contexts] = await this.infoClient.metaAndAssetCtxs(undefined, signal);
     meta.universe.forEach((entry, index) => {
       const ctx = contexts[index];
@@ -110,6 +255,7 @@ export class MarketMetadataService {
         this.coinToMarkPx.set(entry.name, Number(ctx.markPx));
       }
     });
+    this.lastRefreshMs = Date.now();
     this.log.debug("Refreshed mark prices");
   }
 }
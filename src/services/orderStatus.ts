@@ -0,0 +1,113 @@
+/**
+ * Decoding of per-order exchange statuses and classification of order errors.
+ *
+ * Every order in a batch comes back as filled (with `totalSz` / `avgPx`), resting (with an
+ * order id) or an error string. Error strings are mapped to a small set of kinds, each with
+ * a policy that tells the executor whether the coin's delta may be sent again and when.
+ */
+
+import type { OrderResponse } from "@nktkas/hyperliquid/api/exchange";
+
+/** Per-order status returned by the exchange for an order batch */
+export type OrderStatus = OrderResponse["response"]["data"]["statuses"][number];
+
+/** Kind of order rejection, also used as the `reason` metrics label */
+export type OrderErrorKind =
+  | "insufficient_margin"
+  | "reduce_only"
+  | "min_notional"
+  | "tick_size"
+  | "rate_limit"
+  | "unknown_asset"
+  | "post_only"
+  | "no_liquidity"
+  | "other";
+
+/**
+ * Decoded status of one order.
+ */
+export type DecodedOrderStatus =
+  | { status: "filled"; oid: number; filledSize: number; avgPrice: number }
+  | { status: "resting"; oid: number }
+  | { status: "error"; kind: OrderErrorKind; message: string };
+
+/**
+ * How the executor reacts to a rejected order.
+ */
+export interface OrderErrorPolicy {
+  /** Whether a later sync may send the coin's delta again; if false the coin is skipped until its target changes */
+  retry: boolean;
+  /** Time to wait before retrying, in milliseconds */
+  cooldownMs: number;
+  /** Whether the hold applies to every order of the follower rather than the rejected coin */
+  accountWide: boolean;
+}
+
+/**
+ * Reaction to each error kind:
+ * - Margin and reduce-only errors come from stale state; the next sync refreshes it and resizes the order
+ * - Minimum notional, tick size and unknown asset errors repeat until the order itself changes
+ * - Rate limits hold all orders for a short back-off
+ * - Post-only crosses and empty books are retried as usual
+ */
+export const ORDER_ERROR_POLICIES: Readonly<Record<OrderErrorKind, OrderErrorPolicy>> = {
+  insufficient_margin: { retry: true, cooldownMs: 0, accountWide: false },
+  reduce_only: { retry: true, cooldownMs: 0, accountWide: false },
+  min_notional: { retry: false, cooldownMs: 0, accountWide: false },
+  tick_size: { retry: false, cooldownMs: 0, accountWide: false },
+  rate_limit: { retry: true, cooldownMs: 10_000, accountWide: true },
+  unknown_asset: { retry: false, cooldownMs: 0, accountWide: false },
+  post_only: { retry: true, cooldownMs: 0, accountWide: false },
+  no_liquidity: { retry: true, cooldownMs: 0, accountWide: false },
+  other: { retry: true, cooldownMs: 0, accountWide: false },
+};
+
+/**
+ * Maps an exchange rejection message to its error kind.
+ */
+export function classifyOrderError(message: string): OrderErrorKind {
+  const text = message.toLowerCase();
+  if (text.includes("insufficient margin")) {
+    return "insufficient_margin";
+  }
+  if (text.includes("reduce only")) {
+    return "reduce_only";
+  }
+  if (text.includes("could not immediately match")) {
+    return "no_liquidity";
+  }
+  if (text.includes("post only")) {
+    return "post_only";
+  }
+  if (text.includes("minimum value")) {
+    return "min_notional";
+  }
+  if (text.includes("tick size") || text.includes("invalid price")) {
+    return "tick_size";
+  }
+  if (text.includes("rate limit") || text.includes("too many")) {
+    return "rate_limit";
+  }
+  if (text.includes("unknown asset") || text.includes("invalid asset") || text.includes("asset not found")) {
+    return "unknown_asset";
+  }
+  return "other";
+}
+
+/**
+ * Decodes one exchange order status.
+ */
+export function decodeOrderStatus(status: OrderStatus): DecodedOrderStatus {
+  if ("filled" in status) {
+    return {
+      status: "filled",
+      oid: status.filled.oid,
+      filledSize: Number(status.filled.totalSz),
+      avgPrice: Number(status.filled.avgPx),
+    };
+  }
+  if ("resting" in status) {
+    return { status: "resting", oid: status.resting.oid };
+  }
+  return { status: "error", kind: classifyOrderError(status.error), message: status.error };
+}
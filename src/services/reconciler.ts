@@ -1,7 +1,7 @@
 /**
  * Reconciliation service for periodically syncing state from Hyperliquid API.
  *
- * Fetches full account snapshots for both leader and follower to ensure
+ * Fetches full account snapshots for every leader and follower to ensure
  * in-memory state matches the exchange. This provides a fallback in case
  * WebSocket events are missed or state drifts.
  *
@@ -11,8 +11,21 @@
 import type * as hl from "@nktkas/hyperliquid";
 import type { CopyTradingConfig } from "../config/index.js";
 import { logger, type Logger } from "../utils/logger.js";
-import { LeaderState } from "../domain/leaderState.js";
+import { metrics } from "../utils/metrics.js";
+import type { WeightedLeader } from "../domain/leaderState.js";
 import { FollowerState } from "../domain/followerState.js";
+import type { TraderStateStore } from "../domain/traderState.js";
+import type { EventStore } from "./eventStore.js";
+
+/**
+ * A follower account whose state is refreshed by the reconciler.
+ */
+export interface ReconciledFollower {
+  /** Follower trading address (wallet or vault) */
+  address: `0x${string}`;
+  /** Follower state store */
+  state: FollowerState;
+}
 
 /**
  * Manages periodic reconciliation of leader and follower states.
@@ -23,27 +36,69 @@ export class Reconciler {
   constructor(
     private readonly infoClient: hl.InfoClient,
     private readonly config: CopyTradingConfig,
-    private readonly leaderState: LeaderState,
-    private readonly followerState: FollowerState,
-    private readonly followerAddress: `0x${string}`,
+    private readonly leaders: readonly WeightedLeader[],
+    private readonly followers: readonly ReconciledFollower[],
     private readonly log: Logger = logger,
+    private readonly eventStore?: EventStore,
   ) {}
 
   /**
    * Performs a single reconciliation by fetching full clearinghouse state
-   * for both leader and follower from the API.
+   * for every leader and follower from the API.
    *
-   * Fetches happen in parallel for efficiency.
+   * Fetches happen in parallel for efficiency. Duration and failures are recorded as metrics.
    */
   async reconcileOnce() {
-    const [leader, follower] = await Promise.all([
-      this.infoClient.clearinghouseState({ user: this.config.leaderAddress as `0x${string}` }),
-      this.infoClient.clearinghouseState({ user: this.followerAddress }),
-    ]);
+    const startedMs = Date.now();
+    let leaders: Awaited<ReturnType<hl.InfoClient["clearinghouseState"]>>[];
+    let followers: Awaited<ReturnType<hl.InfoClient["clearinghouseState"]>>[];
+    try {
+      [leaders, followers] = await Promise.all([
+        Promise.all(this.leaders.map((leader) => this.infoClient.clearinghouseState({ user: leader.address }))),
+        Promise.all(this.followers.map((follower) => this.infoClient.clearinghouseState({ user: follower.address }))),
+      ]);
+    } catch (error) {
+      metrics.reconcileFailures.inc();
+      throw error;
+    } finally {
+      metrics.reconcileDuration.observe({}, (Date.now() - startedMs) / 1000);
+    }
 
-    this.leaderState.applyClearinghouseState(leader);
-    this.followerState.applyClearinghouseState(follower);
-    this.log.debug("Reconciled leader/follower states");
+    this.leaders.forEach((leader, index) => {
+      const state = leaders[index];
+      if (state) {
+        leader.state.applyClearinghouseState(state);
+      }
+    });
+    this.followers.forEach((follower, index) => {
+      const state = followers[index];
+      if (state) {
+        follower.state.applyClearinghouseState(state);
+      }
+    });
+    for (const leader of this.leaders) {
+      this.recordSnapshot("leader", leader.address, leader.state);
+    }
+    for (const follower of this.followers) {
+      this.recordSnapshot("follower", follower.address, follower.state);
+    }
+    this.log.debug("Reconciled leader/follower states", {
+      leaders: this.leaders.length,
+      followers: this.followers.length,
+    });
+  }
+
+  /**
+   * Records a post-reconciliation metrics and positions snapshot, if an event store is configured.
+   */
+  private recordSnapshot(role: "leader" | "follower", account: `0x${string}`, state: TraderStateStore) {
+    this.eventStore?.record({
+      type: "accountSnapshot",
+      role,
+      account,
+      metrics: { ...state.getMetrics() },
+      positions: Array.from(state.getPositions().values()),
+    });
   }
 
   /**
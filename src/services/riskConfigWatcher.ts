@@ -0,0 +1,115 @@
+/**
+ * Hot-reload of follower risk parameters from a JSON or YAML config file.
+ *
+ * The file (`RISK_CONFIG_FILE`) is polled for changes with `fs.watchFile`. Each change is
+ * parsed and validated for every follower before anything is applied, so an invalid edit
+ * is rejected as a whole and the previous risk settings stay active. Accepted changes are
+ * handed to each `TradeExecutor` and take effect on its next sync.
+ */
+
+import { unwatchFile, watchFile, type Stats } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { parseRiskConfigFile, type FollowerConfig, type RiskConfig } from "../config/index.js";
+import { logger, type Logger } from "../utils/logger.js";
+import type { FollowerFleet } from "./followerFleet.js";
+
+/**
+ * Lists risk keys whose values differ, with old and new values.
+ */
+function diffRisk(before: RiskConfig, after: RiskConfig): Record<string, { from: unknown; to: unknown }> {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]) as Set<keyof RiskConfig>;
+  for (const key of keys) {
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changes[key] = { from: before[key], to: after[key] };
+    }
+  }
+  return changes;
+}
+
+/**
+ * Watches the risk config file and applies validated changes to every follower.
+ */
+export class RiskConfigWatcher {
+  private watching = false;
+  private readonly listener = (current: Stats, previous: Stats) => {
+    if (current.mtimeMs !== previous.mtimeMs) {
+      void this.reload();
+    }
+  };
+
+  /**
+   * @param filePath - Path of the JSON or YAML risk config file
+   * @param followers - Configured followers; their environment risk is the base for overrides
+   * @param fleet - Followers whose executors receive the new risk settings
+   * @param log - Logger instance
+   * @param pollIntervalMs - How often the file is checked for changes
+   */
+  constructor(
+    private readonly filePath: string,
+    private readonly followers: readonly FollowerConfig[],
+    private readonly fleet: FollowerFleet,
+    private readonly log: Logger = logger,
+    private readonly pollIntervalMs = 1_000,
+  ) {}
+
+  /**
+   * Reads, validates and applies the file. Nothing is applied if any follower's settings are invalid.
+   * @throws {Error} If the file cannot be read or is invalid
+   */
+  async load() {
+    const raw = await readFile(this.filePath, "utf8");
+    const risks = parseRiskConfigFile(raw, this.followers);
+
+    for (const follower of this.fleet.list()) {
+      const next = risks.get(follower.id);
+      if (!next) {
+        continue;
+      }
+      const changes = diffRisk(follower.executor.getRisk(), next);
+      if (Object.keys(changes).length === 0) {
+        continue;
+      }
+      follower.executor.updateRisk(next);
+      this.log.info("Risk config updated", { follower: follower.id, changes });
+    }
+  }
+
+  /**
+   * Starts watching the file for changes.
+   * No-op if already watching.
+   */
+  start() {
+    if (this.watching) {
+      return;
+    }
+    this.watching = true;
+    watchFile(this.filePath, { interval: this.pollIntervalMs, persistent: false }, this.listener);
+    this.log.info("Watching risk config file", { file: this.filePath });
+  }
+
+  /**
+   * Stops watching the file.
+   */
+  stop() {
+    if (!this.watching) {
+      return;
+    }
+    this.watching = false;
+    unwatchFile(this.filePath, this.listener);
+  }
+
+  /**
+   * Re-applies the file after a change, keeping the previous settings if it is invalid.
+   */
+  private async reload() {
+    try {
+      await this.load();
+    } catch (error) {
+      this.log.error("Rejected risk config change; previous settings remain active", {
+        file: this.filePath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
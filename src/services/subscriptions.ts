@@ -1,8 +1,8 @@
 /**
  * WebSocket subscription service for real-time leader fill events.
  *
- * Subscribes to the leader's fill stream on Hyperliquid and:
- * - Updates leader state incrementally with each fill
+ * Subscribes to each leader's fill stream on Hyperliquid and:
+ * - Updates that leader's state incrementally with each fill
  * - Triggers follower sync callback when fills occur
  *
  * This provides low-latency replication compared to polling.
@@ -11,7 +11,8 @@
 import type * as hl from "@nktkas/hyperliquid";
 import type { CopyTradingConfig } from "../config/index.js";
 import { logger, type Logger } from "../utils/logger.js";
-import { LeaderState } from "../domain/leaderState.js";
+import type { WeightedLeader } from "../domain/leaderState.js";
+import type { EventStore } from "./eventStore.js";
 
 /**
  * Handle for managing an active subscription.
@@ -24,68 +25,93 @@ type SubscriptionHandle = {
  * Manages WebSocket subscriptions to leader account events.
  */
 export class SubscriptionService {
-  private fillsSub: SubscriptionHandle | null = null;
+  private fillsSubs: SubscriptionHandle[] | null = null;
 
   /**
    * @param subscriptionClient - Hyperliquid WebSocket subscription client
    * @param config - Copy trading configuration
-   * @param leaderState - Leader state store to update
+   * @param leaders - Leaders whose state stores are updated from their fills
    * @param onLeaderFill - Optional callback to trigger on each fill event
    * @param log - Logger instance
+   * @param eventStore - Optional event store recording every live (non-snapshot) leader fill
    */
   constructor(
     private readonly subscriptionClient: hl.SubscriptionClient,
     private readonly config: CopyTradingConfig,
-    private readonly leaderState: LeaderState,
+    private readonly leaders: readonly WeightedLeader[],
     private readonly onLeaderFill?: () => void | Promise<void>,
     private readonly log: Logger = logger,
+    private readonly eventStore?: EventStore,
   ) {}
 
   /**
-   * Starts WebSocket subscription to leader fills.
+   * Starts WebSocket subscriptions to every leader's fills.
    * No-op if already subscribed.
    */
   async start() {
-    if (this.fillsSub) {
+    if (this.fillsSubs) {
       return;
     }
 
-    this.log.info("Starting leader subscriptions", { leader: this.config.leaderAddress });
+    this.log.info("Starting leader subscriptions", {
+      leaders: this.leaders.map((leader) => ({ address: leader.address, weight: leader.weight })),
+    });
 
-    // Subscribe to leader's fill events
-    const subscription = await this.subscriptionClient.userFills(
-      {
-        user: this.config.leaderAddress as `0x${string}`,
-        aggregateByTime: this.config.websocketAggregateFills,
-      },
-      (event) => {
-        this.log.debug("Received leader fills event", { count: event.fills.length });
+    // Subscribe to each leader's fill events
+    this.fillsSubs = await Promise.all(
+      this.leaders.map(async (leader) => {
+        const subscription = await this.subscriptionClient.userFills(
+          {
+            user: leader.address,
+            aggregateByTime: this.config.websocketAggregateFills,
+          },
+          (event) => {
+            this.log.debug("Received leader fills event", { leader: leader.address, count: event.fills.length });
 
-        // Update leader state incrementally
-        this.leaderState.handleFillEvent(event);
+            // The initial snapshot replays fill history on every (re)connect; only live fills are new
+            for (const fill of event.isSnapshot ? [] : event.fills) {
+              this.eventStore?.record({
+                type: "leaderFill",
+                account: leader.address,
+                coin: fill.coin,
+                px: fill.px,
+                sz: fill.sz,
+                side: fill.side,
+                startPosition: fill.startPosition,
+                fillTime: fill.time,
+              });
+            }
 
-        // Trigger sync callback (e.g., to execute follower orders)
-        void this.onLeaderFill?.();
-      },
-    );
+            // Update this leader's state incrementally
+            leader.state.handleFillEvent(event);
 
-    this.fillsSub = {
-      unsubscribe: () => subscription.unsubscribe(),
-    };
+            // Trigger sync callback (e.g., to execute follower orders)
+            void this.onLeaderFill?.();
+          },
+        );
+        return {
+          unsubscribe: () => subscription.unsubscribe(),
+        };
+      }),
+    );
   }
 
   /**
-   * Stops WebSocket subscription to leader fills.
+   * Stops WebSocket subscriptions to leader fills.
    * No-op if not subscribed.
    */
   async stop() {
-    if (!this.fillsSub) {
+    if (!this.fillsSubs) {
       return;
     }
     this.log.info("Stopping leader subscriptions");
-    await this.fillsSub.unsubscribe().catch((error) => {
-      this.log.error("Failed to unsubscribe from fills", { error });
-    });
-    this.fillsSub = null;
+    await Promise.all(
+      this.fillsSubs.map((sub) =>
+        sub.unsubscribe().catch((error) => {
+          this.log.error("Failed to unsubscribe from fills", { error });
+        }),
+      ),
+    );
+    this.fillsSubs = null;
   }
 }
@@ -7,86 +7,481 @@
  * - Build and submit orders to Hyperliquid exchange
  *
  * Orders are constructed as IOC (Immediate-Or-Cancel) limit orders with slippage allowance.
+ * Deltas above the configured notional threshold are handed to an `ExecutionScheduler`
+ * and worked over time as child orders or a native TWAP; with maker-first execution,
+ * non-urgent deltas rest as post-only orders at the touch before falling back to IOC.
+ * IOC orders are first shrunk to what the L2 book can fill within the slippage budget;
+ * the held-back remainder is reported and retried by later syncs.
+ * Each sync submits reduce-only orders first, then refreshes margin and submits opening
+ * orders largest target gap first, scaled down to the follower's free margin.
  */
 
-import type * as hl from "@nktkas/hyperliquid";
+import * as hl from "@nktkas/hyperliquid";
 import { randomUUID } from "node:crypto";
-import type { RiskConfig } from "../config/index.js";
+import type { FollowerExchangeClient } from "../clients/hyperliquid.js";
+import type { ExecutionConfig, RiskConfig } from "../config/index.js";
 import { logger, type Logger } from "../utils/logger.js";
-import { clamp } from "../utils/math.js";
-import { LeaderState } from "../domain/leaderState.js";
-import { FollowerState, type PositionDelta } from "../domain/followerState.js";
+import { formatPrice, formatSize } from "../utils/format.js";
+import { clamp, safeDivide } from "../utils/math.js";
+import { metrics } from "../utils/metrics.js";
+import { blendTargets, type TargetPosition, type WeightedLeader } from "../domain/leaderState.js";
+import { changesSizing, FollowerState, isWithinDriftBand, type PositionDelta } from "../domain/followerState.js";
+import { RiskGuard, type RiskGuardStatus } from "../domain/riskGuard.js";
+import type { PositionSnapshot } from "../domain/types.js";
 import { MarketMetadataService } from "./marketMetadata.js";
+import { LeverageManager } from "./leverageManager.js";
+import { estimateFill } from "./liquidityGuard.js";
+import type { VolatilityService } from "./volatility.js";
+import {
+  ExecutionScheduler,
+  type BookTouch,
+  type ExecutionSummary,
+  type RestingOrderFill,
+} from "./executionScheduler.js";
+import type { EventStore, FlipEvent, StoredOrderStatus } from "./eventStore.js";
+import {
+  classifyOrderError,
+  decodeOrderStatus,
+  ORDER_ERROR_POLICIES,
+  type OrderErrorKind,
+  type OrderStatus,
+} from "./orderStatus.js";
 
 /** Minimum absolute position delta to trigger an order (prevents dust trades) */
-const MIN_ABS_DELTA = 1e-6;
+export const MIN_ABS_DELTA = 1e-6;
 /** Exchange minimum order notional (USD). Override with env MIN_ORDER_NOTIONAL_USD if needed. */
-const MIN_ORDER_NOTIONAL_USD = Number(process.env.MIN_ORDER_NOTIONAL_USD ?? 10);
+export const MIN_ORDER_NOTIONAL_USD = Number(process.env.MIN_ORDER_NOTIONAL_USD ?? 10);
+/** Share of free margin opening orders may commit, leaving headroom for fees and slippage */
+const OPEN_MARGIN_USAGE = 0.95;
+/** Key of the hold that applies to every coin */
+const ACCOUNT_HOLD = "*";
 
 /**
- * Determines the number of decimal places in a number's string representation.
- * Used to match the price precision of the mark price.
+ * Computes the IOC limit price for an order: mark price moved against us by the slippage allowance.
+ * Higher for buys (worse fill), lower for sells, clamped to 10%–1000% of mark.
  */
-function getDecimalPlaces(value: number): number {
-  const str = value.toString();
-  const decimalIndex = str.indexOf(".");
-  if (decimalIndex === -1) {
-    return 0;
+export function slippageLimitPrice(markPrice: number, isBuy: boolean, maxSlippageBps: number): number {
+  // Convert slippage from basis points to decimal (e.g., 25 bps = 0.0025)
+  const slippage = maxSlippageBps / 10_000;
+  const priceMultiplier = isBuy ? 1 + slippage : 1 - slippage;
+  return clamp(markPrice * priceMultiplier, markPrice * 0.1, markPrice * 10);
+}
+
+/**
+ * Determines whether the order for a delta should be reduce-only:
+ * closing a position, or shrinking it without changing direction.
+ */
+export function isReduceOnlyDelta(delta: PositionDelta): boolean {
+  if (!delta.current) {
+    // Opening a new position, not reduce-only
+    return false;
+  }
+  const currentSize = delta.current.size;
+  const targetSize = delta.targetSize;
+
+  // If target is zero (or dust), we're closing the position
+  if (Math.abs(targetSize) < MIN_ABS_DELTA) {
+    return true;
+  }
+
+  // If position direction stays the same but size decreases, it's a reduction
+  const sameDirection = Math.sign(currentSize) === Math.sign(targetSize);
+  return sameDirection && Math.abs(targetSize) < Math.abs(currentSize);
+}
+
+/**
+ * Limits deltas to ones that only reduce exposure: reductions and closes pass through,
+ * direction flips become plain closes, and opens or increases are dropped.
+ */
+function restrictToReducing(deltas: PositionDelta[]): PositionDelta[] {
+  return deltas.flatMap((delta) => {
+    if (isReduceOnlyDelta(delta)) {
+      return [delta];
+    }
+    const flip = splitFlip(delta);
+    return flip ? [flip.close] : [];
+  });
+}
+
+/**
+ * Builds deltas closing every open follower position, leaving sizing state untouched.
+ */
+function flattenDeltas(positions: ReadonlyMap<string, PositionSnapshot>): PositionDelta[] {
+  return Array.from(positions.values(), (position) => ({
+    coin: position.coin,
+    current: position,
+    targetSize: 0,
+    deltaSize: -position.size,
+    maxNotionalUsd: 0,
+  }));
+}
+
+/**
+ * Splits a direction flip into a reduce-only close of the current side and an open of the
+ * new side from flat; returns undefined for any other delta.
+ */
+function splitFlip(delta: PositionDelta): { close: PositionDelta; open: PositionDelta } | undefined {
+  const current = delta.current;
+  if (!current || Math.abs(delta.targetSize) < MIN_ABS_DELTA || Math.sign(delta.targetSize) !== -Math.sign(current.size)) {
+    return undefined;
+  }
+  return {
+    close: { ...delta, targetSize: 0, deltaSize: -current.size },
+    open: { ...delta, current: undefined, deltaSize: delta.targetSize },
+  };
+}
+
+/**
+ * Determines whether a delta must be executed immediately rather than resting as a maker order:
+ * closing a position, or flipping its direction.
+ */
+function isUrgentDelta(delta: PositionDelta): boolean {
+  const current = delta.current;
+  if (!current) {
+    return false;
+  }
+  return Math.abs(delta.targetSize) < MIN_ABS_DELTA || Math.sign(delta.targetSize) === -Math.sign(current.size);
+}
+
+/**
+ * Returns the part of a delta's order that adds exposure: the increase of an open or add,
+ * the new side of a flip, or 0 for a reduction or close.
+ */
+function openingSize(delta: PositionDelta): number {
+  const current = delta.current?.size ?? 0;
+  const resulting = current + delta.deltaSize;
+  if (current !== 0 && Math.sign(resulting) === -Math.sign(current)) {
+    return Math.abs(resulting);
   }
-  return str.length - decimalIndex - 1;
+  return Math.max(0, Math.abs(resulting) - Math.abs(current));
+}
+
+/**
+ * Shrinks the exposure-adding part of a delta to `factor` of its size, keeping any closing part.
+ */
+function scaleOpening(delta: PositionDelta, factor: number): PositionDelta {
+  const reduction = openingSize(delta) * (1 - factor);
+  return { ...delta, deltaSize: delta.deltaSize - Math.sign(delta.deltaSize) * reduction };
 }
 
 /**
- * Rounds a price to match the precision of a reference price (mark price).
- * This ensures orders comply with Hyperliquid's tick size requirements.
+ * Result of fitting a delta to order book liquidity.
  */
-function roundToMarkPricePrecision(price: number, markPrice: number): string {
-  const decimals = getDecimalPlaces(markPrice);
-  const rounded = Number(price.toFixed(decimals));
-  
-  // Format with fixed decimals and strip trailing zeros if any
-  let result = rounded.toFixed(decimals);
-  
-  // Only strip trailing zeros after the decimal point, keep the number valid
-  if (decimals > 0) {
-    result = result.replace(/\.?0+$/, "");
-  }
-  
-  // Ensure we have at least one digit
-  return result || "0";
+interface BookFit {
+  /** Delta as computed */
+  delta: PositionDelta;
+  /** Delta to send, possibly smaller; null if what fits is below the minimum order */
+  fitted: PositionDelta | null;
+  /** Absolute size held back */
+  deferredSize: number;
+  /** Mark price the slippage budget was measured from */
+  markPrice: number;
+}
+
+/** Order object as built by `TradeExecutor.buildOrder` or `buildMakerOrder` */
+type FollowerOrder = ReturnType<TradeExecutor["buildOrder"]> | ReturnType<TradeExecutor["buildMakerOrder"]>;
+
+/**
+ * Extracts per-order statuses from a rejected order request, if the exchange returned them.
+ */
+function statusesFromError(error: unknown): OrderStatus[] | undefined {
+  if (error instanceof hl.ApiRequestError && error.response.status === "ok" && "statuses" in error.response.response.data) {
+    return error.response.response.data.statuses as OrderStatus[];
+  }
+  return undefined;
+}
+
+/**
+ * Pairs each submitted order with its exchange status for the event store.
+ */
+function toStoredStatuses(orders: FollowerOrder[], statuses: readonly OrderStatus[] | undefined): StoredOrderStatus[] {
+  return orders.map((order, index) => {
+    const base = { asset: order.a, isBuy: order.b, price: order.p, size: order.s, reduceOnly: order.r };
+    const status = statuses?.[index];
+    if (!status) {
+      return { ...base, status: "unknown" as const };
+    }
+    if ("filled" in status) {
+      return { ...base, status: "filled" as const, oid: status.filled.oid, totalSz: status.filled.totalSz, avgPx: status.filled.avgPx };
+    }
+    if ("resting" in status) {
+      return { ...base, status: "resting" as const, oid: status.resting.oid };
+    }
+    return { ...base, status: "error" as const, error: status.error };
+  });
 }
 
 /**
  * Dependencies for TradeExecutor.
  */
 interface TradeExecutorDeps {
+  /** Follower identifier, used as the `follower` metrics label */
+  followerId: string;
   /** Hyperliquid exchange client for placing orders */
-  exchangeClient: hl.ExchangeClient;
+  exchangeClient: FollowerExchangeClient;
   /** Hyperliquid info client for fetching account state */
   infoClient: hl.InfoClient;
   /** Follower trading address */
   followerAddress: `0x${string}`;
-  /** Leader state store */
-  leaderState: LeaderState;
+  /** Leaders to copy with their signed weights */
+  leaders: WeightedLeader[];
   /** Follower state store */
   followerState: FollowerState;
   /** Market metadata service for asset details and mark prices */
   metadataService: MarketMetadataService;
-  /** Risk configuration */
+  /** Volatility estimates, refreshed before sizing when `sizingStrategy` is "volatilityTarget" */
+  volatilityService?: VolatilityService;
+  /** Initial risk configuration (replaceable at runtime via `updateRisk`) */
   risk: RiskConfig;
+  /** How large deltas are executed */
+  execution: ExecutionConfig;
+  /** Optional event store recording submitted order batches */
+  eventStore?: EventStore;
+  /** Optional clock in milliseconds (defaults to `Date.now`; the backtest replays historical time) */
+  now?: () => number;
   /** Optional logger instance */
   log?: Logger;
 }
 
+/**
+ * Part of a delta held back because the order book could not absorb it within the slippage budget.
+ */
+export interface DeferredRemainder {
+  /** Trading pair */
+  coin: string;
+  /** Absolute size not sent */
+  size: number;
+  /** Notional of the held-back size at mark price */
+  notionalUsd: number;
+  /** When the coin was first limited by liquidity, in milliseconds */
+  sinceMs: number;
+}
+
+/**
+ * Follower order resting on the book, tracked from placement until it is filled or cancelled.
+ */
+export interface RestingOrder {
+  /** Exchange order ID */
+  oid: number;
+  /** Trading pair */
+  coin: string;
+  isBuy: boolean;
+  /** Limit price */
+  price: number;
+  /** Original size */
+  size: number;
+  /** Size filled so far, already applied to follower state */
+  filledSize: number;
+  /** Placement time in milliseconds */
+  sinceMs: number;
+}
+
+/**
+ * Orders held back after a rejection, according to the error kind's `OrderErrorPolicy`.
+ */
+export interface OrderHold {
+  /** Rejected coin, or "*" when every order is held */
+  coin: string;
+  /** Kind of the rejection */
+  kind: OrderErrorKind;
+  /** Exchange error message */
+  message: string;
+  /** End of the cooldown in milliseconds; null if the hold lasts until the coin's target changes */
+  untilMs: number | null;
+  /** Target size of the rejected delta */
+  targetSize: number;
+}
+
+/**
+ * Runtime status of an executor, as reported by the control API.
+ */
+export interface ExecutorStatus {
+  /** Whether trading is paused (syncs are skipped) */
+  paused: boolean;
+  /** Whether a sync is currently running */
+  syncing: boolean;
+  /** Completion time of the last sync in milliseconds, null if none ran yet */
+  lastSyncMs: number | null;
+  /** Most recent sync or order error, null if none occurred */
+  lastError: { message: string; timeMs: number } | null;
+  /** Circuit breaker state */
+  riskGuard: RiskGuardStatus;
+  /** Factor applied to the target book by portfolio limits in the last sync (1 = not binding) */
+  portfolioScale: number;
+  /** Sliced or TWAP executions in progress */
+  executions: ExecutionSummary[];
+  /** Delta remainders waiting for book liquidity */
+  deferred: DeferredRemainder[];
+  /** Follower orders resting on the book */
+  restingOrders: RestingOrder[];
+  /** Coins (or all orders) held back after rejections */
+  holds: OrderHold[];
+}
+
 /**
  * Manages trade execution to synchronize follower positions with leader.
  */
 export class TradeExecutor {
   private syncing = false;
+  private paused = false;
+  private lastSyncMs: number | null = null;
+  private lastError: ExecutorStatus["lastError"] = null;
+  private risk: RiskConfig;
+  private readonly riskGuard: RiskGuard;
+  private readonly leverageManager: LeverageManager;
+  private readonly scheduler: ExecutionScheduler;
+  private readonly deferred = new Map<string, DeferredRemainder>();
+  private readonly restingOrders = new Map<number, RestingOrder>();
+  private readonly holds = new Map<string, OrderHold>();
+  /** Blended leader size per coin at the previous sync, to tell leader trades from price moves */
+  private readonly leaderSizes = new Map<string, number>();
+  /** Leader fill time already counted in the fill-to-order latency histogram */
+  private lastLatencyFillMs = 0;
+  /** Circuit breaker state last written to the event store, serialized */
+  private recordedRiskGuardState = "";
   private readonly log: Logger;
+  private readonly now: () => number;
 
   constructor(private readonly deps: TradeExecutorDeps) {
     this.log = deps.log ?? logger;
+    this.now = deps.now ?? Date.now;
+    this.risk = deps.risk;
+    this.riskGuard = new RiskGuard(this.log, this.now);
+    this.leverageManager = new LeverageManager(deps.exchangeClient, deps.metadataService, this.log);
+    this.scheduler = new ExecutionScheduler(
+      deps.execution,
+      {
+        placeSlice: (delta) => this.placeSlice(delta),
+        placeTwap: (delta, minutes, randomize) => this.placeTwap(delta, minutes, randomize),
+        cancelTwap: (coin, twapId) => this.cancelTwap(coin, twapId),
+        getMarkPrice: (coin) => deps.metadataService.getMarkPrice(coin),
+        getTouch: (coin) => this.getTouch(coin),
+        postMaker: (delta, price) => this.postMaker(delta, price),
+        getOrderFill: (oid) => this.getOrderFill(oid),
+        cancelOrder: (coin, oid) => this.cancelOrder(coin, oid),
+      },
+      MIN_ORDER_NOTIONAL_USD,
+      this.log,
+      this.now,
+    );
+  }
+
+  /**
+   * Returns the risk configuration currently in effect.
+   */
+  getRisk(): RiskConfig {
+    return this.risk;
+  }
+
+  /**
+   * Replaces the risk configuration; takes effect from the next sync. Entry-locked targets are
+   * re-sized under the new limits only when a sizing field changed (see `changesSizing`).
+   */
+  updateRisk(risk: RiskConfig) {
+    const resize = changesSizing(this.risk, risk);
+    this.risk = risk;
+    if (resize) {
+      this.deps.followerState.resetEntryLocks();
+    }
+  }
+
+  /**
+   * Pauses trading: subsequent syncs return without placing orders and running
+   * sliced or TWAP executions are cancelled.
+   */
+  pause() {
+    if (!this.paused) {
+      this.paused = true;
+      this.log.warn("Trading paused");
+      void this.scheduler.cancelAll("paused");
+    }
+  }
+
+  /**
+   * Resumes trading after a pause.
+   */
+  resume() {
+    if (this.paused) {
+      this.paused = false;
+      this.log.info("Trading resumed");
+    }
+  }
+
+  /**
+   * Returns the executor's runtime status.
+   */
+  getStatus(): ExecutorStatus {
+    return {
+      paused: this.paused,
+      syncing: this.syncing,
+      lastSyncMs: this.lastSyncMs,
+      lastError: this.lastError,
+      riskGuard: this.riskGuard.getStatus(),
+      portfolioScale: this.deps.followerState.getPortfolioScale(),
+      executions: this.scheduler.list(),
+      deferred: Array.from(this.deferred.values()),
+      restingOrders: Array.from(this.restingOrders.values()),
+      holds: Array.from(this.holds.values()),
+    };
+  }
+
+  /**
+   * Cancels running sliced or TWAP executions; called on shutdown.
+   */
+  async stop() {
+    await this.scheduler.cancelAll("shutdown");
+  }
+
+  /**
+   * Manually clears a tripped circuit breaker.
+   */
+  resetRiskGuard() {
+    this.riskGuard.reset();
+    metrics.circuitBreakerTripped.set({ follower: this.deps.followerId }, 0);
+    this.recordRiskGuardState();
+  }
+
+  /**
+   * Restores the circuit breaker from the last state in the event store, so a restart
+   * neither clears a trip nor forgets the equity marks. No-op without an event store.
+   */
+  async restoreRiskGuard() {
+    const events = (await this.deps.eventStore?.query({
+      types: ["riskGuardState"],
+      account: this.deps.followerAddress,
+      limit: 1,
+    })) ?? [];
+    const latest = events[0];
+    if (latest?.type !== "riskGuardState") {
+      return;
+    }
+    this.riskGuard.restore(latest.state);
+    this.recordedRiskGuardState = JSON.stringify(latest.state);
+    metrics.circuitBreakerTripped.set({ follower: this.deps.followerId }, latest.state.tripped ? 1 : 0);
+    this.log.info("Restored circuit breaker state", { ...latest.state });
+  }
+
+  /**
+   * Records the circuit breaker state in the event store when it changed since the last record.
+   */
+  private recordRiskGuardState() {
+    const state = this.riskGuard.getState();
+    const serialized = JSON.stringify(state);
+    if (!this.deps.eventStore || serialized === this.recordedRiskGuardState) {
+      return;
+    }
+    this.recordedRiskGuardState = serialized;
+    this.deps.eventStore.record({ type: "riskGuardState", account: this.deps.followerAddress, state });
+  }
+
+  /**
+   * Remembers the latest error for status reporting.
+   */
+  private recordError(error: unknown) {
+    this.lastError = {
+      message: error instanceof Error ? error.message : String(error),
+      timeMs: this.now(),
+    };
   }
 
   /**
@@ -94,18 +489,26 @@ export class TradeExecutor {
    *
    * Process:
    * 1. Refresh market metadata and mark prices
-   * 2. Compute target positions from leader state (scaled by copyRatio)
+   * 2. Compute target positions from each leader and net them into one blended book
    * 3. Compute deltas between follower current and target (with risk limits)
    * 4. Build and submit IOC limit orders for non-zero deltas
    *
-   * Prevents concurrent syncs by using a `syncing` flag.
+   * Prevents concurrent syncs by using a `syncing` flag. No-op while paused.
    */
   async syncWithLeader() {
+    const labels = { follower: this.deps.followerId };
+    if (this.paused) {
+      metrics.syncSkipped.inc({ ...labels, reason: "paused" });
+      this.log.debug("Trading paused, skipping sync");
+      return;
+    }
     if (this.syncing) {
+      metrics.syncSkipped.inc({ ...labels, reason: "in_progress" });
       this.log.debug("Trade sync already in progress");
       return;
     }
     this.syncing = true;
+    metrics.syncRuns.inc(labels);
     try {
       // Ensure market metadata is loaded and mark prices are current
       await this.deps.metadataService.ensureLoaded();
@@ -113,17 +516,16 @@ export class TradeExecutor {
 
       // CRITICAL: Fetch fresh follower state from exchange before calculating deltas
       // This prevents stale state causing "reduce only would increase position" errors
-      const followerState = await this.deps.infoClient.clearinghouseState({
-        user: this.deps.followerAddress,
-      });
-      this.deps.followerState.applyClearinghouseState(followerState);
-      this.log.debug("Refreshed follower state before sync");
+      await this.refreshFollowerState();
+      const followerMetrics = this.deps.followerState.getMetrics();
+      metrics.followerEquity.set(labels, followerMetrics.accountValueUsd);
+      metrics.followerGrossNotional.set(labels, followerMetrics.totalNotionalUsd);
 
-      // Compute leader's current leverage for each position
-      const targets = this.deps.leaderState.computeTargets(this.deps.metadataService);
+      // Compute each leader's current leverage and net them per coin by weight
+      const targets = blendTargets(this.deps.leaders, this.deps.metadataService);
       
       if (targets.length > 0) {
-        this.log.debug("Leader positions and leverage", {
+        this.log.debug("Blended leader positions and leverage", {
           positions: targets.map((t) => ({
             coin: t.coin,
             leverage: t.leaderLeverage.toFixed(2) + "x",
@@ -132,19 +534,82 @@ export class TradeExecutor {
         });
       }
 
-      // Compute deltas between current and target positions (scales leverage by copyRatio)
-      const deltas = this.deps.followerState.computeDeltas(targets, this.deps.risk);
+      if (this.risk.sizingStrategy === "volatilityTarget") {
+        await this.deps.volatilityService?.refresh(targets.map((target) => target.coin));
+      }
+
+      // Compute deltas between current and target positions with the follower's sizing strategy
+      let deltas = this.deps.followerState.computeDeltas(
+        targets,
+        this.risk,
+        this.deps.metadataService,
+        this.deps.volatilityService,
+      );
+      metrics.portfolioScale.set(labels, this.deps.followerState.getPortfolioScale());
+
+      // Circuit breaker: while tripped, only reduce exposure (or flatten everything if configured)
+      const tripped = this.riskGuard.update(followerMetrics.accountValueUsd, this.risk);
+      metrics.circuitBreakerTripped.set(labels, tripped ? 1 : 0);
+      this.recordRiskGuardState();
+      if (tripped) {
+        deltas = this.risk.flattenOnBreach
+          ? flattenDeltas(this.deps.followerState.getPositions())
+          : restrictToReducing(deltas);
+      }
+      this.recordPositionMetrics(deltas);
 
-      // Filter out dust deltas that are too small to trade
-      const actionable = deltas.filter((delta) => Math.abs(delta.deltaSize) > MIN_ABS_DELTA);
+      // Flips are split: the old side is closed reduce-only first, the new side is opened only
+      // once the follower is confirmed flat (a close too small to trade on its own stays one order)
+      const flipOpens = new Map<string, PositionDelta>();
+      const leaderChanged = this.changedLeaderSizes(targets);
+      // Coins whose orders did not all go through this sync; their leader size is not committed
+      const unsettled = new Set<string>();
+      const legs = deltas
+        .filter((delta) => Math.abs(delta.deltaSize) > MIN_ABS_DELTA)
+        // Price moves alone only rebalance beyond the drift band; leader trades always go through
+        .filter((delta) => {
+          const markPx = this.deps.metadataService.getMarkPrice(delta.coin) ?? delta.current?.entryPrice ?? 0;
+          if (tripped || leaderChanged.has(delta.coin) || !isWithinDriftBand(delta, markPx, this.risk)) {
+            return true;
+          }
+          this.log.debug(`Skipping ${delta.coin} within drift tolerance`, { deltaSize: delta.deltaSize, targetSize: delta.targetSize });
+          return false;
+        })
+        .map((delta) => {
+          const flip = splitFlip(delta);
+          const markPx = this.deps.metadataService.getMarkPrice(delta.coin) ?? delta.current?.entryPrice ?? 0;
+          if (!flip || Math.abs(flip.close.deltaSize) * markPx < MIN_ORDER_NOTIONAL_USD) {
+            return delta;
+          }
+          flipOpens.set(delta.coin, flip.open);
+          return flip.close;
+        });
 
-      if (actionable.length === 0) {
+      // Filter out dust deltas, then let running executions claim the coins they are still working
+      const actionable = await this.scheduler.reconcile(legs);
+      for (const coin of this.deferred.keys()) {
+        if (!actionable.some((delta) => delta.coin === coin)) {
+          this.recordDeferred(coin, 0, 0);
+        }
+      }
+      for (const coin of this.holds.keys()) {
+        if (coin !== ACCOUNT_HOLD && !actionable.some((delta) => delta.coin === coin)) {
+          this.holds.delete(coin);
+        }
+      }
+
+      if (actionable.length === 0 && flipOpens.size === 0) {
         this.log.debug("Follower already synchronized with leader");
+        this.commitLeaderSizes(targets, unsettled);
         return;
       }
 
       // Pre-filter tiny notionals to avoid minimum $10 exchange rejection
       const aboveMinNotional = actionable.filter((delta) => {
+        if (this.isHeld(delta)) {
+          unsettled.add(delta.coin);
+          return false;
+        }
         const markPx = this.deps.metadataService.getMarkPrice(delta.coin) ?? delta.current?.entryPrice;
         if (!markPx || markPx <= 0) {
           this.log.debug(`Skipping ${delta.coin} due to missing/invalid mark price`);
@@ -158,71 +623,671 @@ export class TradeExecutor {
         return true;
       });
 
-      if (aboveMinNotional.length === 0) {
+      // A flip whose close is held cannot open its new side either
+      for (const coin of flipOpens.keys()) {
+        if (this.holds.has(coin) || this.holds.has(ACCOUNT_HOLD)) {
+          flipOpens.delete(coin);
+          unsettled.add(coin);
+        }
+      }
+
+      if (aboveMinNotional.length === 0 && flipOpens.size === 0) {
         this.log.debug("No deltas above minimum notional threshold");
+        this.commitLeaderSizes(targets, unsettled);
         return;
       }
 
-      // Build orders for each actionable delta
-      const orders = aboveMinNotional
-        .map((delta) => this.buildOrder(delta))
-        // Filter out orders that round to zero size (too small to trade)
-        .filter((order) => {
-          const size = parseFloat(order.s);
-          if (size === 0 || !isFinite(size)) {
-            this.log.debug(`Skipping zero-size order for asset ${order.a}`);
-            return false;
+      // Make sure exchange leverage and margin mode allow the positions being opened or increased
+      await this.ensureLeverage(
+        [...aboveMinNotional, ...flipOpens.values()],
+        deltas,
+        targets,
+        followerMetrics.accountValueUsd,
+      );
+
+      const fitted = await this.dispatch(aboveMinNotional, tripped);
+
+      // Reduce first so the margin it frees is available to the opening orders
+      const reducing = fitted.filter((delta) => openingSize(delta) <= MIN_ABS_DELTA);
+      const opening = fitted.filter((delta) => openingSize(delta) > MIN_ABS_DELTA);
+      if (reducing.length > 0) {
+        const rejected = await this.submitPhase("reduce", reducing);
+        for (const delta of reducing) {
+          const open = flipOpens.get(delta.coin);
+          if (rejected.has(delta.coin)) {
+            unsettled.add(delta.coin);
+          } else if (open && delta.current) {
+            this.recordFlip(delta.coin, "close", delta.current.size, open.targetSize);
           }
-          return true;
-        });
-      
-      if (orders.length === 0) {
-        this.log.debug("No valid orders to submit after filtering");
-        return;
+        }
+        if (opening.length > 0 || flipOpens.size > 0) {
+          await this.refreshFollowerState();
+        }
       }
-      
-      this.log.info("Submitting follower sync orders", {
-        orders: orders.length,
-        coins: orders.map((o) => o.a),
-      });
-
-      // Submit all orders as a batch (no grouping)
-      try {
-        const response = await this.deps.exchangeClient.order({
-          orders,
-          grouping: "na",
-        });
-        
-        // Log successful fills and any errors
-        const statuses = response.response.data.statuses;
-        const filled = statuses.filter((s) => "filled" in s || "resting" in s);
-        const errors = statuses.filter((s) => "error" in s);
-        
-        if (filled.length > 0) {
-          this.log.info("Orders executed successfully", { count: filled.length });
+      const confirmedOpens = this.confirmFlipOpens([...flipOpens.values()]);
+      for (const coin of flipOpens.keys()) {
+        if (!confirmedOpens.some((open) => open.coin === coin)) {
+          unsettled.add(coin);
         }
-        if (errors.length > 0) {
-          this.log.warn("Some orders failed", {
-            errorCount: errors.length,
-            errors: errors.map((e) => "error" in e ? e.error : "unknown"),
-          });
+      }
+      opening.push(...(await this.dispatch(confirmedOpens, true)));
+      if (opening.length > 0) {
+        const sized = this.fitToMargin(opening);
+        for (const delta of opening) {
+          if (!sized.some((fit) => fit.coin === delta.coin && fit.deltaSize === delta.deltaSize)) {
+            unsettled.add(delta.coin);
+          }
         }
-      } catch (error: unknown) {
-        // Log the error but don't crash - margin errors are expected
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        if (errorMessage.includes("Insufficient margin")) {
-          this.log.warn("Order sync partially failed due to insufficient margin", { error: errorMessage });
-        } else {
-          this.log.error("Failed to synchronize follower with leader", { error });
+        for (const coin of await this.submitPhase("open", sized)) {
+          unsettled.add(coin);
         }
       }
+      // Remainders held back for book liquidity still have to be sent
+      for (const coin of this.deferred.keys()) {
+        unsettled.add(coin);
+      }
+      this.commitLeaderSizes(targets, unsettled);
     } catch (error) {
+      this.recordError(error);
       this.log.error("Trade sync error", { error });
     } finally {
+      this.lastSyncMs = this.now();
       this.syncing = false;
     }
   }
 
+  /**
+   * Returns the coins whose blended leader size changed since it was last committed (or that
+   * are new), i.e. where the leader traded rather than the price moved.
+   */
+  private changedLeaderSizes(targets: TargetPosition[]): Set<string> {
+    const changed = new Set<string>();
+    for (const target of targets) {
+      const previous = this.leaderSizes.get(target.coin);
+      if (previous === undefined || Math.abs(target.leaderSize - previous) > MIN_ABS_DELTA) {
+        changed.add(target.coin);
+      }
+    }
+    return changed;
+  }
+
+  /**
+   * Commits each coin's blended leader size once the sync has executed its orders, so a leader
+   * trade whose order failed, was held or was only partly sent still bypasses the drift band
+   * on the next sync. Coins the leaders no longer hold are forgotten.
+   *
+   * @param targets - Blended leader targets of this sync
+   * @param unsettled - Coins whose orders did not all go through; their previous size is kept
+   */
+  private commitLeaderSizes(targets: TargetPosition[], unsettled: ReadonlySet<string>) {
+    const coins = new Set(targets.map((target) => target.coin));
+    for (const coin of this.leaderSizes.keys()) {
+      if (!coins.has(coin)) {
+        this.leaderSizes.delete(coin);
+      }
+    }
+    for (const target of targets) {
+      if (!unsettled.has(target.coin)) {
+        this.leaderSizes.set(target.coin, target.leaderSize);
+      }
+    }
+  }
+
+  /**
+   * Hands large deltas (and non-urgent ones with maker-first) to the scheduler and fits the
+   * rest to the order book, recording any remainder held back for liquidity.
+   *
+   * @param deltas - Deltas to execute
+   * @param urgent - Treat every delta as urgent (circuit breaker, flip openings)
+   * @returns Deltas to send as IOC orders now
+   */
+  private async dispatch(deltas: PositionDelta[], urgent: boolean): Promise<PositionDelta[]> {
+    // Large deltas are worked over time, non-urgent ones may rest as maker orders; the rest go out as IOC
+    const immediate: PositionDelta[] = [];
+    for (const delta of deltas) {
+      const markPx = this.deps.metadataService.getMarkPrice(delta.coin) ?? delta.current?.entryPrice ?? 0;
+      const mode = this.scheduler.selectMode(Math.abs(delta.deltaSize) * markPx, urgent || isUrgentDelta(delta));
+      if (mode) {
+        await this.scheduler.start(delta, mode);
+      } else {
+        immediate.push(delta);
+      }
+    }
+
+    // Only send what the book can absorb within the slippage budget; later syncs retry the rest
+    const fits = await Promise.all(immediate.map((delta) => this.fitToBook(delta)));
+    return fits.flatMap(({ delta, fitted, deferredSize, markPrice }) => {
+      this.recordDeferred(delta.coin, deferredSize, deferredSize * markPrice);
+      return fitted ? [fitted] : [];
+    });
+  }
+
+  /**
+   * Keeps the opening legs of flips whose close left the follower flat. A close still being
+   * worked by the scheduler is waited for silently; one that did not fill is logged and
+   * recorded, and the next sync computes the flip again from the actual position.
+   */
+  private confirmFlipOpens(opens: PositionDelta[]): PositionDelta[] {
+    const positions = this.deps.followerState.getPositions();
+    return opens.filter((open) => {
+      if (this.scheduler.has(open.coin)) {
+        this.log.debug("Flip close still executing; opening leg waits", { coin: open.coin });
+        return false;
+      }
+      const remaining = positions.get(open.coin)?.size ?? 0;
+      if (Math.abs(remaining) > MIN_ABS_DELTA) {
+        this.recordFlip(open.coin, "openDeferred", remaining, open.targetSize);
+        return false;
+      }
+      this.recordFlip(open.coin, "open", 0, open.targetSize);
+      return true;
+    });
+  }
+
+  /**
+   * Logs a flip stage and records it in the event store.
+   */
+  private recordFlip(coin: string, stage: FlipEvent["stage"], fromSize: number, toSize: number) {
+    const details = { coin, stage, fromSize, toSize };
+    if (stage === "openDeferred") {
+      this.log.warn("Flip close not confirmed; opening leg left for a later sync", details);
+    } else {
+      this.log.info("Flipping follower position", details);
+    }
+    this.deps.eventStore?.record({ type: "flip", account: this.deps.followerAddress, ...details });
+  }
+
+  /**
+   * Fetches the follower's clearinghouse state and applies it to positions, margin and leverage settings.
+   */
+  private async refreshFollowerState() {
+    const followerState = await this.deps.infoClient.clearinghouseState({
+      user: this.deps.followerAddress,
+    });
+    this.deps.followerState.applyClearinghouseState(followerState);
+    this.leverageManager.syncFromPositions(this.deps.followerState.getPositions());
+    this.log.debug("Refreshed follower state");
+  }
+
+  /**
+   * Builds and submits one phase of a sync as a single batch, in the given order.
+   * Orders that round to zero size are skipped.
+   *
+   * @returns Coins whose order was rejected, or every coin of the batch if the request failed
+   */
+  private async submitPhase(phase: "reduce" | "open", deltas: PositionDelta[]): Promise<Set<string>> {
+    const entries = deltas
+      .map((delta) => ({ delta, order: this.buildOrder(delta) }))
+      // Filter out orders that round to zero size (too small to trade)
+      .filter(({ order }) => {
+        const size = parseFloat(order.s);
+        if (size === 0 || !isFinite(size)) {
+          this.log.debug(`Skipping zero-size order for asset ${order.a}`);
+          return false;
+        }
+        return true;
+      });
+
+    if (entries.length === 0) {
+      this.log.debug("No valid orders to submit after filtering", { phase });
+      return new Set();
+    }
+
+    this.log.info("Submitting follower sync orders", {
+      phase,
+      orders: entries.length,
+      coins: entries.map(({ order }) => order.a),
+    });
+
+    // Submit the phase as one batch (no grouping); the exchange processes it in order
+    this.recordFillToOrderLatency();
+    const statuses = await this.submitOrders(entries.map(({ order }) => order));
+    if (!statuses) {
+      return new Set(entries.map(({ delta }) => delta.coin));
+    }
+    const rejected = new Set<string>();
+    statuses.forEach((status, index) => {
+      const decoded = decodeOrderStatus(status);
+      const delta = entries[index]?.delta;
+      if (decoded.status === "error" && delta) {
+        rejected.add(delta.coin);
+        this.holdAfterRejection(delta.coin, delta.targetSize, decoded.kind, decoded.message);
+      }
+    });
+    return rejected;
+  }
+
+  /**
+   * Applies the error kind's policy to a rejected delta: nothing for plain retries, a
+   * cooldown for the coin or the whole account, or a skip until the coin's target changes.
+   */
+  private holdAfterRejection(rejectedCoin: string, targetSize: number, kind: OrderErrorKind, message: string) {
+    const policy = ORDER_ERROR_POLICIES[kind];
+    if (policy.retry && policy.cooldownMs === 0) {
+      return;
+    }
+    const coin = policy.accountWide ? ACCOUNT_HOLD : rejectedCoin;
+    const untilMs = policy.retry ? this.now() + policy.cooldownMs : null;
+    this.holds.set(coin, { coin, kind, message, untilMs, targetSize });
+    this.log.warn("Holding orders after rejection", { coin, kind, untilMs, targetSize });
+  }
+
+  /**
+   * Returns true while an account-wide or coin hold blocks the delta, dropping holds that expired
+   * or whose coin target has changed since the rejection.
+   */
+  private isHeld(delta: PositionDelta): boolean {
+    for (const key of [ACCOUNT_HOLD, delta.coin]) {
+      const hold = this.holds.get(key);
+      if (!hold) {
+        continue;
+      }
+      const released =
+        hold.untilMs === null
+          ? Math.abs(hold.targetSize - delta.targetSize) > MIN_ABS_DELTA
+          : this.now() >= hold.untilMs;
+      if (released) {
+        this.holds.delete(key);
+        continue;
+      }
+      this.log.debug("Skipping held coin", { coin: delta.coin, hold: hold.kind });
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Orders opening deltas by target gap (largest notional first) and scales them down to the
+   * follower's free margin, which is spent in that order. The exposure-adding part of each order
+   * is charged at the coin's leverage setting (1x if unknown); a flip too small to split that
+   * cannot afford its new side is sent as a plain close.
+   *
+   * @returns Deltas to submit, in priority order
+   */
+  private fitToMargin(deltas: PositionDelta[]): PositionDelta[] {
+    const { metadataService, followerState } = this.deps;
+    const { accountValueUsd, totalMarginUsedUsd } = followerState.getMetrics();
+    const freeMarginUsd = Math.max(0, accountValueUsd - totalMarginUsedUsd) * OPEN_MARGIN_USAGE;
+
+    const ranked = deltas
+      .map((delta) => {
+        const markPrice = metadataService.getMarkPrice(delta.coin) ?? delta.current?.entryPrice ?? 0;
+        const gapUsd = Math.abs(delta.targetSize - (delta.current?.size ?? 0)) * markPrice;
+        return { delta, markPrice, gapUsd };
+      })
+      .sort((a, b) => b.gapUsd - a.gapUsd);
+
+    let availableUsd = freeMarginUsd;
+    const scaled: Array<{ coin: string; requestedSize: number; size: number }> = [];
+    const result: PositionDelta[] = [];
+    for (const { delta, markPrice } of ranked) {
+      const openingNotional = openingSize(delta) * markPrice;
+      const requiredUsd = openingNotional / (this.leverageManager.getLeverage(delta.coin) ?? 1);
+      let factor = requiredUsd <= availableUsd ? 1 : safeDivide(availableUsd, requiredUsd, 0);
+      if (factor < 1 && factor * openingNotional < MIN_ORDER_NOTIONAL_USD) {
+        factor = 0;
+      }
+      availableUsd = Math.max(0, availableUsd - requiredUsd * factor);
+
+      const sized = factor < 1 ? scaleOpening(delta, factor) : delta;
+      if (sized !== delta) {
+        scaled.push({ coin: delta.coin, requestedSize: Math.abs(delta.deltaSize), size: Math.abs(sized.deltaSize) });
+      }
+      if (Math.abs(sized.deltaSize) * markPrice >= MIN_ORDER_NOTIONAL_USD) {
+        result.push(sized);
+      }
+    }
+
+    if (scaled.length > 0) {
+      this.log.warn("Scaled opening orders to available margin", { freeMarginUsd, scaled });
+    }
+    return result;
+  }
+
+  /**
+   * Submits an order batch, recording metrics and the event store entry.
+   * Failures are logged and remembered as the last error, never thrown.
+   *
+   * @returns Per-order statuses, or undefined if the exchange returned none
+   */
+  private async submitOrders(orders: FollowerOrder[]): Promise<readonly OrderStatus[] | undefined> {
+    const labels = { follower: this.deps.followerId };
+    metrics.ordersSubmitted.inc(labels, orders.length);
+    try {
+      const response = await this.deps.exchangeClient.order({
+        orders,
+        grouping: "na",
+      });
+
+      // Log successful fills and any errors
+      const statuses = response.response.data.statuses;
+      this.recordOrderMetrics(statuses);
+      this.applyOrderStatuses(orders, statuses);
+      this.deps.eventStore?.record({
+        type: "orderBatch",
+        account: this.deps.followerAddress,
+        orders: toStoredStatuses(orders, statuses),
+      });
+      const filled = statuses.filter((s) => "filled" in s || "resting" in s);
+      if (filled.length > 0) {
+        this.log.info("Orders executed successfully", { count: filled.length });
+      }
+      return statuses;
+    } catch (error: unknown) {
+      // Log the error but don't crash - margin errors are expected
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.recordError(error);
+      const statuses = statusesFromError(error);
+      const kind = classifyOrderError(errorMessage);
+      if (statuses) {
+        this.recordOrderMetrics(statuses);
+        this.applyOrderStatuses(orders, statuses);
+      } else {
+        metrics.ordersRejected.inc({ ...labels, reason: kind }, orders.length);
+        if (ORDER_ERROR_POLICIES[kind].accountWide) {
+          // A request-level rejection such as a rate limit holds every order, not one coin
+          this.holdAfterRejection(ACCOUNT_HOLD, 0, kind, errorMessage);
+        }
+      }
+      this.deps.eventStore?.record({
+        type: "orderBatch",
+        account: this.deps.followerAddress,
+        orders: toStoredStatuses(orders, statuses),
+        error: errorMessage,
+      });
+      if (kind === "insufficient_margin") {
+        this.log.warn("Order sync partially failed due to insufficient margin", { error: errorMessage });
+      } else if (kind === "post_only") {
+        this.log.debug("Maker order would have crossed the book", { error: errorMessage });
+      } else {
+        this.log.error("Failed to synchronize follower with leader", { error });
+      }
+      return statuses;
+    }
+  }
+
+  /**
+   * Applies filled orders to follower state, starts tracking resting ones and logs rejections by kind.
+   */
+  private applyOrderStatuses(orders: FollowerOrder[], statuses: readonly OrderStatus[]) {
+    const errors: Array<{ coin: string; kind: OrderErrorKind; message: string }> = [];
+    statuses.forEach((status, index) => {
+      const order = orders[index];
+      const coin = order ? this.deps.metadataService.getByAssetId(order.a)?.coin : undefined;
+      if (!order || !coin) {
+        return;
+      }
+      const decoded = decodeOrderStatus(status);
+      if (decoded.status === "filled") {
+        this.deps.followerState.applyOrderFill(coin, order.b, decoded.filledSize, decoded.avgPrice);
+      } else if (decoded.status === "resting") {
+        this.restingOrders.set(decoded.oid, {
+          oid: decoded.oid,
+          coin,
+          isBuy: order.b,
+          price: Number(order.p),
+          size: Number(order.s),
+          filledSize: 0,
+          sinceMs: this.now(),
+        });
+      } else {
+        errors.push({ coin, kind: decoded.kind, message: decoded.message });
+      }
+    });
+    if (errors.length > 0) {
+      this.log.warn("Some orders failed", { errorCount: errors.length, errors });
+    }
+  }
+
+  /**
+   * Sends one child order of a sliced execution at a freshly refreshed mark price.
+   * @returns Absolute filled size (0 if nothing filled)
+   */
+  private async placeSlice(delta: PositionDelta): Promise<number> {
+    await this.deps.metadataService.refreshMarkPrices();
+    const { fitted } = await this.fitToBook(delta);
+    if (!fitted) {
+      return 0;
+    }
+    const order = this.buildOrder(fitted);
+    if (parseFloat(order.s) === 0) {
+      return 0;
+    }
+    const status = (await this.submitOrders([order]))?.[0];
+    return status && "filled" in status ? Number(status.filled.totalSz) : 0;
+  }
+
+  /**
+   * Places a Hyperliquid native TWAP order for a delta.
+   * @returns TWAP id
+   * @throws {hl.ApiRequestError} If the exchange rejects the order
+   */
+  private async placeTwap(delta: PositionDelta, minutes: number, randomize: boolean): Promise<number> {
+    const metadata = this.deps.metadataService.requireByCoin(delta.coin);
+    metrics.ordersSubmitted.inc({ follower: this.deps.followerId });
+    const response = await this.deps.exchangeClient.twapOrder({
+      twap: {
+        a: metadata.assetId,
+        b: delta.deltaSize > 0,
+        s: formatSize(Math.abs(delta.deltaSize), metadata),
+        r: isReduceOnlyDelta(delta),
+        m: minutes,
+        t: randomize,
+      },
+    });
+    return response.response.data.status.running.twapId;
+  }
+
+  /**
+   * Cancels a running native TWAP order.
+   */
+  private async cancelTwap(coin: string, twapId: number) {
+    const metadata = this.deps.metadataService.requireByCoin(coin);
+    await this.deps.exchangeClient.twapCancel({ a: metadata.assetId, t: twapId });
+  }
+
+  /**
+   * Fetches the L2 book's bid and ask levels, best first.
+   */
+  private async fetchBookLevels(coin: string) {
+    const book = await this.deps.infoClient.l2Book({ coin });
+    return book?.levels ?? [[], []];
+  }
+
+  /**
+   * Shrinks a delta to the size the order book can fill within `maxSlippageBps` of mark.
+   * If the book cannot be read the delta is returned unchanged and the IOC limit price
+   * remains the only protection.
+   *
+   */
+  private async fitToBook(delta: PositionDelta): Promise<BookFit> {
+    const markPrice = this.deps.metadataService.getMarkPrice(delta.coin) ?? delta.current?.entryPrice ?? 0;
+    const unchanged: BookFit = { delta, fitted: delta, deferredSize: 0, markPrice };
+    if (!this.deps.execution.liquidityGuard || markPrice <= 0) {
+      return unchanged;
+    }
+
+    const isBuy = delta.deltaSize > 0;
+    const size = Math.abs(delta.deltaSize);
+    const levels = await this.fetchBookLevels(delta.coin).catch((error: unknown) => {
+      this.log.warn("Failed to fetch order book; sending order without liquidity check", {
+        coin: delta.coin,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    });
+    if (!levels) {
+      return unchanged;
+    }
+    const side = (isBuy ? levels[1] : levels[0]).map((level) => ({ px: Number(level.px), sz: Number(level.sz) }));
+    const estimate = estimateFill(side, isBuy, size, markPrice, this.risk.maxSlippageBps);
+    if (estimate.size >= size - MIN_ABS_DELTA) {
+      return unchanged;
+    }
+
+    const deferredSize = size - estimate.size;
+    this.log.info("Reduced order to fit order book liquidity", {
+      coin: delta.coin,
+      requestedSize: size,
+      fillableSize: estimate.size,
+      estimatedAvgPrice: estimate.avgPrice,
+      markPrice,
+      maxSlippageBps: this.risk.maxSlippageBps,
+    });
+    if (estimate.size * markPrice < MIN_ORDER_NOTIONAL_USD) {
+      return { delta, fitted: null, deferredSize: size, markPrice };
+    }
+    const fitted: PositionDelta = { ...delta, deltaSize: Math.sign(delta.deltaSize) * estimate.size };
+    return { delta, fitted, deferredSize, markPrice };
+  }
+
+  /**
+   * Records (or clears, when `size` is 0) the remainder of a coin's delta held back for liquidity.
+   */
+  private recordDeferred(coin: string, size: number, notionalUsd: number) {
+    const labels = { follower: this.deps.followerId, coin };
+    if (size <= MIN_ABS_DELTA) {
+      this.deferred.delete(coin);
+      metrics.liquidityDeferred.removeWhere(labels);
+      return;
+    }
+    const sinceMs = this.deferred.get(coin)?.sinceMs ?? this.now();
+    this.deferred.set(coin, { coin, size, notionalUsd, sinceMs });
+    metrics.liquidityDeferred.set(labels, notionalUsd);
+  }
+
+  /**
+   * Reads the best bid and ask from the L2 book.
+   */
+  private async getTouch(coin: string): Promise<BookTouch | undefined> {
+    const [bids, asks] = await this.fetchBookLevels(coin);
+    const bid = bids[0]?.px;
+    const ask = asks[0]?.px;
+    return bid && ask ? { bid, ask } : undefined;
+  }
+
+  /**
+   * Posts a post-only order for a maker execution.
+   * @returns Oid of the resting order, or the exchange error
+   */
+  private async postMaker(delta: PositionDelta, price: string): Promise<{ oid: number } | { error: string }> {
+    const status = (await this.submitOrders([this.buildMakerOrder(delta, price)]))?.[0];
+    if (status && "resting" in status) {
+      return { oid: status.resting.oid };
+    }
+    if (status && "error" in status) {
+      return { error: status.error };
+    }
+    return { error: this.lastError?.message ?? "Maker order was not placed" };
+  }
+
+  /**
+   * Reads the filled size of a follower order from its original and remaining size.
+   * New fills of a tracked resting order are applied to follower state at its limit price,
+   * and the order stops being tracked once it is no longer open.
+   */
+  private async getOrderFill(oid: number): Promise<RestingOrderFill> {
+    const response = await this.deps.infoClient.orderStatus({ user: this.deps.followerAddress, oid });
+    const tracked = this.restingOrders.get(oid);
+    if (response.status === "unknownOid") {
+      this.restingOrders.delete(oid);
+      return { filledSize: 0, open: false };
+    }
+    const { order, status } = response.order;
+    const fill = { filledSize: Number(order.origSz) - Number(order.sz), open: status === "open" };
+    if (tracked && fill.filledSize > tracked.filledSize) {
+      this.deps.followerState.applyOrderFill(tracked.coin, tracked.isBuy, fill.filledSize - tracked.filledSize, tracked.price);
+      tracked.filledSize = fill.filledSize;
+    }
+    if (!fill.open) {
+      this.restingOrders.delete(oid);
+    }
+    return fill;
+  }
+
+  /**
+   * Cancels a resting follower order.
+   */
+  private async cancelOrder(coin: string, oid: number) {
+    const metadata = this.deps.metadataService.requireByCoin(coin);
+    await this.deps.exchangeClient.cancel({ cancels: [{ a: metadata.assetId, o: oid }] });
+  }
+
+  /**
+   * Sets exchange leverage for every delta that adds exposure, in the leader's margin mode.
+   *
+   * The required leverage is the gross leverage of the whole target book rather than the
+   * coin's own share: if every position's setting is at least the gross leverage, their
+   * combined initial margin fits within follower equity.
+   *
+   * @param orderDeltas - Deltas about to be sent as orders
+   * @param allDeltas - Full target book from `computeDeltas`
+   * @param targets - Blended leader targets carrying margin modes
+   * @param followerEquity - Follower account value
+   */
+  private async ensureLeverage(
+    orderDeltas: PositionDelta[],
+    allDeltas: PositionDelta[],
+    targets: TargetPosition[],
+    followerEquity: number,
+  ) {
+    if (followerEquity <= 0) {
+      return;
+    }
+    const targetNotional = (delta: PositionDelta) => {
+      const markPrice = this.deps.metadataService.getMarkPrice(delta.coin) ?? delta.current?.entryPrice ?? 0;
+      return Math.abs(delta.targetSize) * markPrice;
+    };
+    const grossNotional = allDeltas.reduce((sum, delta) => sum + targetNotional(delta), 0);
+    const requiredLeverage = grossNotional / followerEquity;
+    const marginModes = new Map(targets.map((target) => [target.coin, target.marginMode]));
+
+    for (const delta of orderDeltas) {
+      if (!isReduceOnlyDelta(delta)) {
+        await this.leverageManager.ensure(delta.coin, requiredLeverage, marginModes.get(delta.coin), targetNotional(delta));
+      }
+    }
+  }
+
+  /**
+   * Publishes per-coin target and actual sizes, replacing coins from the previous sync.
+   */
+  private recordPositionMetrics(deltas: PositionDelta[]) {
+    const labels = { follower: this.deps.followerId };
+    metrics.targetSize.removeWhere(labels);
+    metrics.actualSize.removeWhere(labels);
+    for (const delta of deltas) {
+      metrics.targetSize.set({ ...labels, coin: delta.coin }, delta.targetSize);
+      metrics.actualSize.set({ ...labels, coin: delta.coin }, delta.current?.size ?? 0);
+    }
+  }
+
+  /**
+   * Counts filled and rejected orders from a batch's per-order statuses.
+   */
+  private recordOrderMetrics(statuses: readonly OrderStatus[]) {
+    const labels = { follower: this.deps.followerId };
+    for (const status of statuses) {
+      if ("filled" in status) {
+        metrics.ordersFilled.inc(labels);
+      } else if ("error" in status) {
+        metrics.ordersRejected.inc({ ...labels, reason: classifyOrderError(status.error) });
+      }
+    }
+  }
+
+  /**
+   * Observes the delay since the newest leader fill, once per fill, when orders go out.
+   */
+  private recordFillToOrderLatency() {
+    const lastFillMs = Math.max(0, ...this.deps.leaders.map((leader) => leader.state.getLastFillTimeMs()));
+    if (lastFillMs <= this.lastLatencyFillMs) {
+      return;
+    }
+    this.lastLatencyFillMs = lastFillMs;
+    metrics.fillToOrderLatency.observe({ follower: this.deps.followerId }, Math.max(0, this.now() - lastFillMs) / 1000);
+  }
+
   /**
    * Builds a Hyperliquid order from a position delta.
    *
@@ -236,7 +1301,8 @@ export class TradeExecutor {
    * @returns Hyperliquid order object
    */
   private buildOrder(delta: PositionDelta) {
-    const { risk, metadataService } = this.deps;
+    const { metadataService } = this.deps;
+    const risk = this.risk;
     const metadata = metadataService.requireByCoin(delta.coin);
 
     // Use mark price, fallback to current entry price
@@ -248,45 +1314,20 @@ export class TradeExecutor {
 
     const sideIsBuy = delta.deltaSize > 0;
 
-    // Convert slippage from basis points to decimal (e.g., 25 bps = 0.0025)
-    const slippage = risk.maxSlippageBps / 10_000;
-
-    // Adjust price for slippage: higher for buys (worse fill), lower for sells
-    const priceMultiplier = sideIsBuy ? 1 + slippage : 1 - slippage;
-
-    // Clamp price to reasonable bounds (10% to 1000% of mark price)
-    const price = clamp(markPrice * priceMultiplier, markPrice * 0.1, markPrice * 10);
+    // Adjust price for slippage and clamp to reasonable bounds
+    const price = slippageLimitPrice(markPrice, sideIsBuy, risk.maxSlippageBps);
 
     const size = Math.abs(delta.deltaSize);
 
     // Determine if this order should be reduce-only
-    const reduceOnly = (() => {
-      if (!delta.current) {
-        // Opening a new position, not reduce-only
-        return false;
-      }
-      const currentSize = delta.current.size;
-      const targetSize = delta.targetSize;
-
-      // If target is zero (or dust), we're closing the position
-      if (Math.abs(targetSize) < MIN_ABS_DELTA) {
-        return true;
-      }
-
-      // If position direction stays the same but size decreases, it's a reduction
-      const sameDirection = Math.sign(currentSize) === Math.sign(targetSize);
-      return sameDirection && Math.abs(targetSize) < Math.abs(currentSize);
-    })();
-
-    // Round price to match mark price precision (Hyperliquid's tick size)
-    const priceStr = roundToMarkPricePrecision(price, markPrice);
+    const reduceOnly = isReduceOnlyDelta(delta);
 
     // Build Hyperliquid order object
     return {
       a: metadata.assetId, // asset
       b: sideIsBuy, // is buy
-      p: priceStr, // price
-      s: size.toFixed(metadata.sizeDecimals), // size
+      p: formatPrice(price, metadata), // price (5 significant figures, MAX_DECIMALS - szDecimals)
+      s: formatSize(size, metadata), // size
       r: reduceOnly, // reduce-only flag
       t: {
         limit: {
@@ -296,4 +1337,23 @@ export class TradeExecutor {
       c: `0x${randomUUID().replace(/-/g, "").slice(0, 32)}`, // client order ID
     };
   }
+
+  /**
+   * Builds a post-only (`Alo`) limit order at a given book price; otherwise like `buildOrder`.
+   *
+   * @param delta - Position delta to execute
+   * @param price - Limit price taken from the order book
+   * @returns Hyperliquid order object
+   */
+  private buildMakerOrder(delta: PositionDelta, price: string) {
+    return {
+      ...this.buildOrder(delta),
+      p: price,
+      t: {
+        limit: {
+          tif: "Alo" as const, // Add-Liquidity-Only (post-only)
+        },
+      },
+    };
+  }
 }
@@ -0,0 +1,343 @@
+/**
+ * Mirroring of leader take-profit / stop-loss trigger orders onto followers.
+ *
+ * The agent otherwise only reacts to leader fills, so a follower would have no protection
+ * until a leader stop actually fills. On a fixed interval this service reads every leader's
+ * open orders, keeps the reduce-only TP/SL triggers on positions the follower shares, and
+ * scales each one to the part of the follower position it covers. Follower orders are then
+ * placed, modified or cancelled to match.
+ *
+ * Mirrored orders carry a client order id derived from the leader account and order id, so
+ * they are recognised in the follower's open orders after a restart and never duplicated.
+ */
+
+import { createHash } from "node:crypto";
+import type * as hl from "@nktkas/hyperliquid";
+import type { FollowerExchangeClient } from "../clients/hyperliquid.js";
+import type { RiskConfig } from "../config/index.js";
+import { isCoinTradable, type FollowerState } from "../domain/followerState.js";
+import { blendTargets, type TargetPosition, type WeightedLeader } from "../domain/leaderState.js";
+import { formatPrice, formatSize } from "../utils/format.js";
+import { logger, type Logger } from "../utils/logger.js";
+import { metrics } from "../utils/metrics.js";
+import type { MarketMetadataService } from "./marketMetadata.js";
+import { MIN_ABS_DELTA, MIN_ORDER_NOTIONAL_USD } from "./tradeExecutor.js";
+
+/** Open order with trigger details as returned by `frontendOpenOrders` */
+type FrontendOrder = Awaited<ReturnType<hl.InfoClient["frontendOpenOrders"]>>[number];
+
+/** Leader order types that are mirrored */
+const TRIGGER_ORDER_TYPES = new Set(["Stop Market", "Stop Limit", "Take Profit Market", "Take Profit Limit"]);
+
+/** First bytes of every mirrored order's client order id ("tpsl") */
+const MIRROR_CLOID_PREFIX = "0x7470736c";
+
+/**
+ * A follower account whose trigger orders are kept in line with the leaders'.
+ */
+export interface TriggerMirrorFollower {
+  /** Follower identifier, used as the `follower` metrics label */
+  id: string;
+  /** Follower trading address (wallet or vault) */
+  address: `0x${string}`;
+  /** Follower state store holding its positions */
+  state: FollowerState;
+  /** Exchange client signing the follower's orders */
+  exchangeClient: FollowerExchangeClient;
+  /** Current follower risk configuration (allow/deny lists) */
+  getRisk(): RiskConfig;
+}
+
+/**
+ * Trigger order the follower should have resting.
+ */
+interface DesiredTrigger {
+  coin: string;
+  cloid: `0x${string}`;
+  isBuy: boolean;
+  size: string;
+  triggerPx: string;
+  limitPx: string;
+  isMarket: boolean;
+  tpsl: "tp" | "sl";
+}
+
+/**
+ * Returns the client order id marking the follower copy of a leader order.
+ */
+export function mirrorCloid(leaderAddress: string, leaderOid: number): `0x${string}` {
+  const digest = createHash("sha256").update(`${leaderAddress.toLowerCase()}:${leaderOid}`).digest("hex");
+  // 4 prefix bytes + 12 digest bytes = the 16 bytes of a client order id
+  return `${MIRROR_CLOID_PREFIX}${digest.slice(0, 24)}`;
+}
+
+/**
+ * Returns true if a leader order is a reduce-only take-profit or stop-loss trigger.
+ */
+function isMirroredTrigger(order: FrontendOrder): boolean {
+  return order.isTrigger && order.reduceOnly && TRIGGER_ORDER_TYPES.has(order.orderType);
+}
+
+/**
+ * Returns a target's leverage signed by its direction, optionally weighted.
+ */
+function signedLeverage(target: TargetPosition, weight = 1): number {
+  return weight * target.direction * target.leaderLeverage;
+}
+
+/**
+ * Returns true if a resting follower order already matches the desired trigger.
+ */
+function matches(order: FrontendOrder, trigger: DesiredTrigger): boolean {
+  return (
+    (order.side === "B") === trigger.isBuy &&
+    Number(order.sz) === Number(trigger.size) &&
+    Number(order.triggerPx) === Number(trigger.triggerPx) &&
+    Number(order.limitPx) === Number(trigger.limitPx) &&
+    order.orderType.endsWith("Market") === trigger.isMarket &&
+    order.orderType.startsWith("Take Profit") === (trigger.tpsl === "tp")
+  );
+}
+
+/**
+ * Periodically mirrors leader TP/SL trigger orders onto every follower.
+ */
+export class TriggerOrderMirror {
+  private intervalHandle: NodeJS.Timeout | null = null;
+  private running: Promise<void> | null = null;
+
+  /**
+   * @param infoClient - Info client for leader and follower open orders
+   * @param leaders - Leaders with their signed weights
+   * @param followers - Followers to mirror onto
+   * @param metadataService - Asset ids and size decimals
+   * @param intervalMs - Delay between mirroring passes
+   * @param log - Logger instance
+   */
+  constructor(
+    private readonly infoClient: hl.InfoClient,
+    private readonly leaders: readonly WeightedLeader[],
+    private readonly followers: readonly TriggerMirrorFollower[],
+    private readonly metadataService: MarketMetadataService,
+    private readonly intervalMs: number,
+    private readonly log: Logger = logger,
+  ) {}
+
+  /**
+   * Runs one mirroring pass: fetches leader trigger orders once and brings each follower's
+   * mirrored orders in line. A pass already in progress is joined instead of overlapped.
+   */
+  async syncOnce() {
+    this.running ??= this.sync().finally(() => {
+      this.running = null;
+    });
+    await this.running;
+  }
+
+  private async sync() {
+    await this.metadataService.ensureLoaded();
+    const leaderOrders = await Promise.all(
+      this.leaders.map(async (leader) => ({
+        leader,
+        orders: (await this.infoClient.frontendOpenOrders({ user: leader.address })).filter(isMirroredTrigger),
+      })),
+    );
+    await Promise.all(
+      this.followers.map((follower) =>
+        this.syncFollower(follower, leaderOrders).catch((error) => {
+          this.log.error("Trigger order mirroring failed", { follower: follower.id, error });
+        }),
+      ),
+    );
+  }
+
+  /**
+   * Places, modifies and cancels one follower's mirrored orders to match the leaders'.
+   */
+  private async syncFollower(
+    follower: TriggerMirrorFollower,
+    leaderOrders: ReadonlyArray<{ leader: WeightedLeader; orders: FrontendOrder[] }>,
+  ) {
+    const desired = this.desiredTriggers(follower, leaderOrders);
+    const existing = new Map(
+      (await this.infoClient.frontendOpenOrders({ user: follower.address }))
+        .filter((order) => order.cloid?.startsWith(MIRROR_CLOID_PREFIX))
+        .map((order) => [order.cloid as `0x${string}`, order]),
+    );
+
+    const toPlace = [...desired.values()].filter((trigger) => !existing.has(trigger.cloid));
+    const toModify = [...desired.values()].flatMap((trigger) => {
+      const current = existing.get(trigger.cloid);
+      return current && !matches(current, trigger) ? [{ oid: current.oid, trigger }] : [];
+    });
+    const toCancel = [...existing.values()].filter((order) => !desired.has(order.cloid as `0x${string}`));
+
+    if (toCancel.length > 0) {
+      await this.submit(follower, "cancel", toCancel.length, () =>
+        follower.exchangeClient.cancel({
+          cancels: toCancel.map((order) => ({ a: this.metadataService.requireByCoin(order.coin).assetId, o: order.oid })),
+        }),
+      );
+    }
+    if (toModify.length > 0) {
+      await this.submit(follower, "modify", toModify.length, () =>
+        follower.exchangeClient.batchModify({
+          modifies: toModify.map(({ oid, trigger }) => ({ oid, order: this.buildOrder(trigger) })),
+        }),
+      );
+    }
+    if (toPlace.length > 0) {
+      await this.submit(follower, "place", toPlace.length, () =>
+        follower.exchangeClient.order({ orders: toPlace.map((trigger) => this.buildOrder(trigger)), grouping: "na" }),
+      );
+    }
+    metrics.mirroredTriggerOrders.set({ follower: follower.id }, desired.size);
+  }
+
+  /**
+   * Scales the leaders' trigger orders to the follower's positions.
+   *
+   * The blended side of a coin comes from `blendTargets`, as in the executor. A leader's share
+   * of the blended position is its weighted leverage over the net leverage; its orders are
+   * mirrored onto the same share of the follower position, capped at the whole position.
+   * Orders are skipped when the leader or the follower is not on the blended side (e.g.
+   * inverse copying), for negatively weighted leaders (whose orders close the opposite side),
+   * when the coin may not be traded, or when the mirrored order would be below the minimum
+   * notional.
+   */
+  private desiredTriggers(
+    follower: TriggerMirrorFollower,
+    leaderOrders: ReadonlyArray<{ leader: WeightedLeader; orders: FrontendOrder[] }>,
+  ): Map<`0x${string}`, DesiredTrigger> {
+    const risk = follower.getRisk();
+    const blended = new Map(blendTargets(this.leaders, this.metadataService).map((target) => [target.coin, target]));
+    const leaderTargets = new Map(
+      this.leaders.map((leader) => [
+        leader,
+        new Map(leader.state.computeTargets(this.metadataService).map((target) => [target.coin, target])),
+      ]),
+    );
+
+    const desired = new Map<`0x${string}`, DesiredTrigger>();
+    for (const { leader, orders } of leaderOrders) {
+      for (const order of orders) {
+        const target = blended.get(order.coin);
+        const leaderTarget = leaderTargets.get(leader)?.get(order.coin);
+        const followerSize = follower.state.getPosition(order.coin)?.size ?? 0;
+        const metadata = this.metadataService.getByCoin(order.coin);
+        if (
+          !metadata ||
+          !target ||
+          !leaderTarget ||
+          leader.weight < 0 ||
+          !isCoinTradable(risk, order.coin) ||
+          Math.abs(leaderTarget.leaderSize) < MIN_ABS_DELTA ||
+          Math.abs(followerSize) < MIN_ABS_DELTA ||
+          Math.sign(followerSize) !== target.direction
+        ) {
+          continue;
+        }
+        const share = signedLeverage(leaderTarget, leader.weight) / signedLeverage(target);
+        if (!(share > 0)) {
+          continue;
+        }
+
+        // Position TP/SL orders have no size of their own and close the whole position
+        const leaderSize = Math.abs(leaderTarget.leaderSize);
+        const leaderOrderSize = order.isPositionTpsl || Number(order.sz) <= 0 ? leaderSize : Number(order.sz);
+        const size = Math.min(1, (leaderOrderSize / leaderSize) * share) * Math.abs(followerSize);
+        const triggerPx = Number(order.triggerPx);
+        if (size * triggerPx < MIN_ORDER_NOTIONAL_USD) {
+          continue;
+        }
+        const cloid = mirrorCloid(leader.address, order.oid);
+        desired.set(cloid, {
+          coin: order.coin,
+          cloid,
+          isBuy: order.side === "B",
+          size: formatSize(size, metadata),
+          triggerPx: formatPrice(triggerPx, metadata),
+          limitPx: formatPrice(Number(order.limitPx) || triggerPx, metadata),
+          isMarket: order.orderType.endsWith("Market"),
+          tpsl: order.orderType.startsWith("Take Profit") ? "tp" : "sl",
+        });
+      }
+    }
+    return desired;
+  }
+
+  /**
+   * Builds the exchange order for a mirrored trigger.
+   */
+  private buildOrder(trigger: DesiredTrigger) {
+    return {
+      a: this.metadataService.requireByCoin(trigger.coin).assetId,
+      b: trigger.isBuy,
+      p: trigger.limitPx,
+      s: trigger.size,
+      r: true,
+      t: { trigger: { isMarket: trigger.isMarket, triggerPx: trigger.triggerPx, tpsl: trigger.tpsl } },
+      c: trigger.cloid,
+    };
+  }
+
+  /**
+   * Sends one exchange request, logging the outcome; failures are logged, never thrown,
+   * so the next pass retries them.
+   */
+  private async submit(follower: TriggerMirrorFollower, action: "place" | "modify" | "cancel", count: number, send: () => Promise<unknown>) {
+    try {
+      await send();
+      this.log.info(`Mirrored leader trigger orders (${action})`, { follower: follower.id, count });
+    } catch (error) {
+      this.log.warn(`Failed to ${action} mirrored trigger orders`, {
+        follower: follower.id,
+        count,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Starts the periodic mirroring loop.
+   * No-op if already running.
+   */
+  start() {
+    if (this.intervalHandle) {
+      return;
+    }
+
+    this.log.info("Starting trigger order mirroring", { intervalMs: this.intervalMs });
+    const inverseFollowers = this.followers.filter((follower) => follower.getRisk().inverse).map((follower) => follower.id);
+    if (inverseFollowers.length > 0) {
+      this.log.warn("Trigger orders are not mirrored for inverse-copying followers", { followers: inverseFollowers });
+    }
+    const inverseLeaders = this.leaders.filter((leader) => leader.weight < 0).map((leader) => leader.address);
+    if (inverseLeaders.length > 0) {
+      this.log.warn("Trigger orders of negatively weighted leaders are not mirrored", { leaders: inverseLeaders });
+    }
+
+    const tick = async () => {
+      try {
+        await this.syncOnce();
+      } catch (error) {
+        this.log.error("Trigger order mirroring loop error", { error });
+      }
+    };
+
+    void tick();
+    this.intervalHandle = setInterval(tick, this.intervalMs);
+  }
+
+  /**
+   * Stops the periodic mirroring loop.
+   * No-op if not running.
+   */
+  stop() {
+    if (!this.intervalHandle) {
+      return;
+    }
+    clearInterval(this.intervalHandle);
+    this.intervalHandle = null;
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Realized volatility estimates from candle data, for volatility-targeted sizing.
+ *
+ * Each coin's estimate is the standard deviation of log returns between candle closes over
+ * the lookback window, scaled to one day. Estimates are cached per coin and refetched once
+ * older than the refresh interval; one instance is shared by all followers so each coin's
+ * candles are fetched once per interval.
+ */
+
+import type * as hl from "@nktkas/hyperliquid";
+import type { CandleInterval, VolatilityConfig } from "../config/index.js";
+import type { VolatilitySource } from "../domain/sizing.js";
+import { logger, type Logger } from "../utils/logger.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Delay before retrying a coin whose candle fetch failed */
+const FAILURE_RETRY_MS = 60_000;
+
+/** Duration of each candle interval in milliseconds */
+const INTERVAL_MS: Readonly<Record<CandleInterval, number>> = {
+  "1m": 60_000,
+  "5m": 5 * 60_000,
+  "15m": 15 * 60_000,
+  "1h": 60 * 60_000,
+  "4h": 4 * 60 * 60_000,
+  "1d": DAY_MS,
+};
+
+/**
+ * Computes daily realized volatility from consecutive closes.
+ *
+ * @param closes - Candle closes in time order
+ * @param intervalMs - Time between closes
+ * @returns Standard deviation of log returns scaled by √(periods per day), or undefined
+ *   with fewer than two returns or non-positive prices
+ */
+export function realizedDailyVolatility(closes: readonly number[], intervalMs: number): number | undefined {
+  if (closes.some((close) => !(close > 0))) {
+    return undefined;
+  }
+  const returns = closes.slice(1).map((close, index) => Math.log(close / (closes[index] ?? close)));
+  if (returns.length < 2) {
+    return undefined;
+  }
+  const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length;
+  const variance = returns.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (returns.length - 1);
+  return Math.sqrt(variance * (DAY_MS / intervalMs));
+}
+
+/**
+ * Caches per-coin daily volatility estimates built from `candleSnapshot`.
+ */
+export class VolatilityService implements VolatilitySource {
+  private readonly estimates = new Map<string, { dailyVolatility: number | undefined; nextRefreshMs: number }>();
+  private readonly inFlight = new Map<string, Promise<void>>();
+
+  /**
+   * @param infoClient - Hyperliquid info client
+   * @param config - Lookback, candle interval and refresh interval
+   * @param log - Logger instance
+   */
+  constructor(
+    private readonly infoClient: hl.InfoClient,
+    private readonly config: VolatilityConfig,
+    private readonly log: Logger = logger,
+  ) {}
+
+  /**
+   * Returns the cached daily volatility of a coin, undefined until it has been fetched.
+   */
+  getDailyVolatility(coin: string): number | undefined {
+    return this.estimates.get(coin)?.dailyVolatility;
+  }
+
+  /**
+   * Fetches candles for the coins whose estimate is missing or due for refresh.
+   * Concurrent callers share one request per coin; a failed fetch keeps the previous
+   * estimate and is retried after a minute.
+   *
+   * @param coins - Coins to refresh
+   * @param signal - Optional abort signal to cancel the requests
+   */
+  async refresh(coins: readonly string[], signal?: AbortSignal) {
+    const now = Date.now();
+    await Promise.all(
+      coins
+        .filter((coin) => (this.estimates.get(coin)?.nextRefreshMs ?? 0) <= now)
+        .map((coin) => {
+          let pending = this.inFlight.get(coin);
+          if (!pending) {
+            pending = this.fetchEstimate(coin, signal).finally(() => {
+              this.inFlight.delete(coin);
+            });
+            this.inFlight.set(coin, pending);
+          }
+          return pending;
+        }),
+    );
+  }
+
+  /**
+   * Fetches the lookback window of candles for a coin and stores its estimate.
+   */
+  private async fetchEstimate(coin: string, signal?: AbortSignal) {
+    const previous = this.estimates.get(coin)?.dailyVolatility;
+    try {
+      const endTime = Date.now();
+      const candles = await this.infoClient.candleSnapshot(
+        {
+          coin,
+          interval: this.config.candleInterval,
+          startTime: endTime - this.config.lookbackDays * DAY_MS,
+          endTime,
+        },
+        signal,
+      );
+      const dailyVolatility = realizedDailyVolatility(
+        candles.map((candle) => Number(candle.c)),
+        INTERVAL_MS[this.config.candleInterval],
+      );
+      this.estimates.set(coin, { dailyVolatility, nextRefreshMs: Date.now() + this.config.refreshIntervalMs });
+      this.log.debug(`Updated volatility estimate for ${coin}`, {
+        candles: candles.length,
+        dailyVolatility: dailyVolatility === undefined ? "n/a" : (dailyVolatility * 100).toFixed(2) + "%",
+      });
+    } catch (error) {
+      this.estimates.set(coin, { dailyVolatility: previous, nextRefreshMs: Date.now() + FAILURE_RETRY_MS });
+      this.log.warn(`Failed to fetch candles for ${coin}; keeping previous volatility estimate`, { error });
+    }
+  }
+}
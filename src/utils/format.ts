@@ -0,0 +1,93 @@
+/**
+ * Hyperliquid price and size formatting.
+ *
+ * Order prices may have at most 5 significant figures and at most
+ * `MAX_DECIMALS - szDecimals` decimal places (`MAX_DECIMALS` is 6 for perps and 8 for
+ * spot); integer prices are always valid regardless of significant figures. Sizes are
+ * rounded to the asset's `szDecimals`. Trailing zeros are stripped from both, as the
+ * exchange signs and compares the canonical string form.
+ */
+
+/** Market an asset trades on */
+export type MarketType = "perp" | "spot";
+
+/** Maximum price decimals before subtracting the asset's size decimals */
+export const MAX_DECIMALS: Readonly<Record<MarketType, number>> = { perp: 6, spot: 8 };
+
+/** Maximum significant figures of a non-integer price */
+export const MAX_SIGNIFICANT_FIGURES = 5;
+
+/**
+ * Asset fields the formatting rules depend on (satisfied by `AssetMetadata`).
+ */
+export interface FormatSpec {
+  /** Number of decimal places for position size */
+  sizeDecimals: number;
+}
+
+/**
+ * Returns the number of price decimals allowed for an asset.
+ *
+ * @param spec - Asset size decimals
+ * @param market - Market type (default: perp)
+ */
+export function maxPriceDecimals(spec: FormatSpec, market: MarketType = "perp"): number {
+  return Math.max(0, MAX_DECIMALS[market] - spec.sizeDecimals);
+}
+
+/**
+ * Formats an order price to a valid Hyperliquid price string, rounding half up.
+ *
+ * @param price - Positive price
+ * @param spec - Asset size decimals
+ * @param market - Market type (default: perp)
+ * @returns Price string without trailing zeros
+ * @throws {Error} If the price is not a positive finite number or rounds to zero
+ */
+export function formatPrice(price: number, spec: FormatSpec, market: MarketType = "perp"): string {
+  if (!Number.isFinite(price) || price <= 0) {
+    throw new Error(`Invalid price: ${price}`);
+  }
+  // Decimal exponent of the leading digit, corrected for log10 rounding at powers of ten
+  let magnitude = Math.floor(Math.log10(price));
+  if (10 ** magnitude > price) {
+    magnitude -= 1;
+  } else if (10 ** (magnitude + 1) <= price) {
+    magnitude += 1;
+  }
+  const significantDecimals = Math.max(0, MAX_SIGNIFICANT_FIGURES - 1 - magnitude);
+  const formatted = roundToDecimals(price, Math.min(significantDecimals, maxPriceDecimals(spec, market)));
+  if (Number(formatted) === 0) {
+    throw new Error(`Price ${price} rounds to zero with ${maxPriceDecimals(spec, market)} decimals`);
+  }
+  return formatted;
+}
+
+/**
+ * Formats an order size to the asset's size decimals, rounding half up.
+ *
+ * @param size - Absolute size
+ * @param spec - Asset size decimals
+ * @returns Size string without trailing zeros ("0" if the size rounds away)
+ * @throws {Error} If the size is negative or not finite
+ */
+export function formatSize(size: number, spec: FormatSpec): string {
+  if (!Number.isFinite(size) || size < 0) {
+    throw new Error(`Invalid size: ${size}`);
+  }
+  return roundToDecimals(size, spec.sizeDecimals);
+}
+
+/**
+ * Rounds a non-negative number half up to `decimals` places and strips trailing zeros.
+ * Scaling through the decimal exponent avoids binary artefacts such as `(1.005).toFixed(2) === "1.00"`.
+ */
+function roundToDecimals(value: number, decimals: number): string {
+  const [mantissa = "0", exponent = "0"] = String(value).split("e");
+  const scaled = Math.round(Number(`${mantissa}e${Number(exponent) + decimals}`));
+  return stripTrailingZeros((scaled / 10 ** decimals).toFixed(decimals));
+}
+
+function stripTrailingZeros(value: string): string {
+  return value.includes(".") ? value.replace(/\.?0+$/, "") : value;
+}
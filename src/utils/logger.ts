@@ -62,3 +62,20 @@ export const logger = {
 
 /** Type alias for the logger interface (useful for dependency injection) */
 export type Logger = typeof logger;
+
+/**
+ * Wraps a logger so every entry carries fixed context (e.g., a follower id).
+ * Per-call metadata takes precedence over the context on key collisions.
+ *
+ * @param base - Logger to write through
+ * @param context - Metadata merged into every entry
+ * @returns Logger with the same interface
+ */
+export function withContext(base: Logger, context: Record<string, unknown>): Logger {
+  return {
+    debug: (message, meta) => base.debug(message, { ...context, ...meta }),
+    info: (message, meta) => base.info(message, { ...context, ...meta }),
+    warn: (message, meta) => base.warn(message, { ...context, ...meta }),
+    error: (message, meta) => base.error(message, { ...context, ...meta }),
+  };
+}
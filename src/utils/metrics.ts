@@ -0,0 +1,236 @@
+/**
+ * Minimal Prometheus-compatible metrics.
+ *
+ * Provides counters, gauges and histograms with labels, rendered in the Prometheus
+ * text exposition format (version 0.0.4). The agent's instruments are defined once
+ * in the `metrics` singleton and updated by the services that own each event.
+ */
+
+/** Label values keyed by label name */
+export type Labels = Record<string, string>;
+
+/** Content type of the text exposition format */
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+/** Default histogram buckets for latencies in seconds */
+const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+/**
+ * Stable identity of a label set, independent of key order.
+ */
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return "";
+  }
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(",")}}`;
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) {
+    return "NaN";
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? "+Inf" : "-Inf";
+  }
+  return String(value);
+}
+
+/**
+ * Common state of a named metric with per-label-set series.
+ */
+abstract class Metric<T> {
+  protected readonly series = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(readonly name: string, readonly help: string, readonly type: "counter" | "gauge" | "histogram") {}
+
+  /**
+   * Drops every series whose labels include all of `labels`.
+   */
+  removeWhere(labels: Labels) {
+    for (const [key, entry] of this.series) {
+      if (Object.entries(labels).every(([name, value]) => entry.labels[name] === value)) {
+        this.series.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Renders HELP, TYPE and sample lines.
+   */
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+    for (const { labels, value } of this.series.values()) {
+      lines.push(...this.renderSeries(labels, value));
+    }
+    return lines;
+  }
+
+  protected abstract renderSeries(labels: Labels, value: T): string[];
+}
+
+/**
+ * Monotonically increasing count.
+ */
+export class Counter extends Metric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, "counter");
+  }
+
+  inc(labels: Labels = {}, value = 1) {
+    const key = seriesKey(labels);
+    const entry = this.series.get(key);
+    if (entry) {
+      entry.value += value;
+    } else {
+      this.series.set(key, { labels, value });
+    }
+  }
+
+  protected renderSeries(labels: Labels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(value)}`];
+  }
+}
+
+/**
+ * Value that can go up and down.
+ */
+export class Gauge extends Metric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, "gauge");
+  }
+
+  set(labels: Labels, value: number) {
+    this.series.set(seriesKey(labels), { labels, value });
+  }
+
+  protected renderSeries(labels: Labels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(value)}`];
+  }
+}
+
+/**
+ * Distribution of observations in cumulative buckets.
+ */
+export class Histogram extends Metric<{ counts: number[]; sum: number; count: number }> {
+  constructor(name: string, help: string, private readonly buckets: readonly number[] = DEFAULT_BUCKETS) {
+    super(name, help, "histogram");
+  }
+
+  observe(labels: Labels, value: number) {
+    const key = seriesKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels, value: { counts: this.buckets.map(() => 0), sum: 0, count: 0 } };
+      this.series.set(key, entry);
+    }
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        entry.value.counts[index] = (entry.value.counts[index] ?? 0) + 1;
+      }
+    });
+    entry.value.sum += value;
+    entry.value.count += 1;
+  }
+
+  protected renderSeries(labels: Labels, value: { counts: number[]; sum: number; count: number }): string[] {
+    const lines = this.buckets.map(
+      (bound, index) => `${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${value.counts[index] ?? 0}`,
+    );
+    lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${value.count}`);
+    lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`);
+    lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    return lines;
+  }
+}
+
+/**
+ * Collection of metrics rendered together.
+ */
+export class MetricsRegistry {
+  private readonly metrics: Array<{ readonly name: string; render(): string[] }> = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help));
+  }
+
+  histogram(name: string, help: string, buckets?: readonly number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  /**
+   * Renders every registered metric in the text exposition format.
+   */
+  render(): string {
+    return `${this.metrics.flatMap((metric) => metric.render()).join("\n")}\n`;
+  }
+
+  private register<M extends Counter | Gauge | Histogram>(metric: M): M {
+    if (this.metrics.some((existing) => existing.name === metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+/** Registry holding the agent's metrics */
+export const registry = new MetricsRegistry();
+
+/**
+ * Singleton instruments for the copy trading agent.
+ * Follower-scoped metrics carry a `follower` label with the follower id.
+ */
+export const metrics = {
+  syncRuns: registry.counter("copytrader_sync_runs_total", "Follower sync cycles started"),
+  syncSkipped: registry.counter(
+    "copytrader_sync_skipped_total",
+    "Follower sync cycles skipped, by reason (in_progress, paused)",
+  ),
+  ordersSubmitted: registry.counter("copytrader_orders_submitted_total", "Follower orders submitted to the exchange"),
+  ordersFilled: registry.counter("copytrader_orders_filled_total", "Follower orders filled"),
+  ordersRejected: registry.counter("copytrader_orders_rejected_total", "Follower orders rejected, by reason"),
+  fillToOrderLatency: registry.histogram(
+    "copytrader_leader_fill_to_order_seconds",
+    "Delay between a leader fill and the follower orders it triggered",
+  ),
+  reconcileDuration: registry.histogram(
+    "copytrader_reconcile_duration_seconds",
+    "Duration of leader/follower reconciliation",
+    [0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  ),
+  reconcileFailures: registry.counter("copytrader_reconcile_failures_total", "Failed reconciliations"),
+  wsReconnects: registry.counter("copytrader_ws_reconnects_total", "WebSocket reconnections after the initial connect"),
+  followerEquity: registry.gauge("copytrader_follower_equity_usd", "Follower account value in USD"),
+  followerGrossNotional: registry.gauge("copytrader_follower_gross_notional_usd", "Follower gross position notional in USD"),
+  targetSize: registry.gauge("copytrader_target_size", "Follower target position size per coin (signed)"),
+  actualSize: registry.gauge("copytrader_actual_size", "Follower actual position size per coin (signed)"),
+  portfolioScale: registry.gauge(
+    "copytrader_portfolio_scale",
+    "Factor applied to the follower's target book by portfolio exposure limits (1 = not binding)",
+  ),
+  liquidityDeferred: registry.gauge(
+    "copytrader_liquidity_deferred_notional_usd",
+    "Follower delta notional per coin held back because the order book could not absorb it within the slippage budget",
+  ),
+  mirroredTriggerOrders: registry.gauge(
+    "copytrader_mirrored_trigger_orders",
+    "Leader TP/SL trigger orders the follower should have mirrored after the last mirroring pass",
+  ),
+  circuitBreakerTripped: registry.gauge(
+    "copytrader_circuit_breaker_tripped",
+    "1 while the follower's daily loss / drawdown circuit breaker is tripped",
+  ),
+};
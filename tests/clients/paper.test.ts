@@ -0,0 +1,129 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import * as hl from "@nktkas/hyperliquid";
+import { PaperExchangeClient, PaperInfoClient } from "../../src/clients/paper.js";
+import { PaperLedger } from "../../src/domain/paperLedger.js";
+import type { AssetMetadata, MarketMetadataService } from "../../src/services/marketMetadata.js";
+import type { OrderStatus } from "../../src/services/orderStatus.js";
+import { SILENT } from "../helpers.js";
+
+const FOLLOWER = "0x00000000000000000000000000000000000000F0";
+
+const BTC: AssetMetadata = { assetId: 0, coin: "BTC", maxLeverage: 40, sizeDecimals: 5, marginTableId: 0, marginTiers: [] };
+
+const METADATA = {
+  getMarkPrice: (coin: string) => (coin === "BTC" ? 50_000 : undefined),
+  getByAssetId: (assetId: number) => (assetId === BTC.assetId ? BTC : undefined),
+} as unknown as MarketMetadataService;
+
+type Order = Parameters<PaperExchangeClient["order"]>[0]["orders"][number];
+
+/** BTC limit order with the given time in force; buys are priced 1% above the 50k mark */
+function order(tif: "Ioc" | "Alo" | "Gtc", isBuy: boolean, size: string, price = isBuy ? "50500" : "49500"): Order {
+  return { a: BTC.assetId, b: isBuy, p: price, s: size, r: false, t: { limit: { tif } } };
+}
+
+/** Paper exchange client over a $10k ledger with 10 bps fees and a 10 bps half-spread */
+function setup() {
+  const ledger = new PaperLedger(METADATA, { startingEquityUsd: 10_000, feeBps: 10, slippageBps: 10, defaultLeverage: 5 });
+  return { ledger, client: new PaperExchangeClient(ledger, METADATA, SILENT) };
+}
+
+/** Per-order statuses carried by a rejected batch */
+async function rejectedStatuses(request: Promise<unknown>) {
+  const error = await request.then(
+    () => assert.fail("expected the request to be rejected"),
+    (error: unknown) => error,
+  );
+  assert.ok(error instanceof hl.ApiRequestError);
+  assert.ok(error.response.status === "ok" && "statuses" in error.response.response.data);
+  return error.response.response.data.statuses as OrderStatus[];
+}
+
+describe("PaperExchangeClient", () => {
+  it("fills IOC orders and echoes the client order id", async () => {
+    const { client } = setup();
+    const cloid = "0x0000000000000000000000000000000a";
+    const response = await client.order({ orders: [{ ...order("Ioc", true, "0.1"), c: cloid }] });
+
+    const [status] = response.response.data.statuses;
+    assert.ok(status && "filled" in status);
+    assert.equal(status.filled.totalSz, "0.1");
+    assert.ok(Math.abs(Number(status.filled.avgPx) - 50_050) < 1e-6);
+    assert.equal(status.filled.cloid, cloid);
+  });
+
+  it("rests post-only orders on the ledger", async () => {
+    const { client, ledger } = setup();
+    const response = await client.order({ orders: [order("Alo", true, "0.1", "49900")] });
+    const [status] = response.response.data.statuses;
+    assert.ok(status && "resting" in status);
+    assert.equal(ledger.getOrder(status.resting.oid)?.status, "open");
+  });
+
+  it("throws with per-order statuses when any order of the batch fails, keeping the others' fills", async () => {
+    const { client, ledger } = setup();
+    const statuses = await rejectedStatuses(
+      client.order({ orders: [order("Ioc", true, "0.1"), order("Alo", true, "0.1", "50100"), order("Gtc", true, "0.1")] }),
+    );
+
+    assert.ok(statuses[0] && "filled" in statuses[0]);
+    assert.ok(statuses[1] && "error" in statuses[1] && statuses[1].error.startsWith("Post only order would have"));
+    assert.ok(statuses[2] && "error" in statuses[2] && statuses[2].error.includes("only simulates IOC and post-only"));
+    assert.equal(ledger.toClearinghouseState().assetPositions.length, 1);
+  });
+
+  it("cancels resting orders once and rejects other cancels", async () => {
+    const { client } = setup();
+    const response = await client.order({ orders: [order("Alo", false, "0.1", "50100")] });
+    const [status] = response.response.data.statuses;
+    assert.ok(status && "resting" in status);
+    const cancel = { cancels: [{ a: BTC.assetId, o: status.resting.oid }] };
+
+    assert.deepEqual((await client.cancel(cancel)).response.data.statuses, ["success"]);
+    await assert.rejects(client.cancel(cancel), hl.ApiRequestError);
+  });
+
+  it("applies leverage settings to the ledger's margin check", async () => {
+    const { client } = setup();
+    // $55k needs $11k of margin at the default 5x
+    await rejectedStatuses(client.order({ orders: [order("Ioc", true, "1.1")] }));
+
+    await client.updateLeverage({ asset: BTC.assetId, isCross: true, leverage: 10 });
+    await client.order({ orders: [order("Ioc", true, "1.1")] });
+    await assert.rejects(client.updateLeverage({ asset: 99, isCross: true, leverage: 10 }), hl.ApiRequestError);
+  });
+
+  it("rejects TWAP orders so the executor slices instead", async () => {
+    const { client } = setup();
+    await assert.rejects(
+      client.twapOrder({ twap: { a: BTC.assetId, b: true, s: "1", r: false, m: 30, t: false } }),
+      hl.ApiRequestError,
+    );
+  });
+});
+
+describe("PaperInfoClient", () => {
+  it("answers follower account and order queries from the ledger, whatever the address case", async () => {
+    const { client, ledger } = setup();
+    const info = new PaperInfoClient(new hl.HttpTransport(), new Map([[FOLLOWER.toLowerCase(), ledger]]));
+    await client.order({ orders: [order("Ioc", true, "0.1")] });
+    const response = await client.order({ orders: [order("Alo", false, "0.05", "50100")] });
+    const [status] = response.response.data.statuses;
+    assert.ok(status && "resting" in status);
+
+    const state = await info.clearinghouseState({ user: FOLLOWER });
+    assert.equal(state.assetPositions[0]?.position.szi, "0.1");
+
+    const open = await info.frontendOpenOrders({ user: FOLLOWER });
+    assert.deepEqual(
+      open.map(({ oid, side, sz, tif }) => ({ oid, side, sz, tif })),
+      [{ oid: status.resting.oid, side: "A", sz: "0.05", tif: "Alo" }],
+    );
+
+    const lookup = await info.orderStatus({ user: FOLLOWER, oid: status.resting.oid });
+    assert.ok(lookup.status === "order");
+    assert.equal(lookup.order.status, "open");
+    assert.deepEqual(await info.orderStatus({ user: FOLLOWER, oid: 999 }), { status: "unknownOid" });
+  });
+});
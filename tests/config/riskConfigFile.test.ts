@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseRiskConfigFile, type FollowerConfig } from "../../src/config/index.js";
+import { RISK } from "../helpers.js";
+
+const KEY = `0x${"1".repeat(64)}` as const;
+
+/** Two followers whose environment risk differs only in copy ratio */
+const FOLLOWERS: FollowerConfig[] = [
+  { id: "alpha", privateKey: KEY, risk: { ...RISK, copyRatio: 1 } },
+  { id: "beta", privateKey: KEY, risk: { ...RISK, copyRatio: 2 } },
+];
+
+describe("parseRiskConfigFile", () => {
+  it("layers the environment, top-level keys and follower sections", () => {
+    const risks = parseRiskConfigFile(
+      JSON.stringify({ maxLeverage: 5, followers: { beta: { maxLeverage: 3, maxSlippageBps: 40 } } }),
+      FOLLOWERS,
+    );
+    assert.deepEqual(risks.get("alpha"), { ...RISK, copyRatio: 1, maxLeverage: 5 });
+    assert.deepEqual(risks.get("beta"), { ...RISK, copyRatio: 2, maxLeverage: 3, maxSlippageBps: 40 });
+  });
+
+  it("falls back to the environment value for keys missing from the file", () => {
+    const risks = parseRiskConfigFile("{}", FOLLOWERS);
+    assert.deepEqual(risks.get("alpha"), FOLLOWERS[0]?.risk);
+    assert.deepEqual(risks.get("beta"), FOLLOWERS[1]?.risk);
+  });
+
+  it("reads YAML with the same result as JSON", () => {
+    const yaml = ["maxLeverage: 5", "followers:", "  beta:", "    maxLeverage: 3", "    maxSlippageBps: 40"].join("\n");
+    const json = JSON.stringify({ maxLeverage: 5, followers: { beta: { maxLeverage: 3, maxSlippageBps: 40 } } });
+    assert.deepEqual(parseRiskConfigFile(yaml, FOLLOWERS), parseRiskConfigFile(json, FOLLOWERS));
+  });
+
+  it("rejects unknown keys at the top level and in follower sections", () => {
+    assert.throws(() => parseRiskConfigFile('{ "copyRate": 1 }', FOLLOWERS), /Unknown risk setting risk\.copyRate/);
+    assert.throws(
+      () => parseRiskConfigFile('{ "followers": { "beta": { "maxLev": 3 } } }', FOLLOWERS),
+      /Unknown risk setting risk\.followers\.beta\.maxLev/,
+    );
+  });
+
+  it("rejects out-of-range values", () => {
+    assert.throws(() => parseRiskConfigFile('{ "copyRatio": 0 }', FOLLOWERS), /copyRatio must be a positive number/);
+    assert.throws(() => parseRiskConfigFile('{ "maxSlippageBps": 10000 }', FOLLOWERS), /between 0 and 10000/);
+    assert.throws(() => parseRiskConfigFile('{ "maxDrawdownPct": 100 }', FOLLOWERS), /percentage between 0 and 100/);
+    assert.throws(() => parseRiskConfigFile('{ "inverse": "yes" }', FOLLOWERS), /inverse must be a boolean/);
+  });
+
+  it("rejects unknown follower ids", () => {
+    assert.throws(
+      () => parseRiskConfigFile('{ "followers": { "gamma": { "copyRatio": 1 } } }', FOLLOWERS),
+      /Unknown follower id in risk config file: gamma/,
+    );
+  });
+
+  it("rejects the whole file when one follower's settings are invalid", () => {
+    // alpha's section is valid, but nothing is returned for it either
+    const raw = JSON.stringify({ followers: { alpha: { copyRatio: 0.5 }, beta: { maxLeverage: -1 } } });
+    assert.throws(() => parseRiskConfigFile(raw, FOLLOWERS), /risk\.followers\.beta\.maxLeverage/);
+  });
+
+  it("rejects a sizing strategy without its parameters", () => {
+    assert.throws(() => parseRiskConfigFile('{ "sizingStrategy": "fixedNotional" }', FOLLOWERS), /fixedNotionalUsd/);
+  });
+
+  it("rejects files that do not hold an object of settings", () => {
+    assert.throws(() => parseRiskConfigFile("{ copyRatio: ", FOLLOWERS), /not valid JSON or YAML/);
+    assert.throws(() => parseRiskConfigFile("[1, 2]", FOLLOWERS), /must contain an object/);
+    assert.throws(() => parseRiskConfigFile("", FOLLOWERS), /must contain an object/);
+  });
+});
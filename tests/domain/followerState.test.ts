@@ -0,0 +1,196 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { RiskConfig } from "../../src/config/index.js";
+import { changesSizing, FollowerState, isWithinDriftBand, type PositionDelta } from "../../src/domain/followerState.js";
+import type { TargetPosition } from "../../src/domain/leaderState.js";
+import type { PositionSnapshot } from "../../src/domain/types.js";
+import { RISK, SILENT } from "../helpers.js";
+
+function position(coin: string, size: number, entryPrice: number): PositionSnapshot {
+  return {
+    coin,
+    size,
+    entryPrice,
+    positionValueUsd: Math.abs(size) * entryPrice,
+    leverage: 0,
+    marginUsedUsd: 0,
+    lastUpdatedMs: 0,
+  };
+}
+
+/** Delta moving a BTC position from `currentSize` to `targetSize` */
+function btcDelta(currentSize: number, targetSize: number): PositionDelta {
+  return {
+    coin: "BTC",
+    current: currentSize === 0 ? undefined : position("BTC", currentSize, 50_000),
+    targetSize,
+    deltaSize: targetSize - currentSize,
+    maxNotionalUsd: 250_000,
+  };
+}
+
+describe("isWithinDriftBand", () => {
+  it("is never within the band when no tolerance is set", () => {
+    assert.equal(isWithinDriftBand(btcDelta(1, 1.001), 50_000, RISK), false);
+  });
+
+  it("applies the percentage tolerance to the target size", () => {
+    const risk = { ...RISK, driftTolerancePct: 5 };
+    assert.equal(isWithinDriftBand(btcDelta(1, 1.04), 50_000, risk), true);
+    assert.equal(isWithinDriftBand(btcDelta(1.04, 1), 50_000, risk), true);
+    assert.equal(isWithinDriftBand(btcDelta(1, 1.1), 50_000, risk), false);
+    assert.equal(isWithinDriftBand(btcDelta(-1, -1.04), 50_000, risk), true);
+  });
+
+  it("applies the notional tolerance at the mark price", () => {
+    const risk = { ...RISK, driftToleranceUsd: 1_000 };
+    // 0.01 BTC is $500 at 50k but $1,500 at 150k
+    assert.equal(isWithinDriftBand(btcDelta(1, 1.01), 50_000, risk), true);
+    assert.equal(isWithinDriftBand(btcDelta(1, 1.01), 150_000, risk), false);
+  });
+
+  it("requires both tolerances when both are set", () => {
+    const risk = { ...RISK, driftTolerancePct: 5, driftToleranceUsd: 1_000 };
+    // 4% of the target but $2,000 of notional
+    assert.equal(isWithinDriftBand(btcDelta(1, 1.04), 50_000, risk), false);
+    assert.equal(isWithinDriftBand(btcDelta(1, 1.01), 50_000, risk), true);
+  });
+
+  it("exempts opens, closes and flips", () => {
+    const risk = { ...RISK, driftTolerancePct: 100, driftToleranceUsd: 1_000_000 };
+    assert.equal(isWithinDriftBand(btcDelta(0, 0.001), 50_000, risk), false);
+    assert.equal(isWithinDriftBand(btcDelta(0.001, 0), 50_000, risk), false);
+    assert.equal(isWithinDriftBand(btcDelta(0.001, -0.001), 50_000, risk), false);
+  });
+});
+
+/** Leader 1x long 2 BTC on $100k, at the given mark price and leader size */
+function btcTarget(markPrice: number, leaderSize = 2): TargetPosition {
+  return { coin: "BTC", leaderSize, blendedSize: leaderSize, direction: 1, leaderLeverage: 1, markPrice, leaderEquityUsd: 100_000 };
+}
+
+function follower(equityUsd: number): FollowerState {
+  const state = new FollowerState(SILENT);
+  state.setMetrics({ accountValueUsd: equityUsd, totalNotionalUsd: 0, totalMarginUsedUsd: 0, withdrawableUsd: 0, lastUpdatedMs: 0 });
+  return state;
+}
+
+function targetSize(state: FollowerState, target: TargetPosition, risk: RiskConfig): number | undefined {
+  return state.computeDeltas([target], risk)[0]?.targetSize;
+}
+
+describe("entry-locked sizing", () => {
+  const LOCKED: RiskConfig = { ...RISK, sizingMode: "entryLocked" };
+
+  it("re-sizes at every mark price in mirror mode", () => {
+    const state = follower(10_000);
+    assert.equal(targetSize(state, btcTarget(50_000), RISK), 0.2);
+    assert.equal(targetSize(state, btcTarget(40_000), RISK), 0.25);
+  });
+
+  it("keeps the locked size through price and equity moves", () => {
+    const state = follower(10_000);
+    assert.equal(targetSize(state, btcTarget(50_000), LOCKED), 0.2);
+    assert.equal(targetSize(state, btcTarget(40_000), LOCKED), 0.2);
+    state.setMetrics({ ...state.getMetrics(), accountValueUsd: 20_000 });
+    assert.equal(targetSize(state, btcTarget(40_000), LOCKED), 0.2);
+  });
+
+  it("relocks at the current price when the leader size changes", () => {
+    const state = follower(10_000);
+    targetSize(state, btcTarget(50_000), LOCKED);
+    assert.equal(targetSize(state, btcTarget(40_000, 3), LOCKED), 0.25);
+    assert.equal(targetSize(state, btcTarget(50_000, 3), LOCKED), 0.25);
+  });
+
+  it("does not lock without a mark price", () => {
+    const state = follower(10_000);
+    assert.equal(targetSize(state, btcTarget(0), LOCKED), 0);
+    assert.equal(targetSize(state, btcTarget(50_000), LOCKED), 0.2);
+  });
+
+  it("drops a lock once the coin leaves the targets", () => {
+    const state = follower(10_000);
+    targetSize(state, btcTarget(50_000), LOCKED);
+    state.computeDeltas([], LOCKED);
+    assert.equal(targetSize(state, btcTarget(40_000), LOCKED), 0.25);
+  });
+
+  it("re-sizes every coin after resetEntryLocks", () => {
+    const state = follower(10_000);
+    targetSize(state, btcTarget(50_000), LOCKED);
+    state.resetEntryLocks();
+    assert.equal(targetSize(state, btcTarget(40_000), LOCKED), 0.25);
+  });
+});
+
+describe("changesSizing", () => {
+  it("ignores execution-only settings", () => {
+    assert.equal(changesSizing(RISK, { ...RISK, maxSlippageBps: 50 }), false);
+    assert.equal(changesSizing(RISK, { ...RISK, driftTolerancePct: 5, maxDrawdownPct: 10 }), false);
+    assert.equal(changesSizing(RISK, { ...RISK, deniedCoins: ["DOGE"] }), false);
+  });
+
+  it("detects sizing settings, including nested coin overrides", () => {
+    assert.equal(changesSizing(RISK, { ...RISK, copyRatio: 0.5 }), true);
+    assert.equal(changesSizing(RISK, { ...RISK, maxGrossLeverage: 3 }), true);
+    const overridden = { ...RISK, coinOverrides: { BTC: { maxLeverage: 2 } } };
+    assert.equal(changesSizing(overridden, { ...RISK, coinOverrides: { BTC: { maxLeverage: 2 } } }), false);
+    assert.equal(changesSizing(overridden, { ...RISK, coinOverrides: { BTC: { maxLeverage: 3 } } }), true);
+  });
+});
+
+/** $10k follower against a leader 2x long BTC at 50k and 1x short ETH at 2.5k: 3x gross, 1x net, 200% in BTC */
+function portfolio(risk: RiskConfig, equityUsd = 10_000) {
+  const state = follower(equityUsd);
+  const targets: TargetPosition[] = [
+    { coin: "BTC", leaderSize: 4, blendedSize: 4, direction: 1, leaderLeverage: 2, markPrice: 50_000, leaderEquityUsd: 100_000 },
+    { coin: "ETH", leaderSize: -40, blendedSize: -40, direction: -1, leaderLeverage: 1, markPrice: 2_500, leaderEquityUsd: 100_000 },
+  ];
+  const sizes = Object.fromEntries(state.computeDeltas(targets, risk).map((delta) => [delta.coin, delta.targetSize]));
+  return { state, scale: state.getPortfolioScale(), sizes };
+}
+
+describe("portfolio limits", () => {
+  it("leaves the book unscaled without limits", () => {
+    const { scale, sizes } = portfolio(RISK);
+    assert.equal(scale, 1);
+    assert.deepEqual(sizes, { BTC: 0.4, ETH: -4 });
+  });
+
+  it("does not scale a book exactly at its limits", () => {
+    const { scale } = portfolio({ ...RISK, maxGrossLeverage: 3, maxNetLeverage: 1, maxCoinConcentrationPct: 200 });
+    assert.equal(scale, 1);
+  });
+
+  it("scales every coin uniformly to the gross leverage limit", () => {
+    const { scale, sizes } = portfolio({ ...RISK, maxGrossLeverage: 1.5 });
+    assert.equal(scale, 0.5);
+    assert.deepEqual(sizes, { BTC: 0.2, ETH: -2 });
+  });
+
+  it("scales to the net leverage limit", () => {
+    assert.equal(portfolio({ ...RISK, maxNetLeverage: 0.25 }).scale, 0.25);
+  });
+
+  it("scales to the single-coin concentration limit", () => {
+    assert.equal(portfolio({ ...RISK, maxCoinConcentrationPct: 50 }).scale, 0.25);
+  });
+
+  it("applies the tightest of several limits", () => {
+    const { scale } = portfolio({ ...RISK, maxGrossLeverage: 2.4, maxNetLeverage: 0.5, maxCoinConcentrationPct: 150 });
+    assert.equal(scale, 0.5);
+  });
+
+  it("skips the limits without follower equity", () => {
+    const { scale, sizes } = portfolio({ ...RISK, maxGrossLeverage: 1 }, 0);
+    assert.equal(scale, 1);
+    assert.ok(Object.values(sizes).every((size) => size === 0));
+  });
+
+  it("returns to 1 once the limits stop binding", () => {
+    const { state } = portfolio({ ...RISK, maxGrossLeverage: 1.5 });
+    state.computeDeltas([], { ...RISK, maxGrossLeverage: 1.5 });
+    assert.equal(state.getPortfolioScale(), 1);
+  });
+});
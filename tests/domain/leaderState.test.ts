@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { RiskConfig } from "../../src/config/index.js";
+import { FollowerState } from "../../src/domain/followerState.js";
+import { blendTargets, LeaderState, type WeightedLeader } from "../../src/domain/leaderState.js";
+import type { MarkPriceSource } from "../../src/services/marketMetadata.js";
+import { RISK as BASE_RISK, SILENT } from "../helpers.js";
+
+const PRICES: MarkPriceSource = {
+  getMarkPrice: (coin) => ({ BTC: 50_000, ETH: 2_500 })[coin],
+};
+
+const RISK: RiskConfig = {
+  ...BASE_RISK,
+  maxNotionalUsd: 1_000_000,
+};
+
+/**
+ * Builds a leader holding the given signed sizes on the given equity.
+ */
+function leader(weight: number, equityUsd: number, sizes: Record<string, number>): WeightedLeader {
+  const state = new LeaderState("leader", SILENT);
+  state.setMetrics({ accountValueUsd: equityUsd, totalNotionalUsd: 0, totalMarginUsedUsd: 0, withdrawableUsd: 0, lastUpdatedMs: 0 });
+  for (const [coin, size] of Object.entries(sizes)) {
+    state.upsertPosition(coin, {
+      coin,
+      size,
+      entryPrice: PRICES.getMarkPrice(coin) ?? 0,
+      positionValueUsd: 0,
+      leverage: 0,
+      marginUsedUsd: 0,
+      lastUpdatedMs: 0,
+    });
+  }
+  return { address: "0x0000000000000000000000000000000000000001", weight, state };
+}
+
+function close(actual: number | undefined, expected: number) {
+  assert.ok(actual !== undefined && Math.abs(actual - expected) < 1e-9, `expected ${expected}, got ${actual}`);
+}
+
+describe("blendTargets", () => {
+  it("passes a single leader through with its direction and leverage", () => {
+    const [btc, eth] = blendTargets([leader(1, 100_000, { BTC: 1, ETH: -20 })], PRICES);
+    assert.equal(btc?.direction, 1);
+    close(btc?.leaderLeverage, 0.5);
+    close(btc?.leaderSize, 1);
+    close(btc?.blendedSize, 1);
+    assert.equal(eth?.direction, -1);
+    close(eth?.leaderLeverage, 0.5);
+    close(eth?.leaderSize, -20);
+    close(eth?.blendedSize, -20);
+  });
+
+  it("nets signed leverage by weight", () => {
+    const targets = blendTargets([leader(0.5, 100_000, { BTC: 2 }), leader(0.5, 100_000, { BTC: 1 })], PRICES);
+    assert.equal(targets.length, 1);
+    assert.equal(targets[0]?.direction, 1);
+    close(targets[0]?.leaderLeverage, 0.75);
+    close(targets[0]?.leaderSize, 1.5);
+    close(targets[0]?.leaderEquityUsd, 200_000);
+  });
+
+  it("drops coins whose leverage cancels out", () => {
+    const targets = blendTargets([leader(1, 100_000, { BTC: 1, ETH: 4 }), leader(1, 100_000, { BTC: -1 })], PRICES);
+    assert.deepEqual(
+      targets.map((target) => target.coin),
+      ["ETH"],
+    );
+  });
+
+  it("takes direction from net leverage when leaders with different equity offset sizes", () => {
+    // 1 BTC on $10k is 5x long; 1 BTC short on $1M is 0.05x short
+    const [btc] = blendTargets([leader(1, 10_000, { BTC: 1 }), leader(1, 1_000_000, { BTC: -1 })], PRICES);
+    assert.equal(btc?.direction, 1);
+    close(btc?.leaderLeverage, 4.95);
+    close(btc?.leaderSize, 0);
+  });
+
+  it("goes short when the larger leverage is short despite a long net size", () => {
+    // 2 BTC long on $1M is 0.1x; 1 BTC short on $10k is 5x
+    const [btc] = blendTargets([leader(1, 1_000_000, { BTC: 2 }), leader(1, 10_000, { BTC: -1 })], PRICES);
+    assert.equal(btc?.direction, -1);
+    close(btc?.leaderLeverage, 4.9);
+    close(btc?.leaderSize, 1);
+    // -4.9x on the $505k average leader equity at 50k
+    close(btc?.blendedSize, -49.49);
+  });
+
+  it("applies negative weights as inverse copying", () => {
+    const [btc] = blendTargets([leader(-1, 100_000, { BTC: 1 })], PRICES);
+    assert.equal(btc?.direction, -1);
+    close(btc?.leaderLeverage, 0.5);
+  });
+
+  it("sizes the follower from the blended direction when net size is zero", () => {
+    const targets = blendTargets([leader(1, 10_000, { BTC: 1 }), leader(1, 1_000_000, { BTC: -1 })], PRICES);
+    const follower = new FollowerState(SILENT);
+    follower.setMetrics({ accountValueUsd: 10_000, totalNotionalUsd: 0, totalMarginUsedUsd: 0, withdrawableUsd: 0, lastUpdatedMs: 0 });
+    const [delta] = follower.computeDeltas(targets, RISK);
+    // 4.95x of $10k at $50k
+    close(delta?.targetSize, 0.99);
+  });
+});
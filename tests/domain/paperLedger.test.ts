@@ -0,0 +1,202 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { PaperLedger, type PaperOrder } from "../../src/domain/paperLedger.js";
+
+/**
+ * $10k ledger with 10 bps fees, a 10 bps half-spread (BTC at 50k trades 49,950 / 50,050)
+ * and 5x default leverage. Mark prices can be changed through `prices`.
+ */
+function setup() {
+  const prices: Record<string, number> = { BTC: 50_000 };
+  const ledger = new PaperLedger(
+    { getMarkPrice: (coin) => prices[coin] },
+    { startingEquityUsd: 10_000, feeBps: 10, slippageBps: 10, defaultLeverage: 5 },
+  );
+  return { ledger, prices };
+}
+
+/** BTC IOC order with a limit 1% through mark */
+function ioc(isBuy: boolean, size: number, fields: Partial<PaperOrder> = {}): PaperOrder {
+  return { coin: "BTC", isBuy, size, limitPrice: isBuy ? 50_500 : 49_500, reduceOnly: false, ...fields };
+}
+
+function close(actual: number | undefined, expected: number) {
+  assert.ok(actual !== undefined && Math.abs(actual - expected) < 1e-6, `expected ${expected}, got ${actual}`);
+}
+
+function position(ledger: PaperLedger, coin: string) {
+  return ledger.toClearinghouseState().assetPositions.find((entry) => entry.position.coin === coin)?.position;
+}
+
+describe("PaperLedger IOC orders", () => {
+  it("fills at mark plus the half-spread and charges the fee", () => {
+    const { ledger } = setup();
+    const result = ledger.executeIoc(ioc(true, 0.1));
+
+    assert.ok("filled" in result);
+    close(result.filled.price, 50_050);
+    close(result.filled.size, 0.1);
+    // 10 bps of $5,005
+    close(result.filled.feeUsd, 5.005);
+    assert.equal(position(ledger, "BTC")?.szi, "0.1");
+  });
+
+  it("rejects an order whose limit the simulated touch does not reach", () => {
+    const { ledger } = setup();
+    const result = ledger.executeIoc(ioc(false, 0.1, { limitPrice: 49_960 }));
+
+    assert.ok("error" in result && result.error.startsWith("Order could not immediately match"));
+    assert.equal(position(ledger, "BTC"), undefined);
+    assert.equal(ledger.getPnlSummary().rejectedOrders, 1);
+  });
+
+  it("rejects coins without a mark price", () => {
+    const { ledger } = setup();
+    const result = ledger.executeIoc({ ...ioc(true, 1), coin: "DOGE" });
+    assert.ok("error" in result && result.error.includes("No mark price"));
+  });
+
+  it("clamps reduce-only orders to the position and rejects them without one", () => {
+    const { ledger } = setup();
+    const rejected = ledger.executeIoc(ioc(false, 0.1, { reduceOnly: true }));
+    assert.ok("error" in rejected && rejected.error.startsWith("Reduce only"));
+
+    ledger.executeIoc(ioc(true, 0.1));
+    const result = ledger.executeIoc(ioc(false, 0.5, { reduceOnly: true }));
+    assert.ok("filled" in result);
+    close(result.filled.size, 0.1);
+    assert.equal(position(ledger, "BTC"), undefined);
+  });
+
+  it("rejects orders the account cannot margin at the coin's leverage", () => {
+    const { ledger } = setup();
+    // $55k at 5x needs $11k of margin
+    const rejected = ledger.executeIoc(ioc(true, 1.1));
+    assert.ok("error" in rejected && rejected.error.startsWith("Insufficient margin"));
+
+    ledger.setLeverage("BTC", 10, true);
+    assert.ok("filled" in ledger.executeIoc(ioc(true, 1.1)));
+  });
+
+  it("always allows reducing a position", () => {
+    const { ledger, prices } = setup();
+    ledger.executeIoc(ioc(true, 0.9));
+    // A 10% drop leaves about $5.4k of equity against $9k of margin needed
+    prices.BTC = 45_000;
+    assert.ok("filled" in ledger.executeIoc(ioc(false, 0.1, { limitPrice: 40_000 })));
+  });
+});
+
+describe("PaperLedger post-only orders", () => {
+  it("rejects an order that would cross the simulated touch", () => {
+    const { ledger } = setup();
+    const result = ledger.placePostOnly({ ...ioc(true, 0.1), limitPrice: 50_050 });
+    assert.ok("error" in result && result.error.startsWith("Post only order would have immediately matched"));
+  });
+
+  it("rests until the touch reaches the limit, then fills in full at the limit on the next read", () => {
+    const { ledger, prices } = setup();
+    const placed = ledger.placePostOnly({ ...ioc(true, 0.1), limitPrice: 49_900, cloid: "0x01" });
+    assert.ok("oid" in placed);
+    assert.equal(ledger.getOpenOrders().length, 1);
+
+    // The ask is 49,999.95 at a 49,950 mark and 49,899.85 at 49,850
+    prices.BTC = 49_950;
+    assert.equal(ledger.getOrder(placed.oid)?.status, "open");
+    prices.BTC = 49_850;
+    const order = ledger.getOrder(placed.oid);
+    assert.equal(order?.status, "filled");
+    close(order?.filledSize, 0.1);
+    assert.equal(position(ledger, "BTC")?.entryPx, "49900");
+    assert.deepEqual(ledger.getOpenOrders(), []);
+  });
+
+  it("cancels open orders only", () => {
+    const { ledger } = setup();
+    const placed = ledger.placePostOnly({ ...ioc(false, 0.1), limitPrice: 50_100 });
+    assert.ok("oid" in placed);
+
+    assert.equal(ledger.cancel(placed.oid), true);
+    assert.equal(ledger.getOrder(placed.oid)?.status, "canceled");
+    assert.equal(ledger.cancel(placed.oid), false);
+    assert.equal(ledger.cancel(999), false);
+  });
+
+  it("cancels a reduce-only order with nothing left to reduce when reached", () => {
+    const { ledger, prices } = setup();
+    ledger.executeIoc(ioc(true, 0.1));
+    const placed = ledger.placePostOnly({ ...ioc(false, 0.1), limitPrice: 50_100, reduceOnly: true });
+    assert.ok("oid" in placed);
+    ledger.executeIoc(ioc(false, 0.1, { reduceOnly: true }));
+
+    prices.BTC = 50_200;
+    assert.equal(ledger.getOrder(placed.oid)?.status, "reduceOnlyCanceled");
+  });
+
+  it("cancels an order the account cannot margin when reached", () => {
+    const { ledger, prices } = setup();
+    // $45k at 5x needs $9k: placed while nothing else is open
+    const placed = ledger.placePostOnly({ ...ioc(true, 0.9), limitPrice: 49_900 });
+    assert.ok("oid" in placed);
+    ledger.executeIoc(ioc(true, 0.5));
+
+    prices.BTC = 49_800;
+    assert.equal(ledger.getOrder(placed.oid)?.status, "marginCanceled");
+  });
+});
+
+describe("PaperLedger PnL", () => {
+  it("realizes PnL on a round trip and subtracts fees from equity", () => {
+    const { ledger, prices } = setup();
+    ledger.executeIoc(ioc(true, 0.1));
+    prices.BTC = 51_000;
+    ledger.executeIoc(ioc(false, 0.1, { limitPrice: 50_000 }));
+
+    const summary = ledger.getPnlSummary();
+    // Bought at 50,050, sold at 50,949
+    close(summary.realizedPnlUsd, 89.9);
+    close(summary.feesUsd, 5.005 + 5.0949);
+    close(summary.unrealizedPnlUsd, 0);
+    close(summary.equityUsd, 10_000 + 89.9 - 10.0999);
+    close(summary.totalPnlUsd, 89.9 - 10.0999);
+    close(summary.volumeUsd, 5_005 + 5_094.9);
+    assert.equal(summary.fills, 2);
+  });
+
+  it("averages the entry price when adding and marks open positions to market", () => {
+    const { ledger, prices } = setup();
+    ledger.executeIoc(ioc(true, 0.1));
+    prices.BTC = 52_000;
+    ledger.executeIoc(ioc(true, 0.1, { limitPrice: 53_000 }));
+
+    // (50,050 + 52,052) / 2
+    close(Number(position(ledger, "BTC")?.entryPx), 51_051);
+    // 0.2 × (52,000 - 51,051)
+    close(ledger.getPnlSummary().unrealizedPnlUsd, 189.8);
+  });
+
+  it("realizes only the closed part of a flip and opens the rest at the fill price", () => {
+    const { ledger } = setup();
+    ledger.executeIoc(ioc(true, 0.1));
+    ledger.executeIoc(ioc(false, 0.3));
+
+    // Closed 0.1 bought at 50,050 and sold at 49,950
+    close(ledger.getPnlSummary().realizedPnlUsd, -10);
+    const flipped = position(ledger, "BTC");
+    assert.equal(flipped?.szi, "-0.2");
+    close(Number(flipped?.entryPx), 49_950);
+  });
+
+  it("renders positions and margin as a clearinghouse state", () => {
+    const { ledger } = setup();
+    ledger.setLeverage("BTC", 10, false);
+    ledger.executeIoc(ioc(true, 0.1));
+
+    const state = ledger.toClearinghouseState();
+    // $5k at 10x
+    close(Number(state.marginSummary.totalMarginUsed), 500);
+    close(Number(state.marginSummary.totalNtlPos), 5_000);
+    close(Number(state.marginSummary.accountValue), ledger.getEquityUsd());
+    assert.deepEqual(position(ledger, "BTC")?.leverage, { type: "isolated", value: 10, rawUsd: "-4500" });
+  });
+});
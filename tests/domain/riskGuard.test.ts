@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { RiskGuard } from "../../src/domain/riskGuard.js";
+import { RISK, SILENT } from "../helpers.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Builds a guard whose clock is read from the returned `clock.ms`, starting at noon UTC.
+ */
+function guardWithClock() {
+  const clock = { ms: 10 * DAY_MS + 12 * HOUR_MS };
+  return { guard: new RiskGuard(SILENT, () => clock.ms), clock };
+}
+
+describe("RiskGuard", () => {
+  it("trips on a daily loss from the day's high", () => {
+    const { guard } = guardWithClock();
+    const risk = { ...RISK, maxDailyLossPct: 5 };
+    assert.equal(guard.update(10_000, risk), false);
+    assert.equal(guard.update(11_000, risk), false);
+    assert.equal(guard.update(10_500, risk), false);
+    assert.equal(guard.update(10_450, risk), true);
+    const trip = guard.getStatus().tripped;
+    assert.equal(trip?.reason, "dailyLoss");
+    assert.equal(trip?.referenceUsd, 11_000);
+  });
+
+  it("trips on a drawdown from the peak across days", () => {
+    const { guard, clock } = guardWithClock();
+    const risk = { ...RISK, maxDrawdownPct: 10 };
+    guard.update(10_000, risk);
+    clock.ms += DAY_MS;
+    // A new day resets the daily high but keeps the peak
+    assert.equal(guard.update(9_500, risk), false);
+    assert.equal(guard.getStatus().dailyHighUsd, 9_500);
+    assert.equal(guard.update(9_000, risk), true);
+    assert.equal(guard.getStatus().tripped?.reason, "drawdown");
+    assert.equal(guard.getStatus().tripped?.referenceUsd, 10_000);
+  });
+
+  it("stays tripped when equity recovers within the day", () => {
+    const { guard, clock } = guardWithClock();
+    const risk = { ...RISK, maxDailyLossPct: 5 };
+    guard.update(10_000, risk);
+    assert.equal(guard.update(9_000, risk), true);
+    clock.ms += HOUR_MS;
+    assert.equal(guard.update(10_000, risk), true);
+    assert.equal(guard.isTripped(), true);
+  });
+
+  it("clears at the next UTC day", () => {
+    const { guard, clock } = guardWithClock();
+    const risk = { ...RISK, maxDailyLossPct: 5 };
+    guard.update(10_000, risk);
+    guard.update(9_000, risk);
+    clock.ms += DAY_MS;
+    assert.equal(guard.update(9_000, risk), false);
+    assert.equal(guard.getStatus().dailyHighUsd, 9_000);
+  });
+
+  it("clears on manual reset and re-bases the breached mark", () => {
+    const { guard } = guardWithClock();
+    const risk = { ...RISK, maxDrawdownPct: 10 };
+    guard.update(10_000, risk);
+    guard.update(8_500, risk);
+    guard.reset();
+    assert.equal(guard.isTripped(), false);
+    assert.equal(guard.getStatus().peakUsd, 8_500);
+    // The loss that caused the trip no longer counts
+    assert.equal(guard.update(8_000, risk), false);
+    assert.equal(guard.update(7_650, risk), true);
+  });
+
+  it("resumes a trip and its marks from a saved state", () => {
+    const { guard, clock } = guardWithClock();
+    const risk = { ...RISK, maxDrawdownPct: 10 };
+    guard.update(10_000, risk);
+    guard.update(8_500, risk);
+
+    const restored = new RiskGuard(SILENT, () => clock.ms);
+    restored.restore(guard.getState());
+    assert.equal(restored.update(9_900, risk), true);
+    assert.deepEqual(restored.getStatus(), guard.getStatus());
+
+    restored.reset();
+    assert.equal(restored.getStatus().peakUsd, 9_900);
+  });
+});
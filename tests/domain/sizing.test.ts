@@ -0,0 +1,150 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { RiskConfig, SizingStrategyName } from "../../src/config/index.js";
+import { FollowerState } from "../../src/domain/followerState.js";
+import { blendTargets, LeaderState, type TargetPosition, type WeightedLeader } from "../../src/domain/leaderState.js";
+import { SIZING_STRATEGIES, type SizingContext, type VolatilitySource } from "../../src/domain/sizing.js";
+import type { MarkPriceSource } from "../../src/services/marketMetadata.js";
+import { RISK as BASE_RISK, SILENT } from "../helpers.js";
+
+const RISK: RiskConfig = {
+  ...BASE_RISK,
+  fixedNotionalUsd: 1_000,
+  volatilityTargetPct: 1,
+};
+
+/** Leader with $100k equity: long 2 BTC at 50k (1x), short 100 SOL at 200 (0.2x), long 10k DOGE at 0.1 */
+const TARGETS: Record<string, TargetPosition> = {
+  btcLong: { coin: "BTC", leaderSize: 2, blendedSize: 2, direction: 1, leaderLeverage: 1, markPrice: 50_000, leaderEquityUsd: 100_000 },
+  solShort: { coin: "SOL", leaderSize: -100, blendedSize: -100, direction: -1, leaderLeverage: 0.2, markPrice: 200, leaderEquityUsd: 100_000 },
+  dogeLong: { coin: "DOGE", leaderSize: 10_000, blendedSize: 10_000, direction: 1, leaderLeverage: 0.01, markPrice: 0.1, leaderEquityUsd: 100_000 },
+};
+
+const VOLATILITY: VolatilitySource = {
+  getDailyVolatility: (coin) => ({ BTC: 0.02, SOL: 0.05 })[coin],
+};
+
+/** Follower with $10k equity and a 0.5 copy ratio */
+const CONTEXT: SizingContext = { followerEquity: 10_000, copyRatio: 0.5, risk: RISK, volatility: VOLATILITY };
+
+const EXPECTED: Record<SizingStrategyName, Record<string, number | null>> = {
+  // leader leverage × 0.5 × $10k
+  leverageMirror: { btcLong: 5_000, solShort: 1_000, dogeLong: 50 },
+  // |leader size| × 0.5 × mark
+  fixedRatio: { btcLong: 50_000, solShort: 10_000, dogeLong: 500 },
+  // fixedNotionalUsd regardless of the leader
+  fixedNotional: { btcLong: 1_000, solShort: 1_000, dogeLong: 1_000 },
+  // leader notional × $10k / $100k × 0.5
+  equityProportional: { btcLong: 5_000, solShort: 1_000, dogeLong: 50 },
+  // $10k × 1% / daily volatility; DOGE has no estimate
+  volatilityTarget: { btcLong: 5_000, solShort: 2_000, dogeLong: null },
+};
+
+for (const name of Object.keys(EXPECTED) as SizingStrategyName[]) {
+  describe(`${name} sizing`, () => {
+    const strategy = SIZING_STRATEGIES[name];
+    const expected = EXPECTED[name];
+
+    it("is registered under its name", () => {
+      assert.equal(strategy.name, name);
+    });
+
+    for (const [key, target] of Object.entries(TARGETS)) {
+      const want = expected[key] ?? null;
+      it(`${target.coin} (${key}) -> ${want ?? "unsized"}`, () => {
+        const notional = strategy.targetNotional(target, CONTEXT);
+        if (want === null) {
+          assert.equal(notional, null);
+        } else {
+          assert.ok(notional !== null && Math.abs(notional - want) < 1e-6, `expected ${want}, got ${notional}`);
+        }
+      });
+    }
+  });
+}
+
+describe("strategy parameters", () => {
+  const target = TARGETS.btcLong as TargetPosition;
+
+  it("fixedNotional cannot size without fixedNotionalUsd", () => {
+    const { fixedNotionalUsd: _omitted, ...risk } = RISK;
+    assert.equal(SIZING_STRATEGIES.fixedNotional.targetNotional(target, { ...CONTEXT, risk }), null);
+  });
+
+  it("volatilityTarget cannot size without a volatility source", () => {
+    const { volatility: _omitted, ...context } = CONTEXT;
+    assert.equal(SIZING_STRATEGIES.volatilityTarget.targetNotional(target, context), null);
+  });
+
+  it("volatilityTarget ignores non-positive estimates", () => {
+    const context = { ...CONTEXT, volatility: { getDailyVolatility: () => 0 } };
+    assert.equal(SIZING_STRATEGIES.volatilityTarget.targetNotional(target, context), null);
+  });
+
+  it("equityProportional cannot size without leader equity", () => {
+    assert.equal(SIZING_STRATEGIES.equityProportional.targetNotional({ ...target, leaderEquityUsd: 0 }, CONTEXT), null);
+  });
+
+  it("ratio strategies scale with the copy ratio", () => {
+    for (const name of ["leverageMirror", "fixedRatio", "equityProportional"] as const) {
+      const base = SIZING_STRATEGIES[name].targetNotional(target, CONTEXT) ?? 0;
+      const doubled = SIZING_STRATEGIES[name].targetNotional(target, { ...CONTEXT, copyRatio: 1 }) ?? 0;
+      assert.ok(Math.abs(doubled - 2 * base) < 1e-6, name);
+    }
+  });
+});
+
+const BTC_PRICE: MarkPriceSource = { getMarkPrice: () => 50_000 };
+
+/** Leader with weight 1 holding `btc` BTC (signed) on the given equity */
+function btcLeader(equityUsd: number, btc: number): WeightedLeader {
+  const state = new LeaderState("leader", SILENT);
+  state.setMetrics({ accountValueUsd: equityUsd, totalNotionalUsd: 0, totalMarginUsedUsd: 0, withdrawableUsd: 0, lastUpdatedMs: 0 });
+  state.upsertPosition("BTC", {
+    coin: "BTC",
+    size: btc,
+    entryPrice: 50_000,
+    positionValueUsd: 0,
+    leverage: 0,
+    marginUsedUsd: 0,
+    lastUpdatedMs: 0,
+  });
+  return { address: "0x0000000000000000000000000000000000000001", weight: 1, state };
+}
+
+describe("multi-leader sizing", () => {
+  // $1M long 10 BTC (0.5x) against $100k short 5 BTC (2.5x): net short 2x, but the raw net size is +5
+  const [opposed] = blendTargets([btcLeader(1_000_000, 10), btcLeader(100_000, -5)], BTC_PRICE) as [TargetPosition];
+
+  it("sizes from the blended size on the side of the net leverage", () => {
+    assert.equal(opposed.direction, -1);
+    assert.equal(opposed.leaderSize, 5);
+    // -2x on the $550k average leader equity
+    assert.ok(Math.abs(opposed.blendedSize + 22) < 1e-9, `got ${opposed.blendedSize}`);
+    // 22 BTC × 0.5 × 50k
+    assert.ok(Math.abs((SIZING_STRATEGIES.fixedRatio.targetNotional(opposed, CONTEXT) ?? 0) - 550_000) < 1e-6);
+    // 2x net on the $1.1M pool, × $10k × 0.5
+    assert.ok(Math.abs((SIZING_STRATEGIES.equityProportional.targetNotional(opposed, CONTEXT) ?? 0) - 5_000) < 1e-6);
+  });
+
+  it("keeps a near-cancelling raw size from zeroing a large net position", () => {
+    const [target] = blendTargets([btcLeader(1_000_000, 10), btcLeader(100_000, -10)], BTC_PRICE) as [TargetPosition];
+    assert.equal(target.leaderSize, 0);
+    assert.ok((SIZING_STRATEGIES.fixedRatio.targetNotional(target, CONTEXT) ?? 0) > 0);
+    assert.ok((SIZING_STRATEGIES.equityProportional.targetNotional(target, CONTEXT) ?? 0) > 0);
+  });
+
+  it("matches the summed sizes of leaders with equal equity", () => {
+    const [target] = blendTargets([btcLeader(100_000, 1), btcLeader(100_000, 1)], BTC_PRICE) as [TargetPosition];
+    assert.ok(Math.abs(target.blendedSize - 2) < 1e-9, `got ${target.blendedSize}`);
+  });
+
+  it("opens the follower on the blended side", () => {
+    for (const sizingStrategy of ["fixedRatio", "equityProportional"] as const) {
+      const follower = new FollowerState(SILENT);
+      follower.setMetrics({ accountValueUsd: 10_000, totalNotionalUsd: 0, totalMarginUsedUsd: 0, withdrawableUsd: 0, lastUpdatedMs: 0 });
+      const [delta] = follower.computeDeltas([opposed], { ...RISK, sizingStrategy });
+      assert.ok(delta !== undefined && delta.targetSize < 0, sizingStrategy);
+    }
+  });
+});
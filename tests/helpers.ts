@@ -0,0 +1,21 @@
+/**
+ * Fixtures shared by the test files.
+ */
+
+import type { RiskConfig } from "../src/config/index.js";
+import type { Logger } from "../src/utils/logger.js";
+
+/** Logger that discards everything */
+export const SILENT: Logger = { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+
+/** Plain 1:1 mirror risk with only the required settings; spread and override per test */
+export const RISK: RiskConfig = {
+  copyRatio: 1,
+  maxLeverage: 10,
+  maxNotionalUsd: 250_000,
+  maxSlippageBps: 25,
+  inverse: false,
+  deniedCoinPolicy: "close",
+  sizingMode: "mirror",
+  sizingStrategy: "leverageMirror",
+};
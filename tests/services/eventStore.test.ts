@@ -0,0 +1,123 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { EventStore, type FlipEvent, type StoredEvent } from "../../src/services/eventStore.js";
+import type { Logger } from "../../src/utils/logger.js";
+import { SILENT } from "../helpers.js";
+
+const FOLLOWER_A = "0x00000000000000000000000000000000000000a0";
+const FOLLOWER_B = "0x00000000000000000000000000000000000000b0";
+
+/** Flip event of `account` whose `toSize` numbers it */
+function flip(account: `0x${string}`, toSize: number): FlipEvent {
+  return { type: "flip", account, coin: "BTC", stage: "open", fromSize: 0, toSize };
+}
+
+/** JSONL line of a stored flip event at `time` */
+function line(time: number, account: `0x${string}`, toSize: number): string {
+  return JSON.stringify({ time, ...flip(account, toSize) });
+}
+
+describe("EventStore", () => {
+  let dir = "";
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), "event-store-"));
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("reads a store that was never written as empty", async () => {
+    const store = new EventStore(join(dir, "missing", "events.jsonl"), SILENT);
+    assert.deepEqual(await store.query(), []);
+  });
+
+  it("appends events in record order, one line each, creating parent directories", async () => {
+    const filePath = join(dir, "nested", "chain", "events.jsonl");
+    const store = new EventStore(filePath, SILENT);
+    for (let index = 0; index < 50; index += 1) {
+      store.record(flip(FOLLOWER_A, index));
+    }
+    await store.flush();
+
+    const lines = (await readFile(filePath, "utf8")).trimEnd().split("\n");
+    assert.equal(lines.length, 50);
+    assert.deepEqual(
+      lines.map((text) => (JSON.parse(text) as FlipEvent).toSize),
+      Array.from({ length: 50 }, (_, index) => index),
+    );
+  });
+
+  it("sees its own pending writes when queried", async () => {
+    const store = new EventStore(join(dir, "pending.jsonl"), SILENT);
+    const before = Date.now();
+    store.record(flip(FOLLOWER_A, 1));
+    const [event] = await store.query();
+    assert.equal(event?.type, "flip");
+    assert.ok(event !== undefined && event.time >= before);
+  });
+
+  it("logs a failed write and keeps recording", async () => {
+    const errors: string[] = [];
+    const log: Logger = { ...SILENT, error: (message) => errors.push(message) };
+    // The path is a directory, so appending fails
+    const store = new EventStore(dir, log);
+    store.record(flip(FOLLOWER_A, 1));
+    store.record(flip(FOLLOWER_A, 2));
+    await store.flush();
+    assert.deepEqual(errors, ["Failed to write event to store", "Failed to write event to store"]);
+  });
+
+  describe("query", () => {
+    let store: EventStore;
+    const warnings: string[] = [];
+
+    before(async () => {
+      const filePath = join(dir, "query.jsonl");
+      await writeFile(
+        filePath,
+        [
+          line(1_000, FOLLOWER_A, 1),
+          line(2_000, FOLLOWER_B, 2),
+          "{ not json",
+          "",
+          JSON.stringify({ time: 3_000, type: "riskGuardState", account: FOLLOWER_A, state: { tripped: false } }),
+          line(4_000, FOLLOWER_A, 4),
+          line(5_000, FOLLOWER_A, 5),
+        ].join("\n") + "\n",
+      );
+      store = new EventStore(filePath, { ...SILENT, warn: (message) => warnings.push(message) });
+    });
+
+    const times = (events: StoredEvent[]) => events.map((event) => event.time);
+
+    it("returns every well-formed event oldest first, skipping malformed lines", async () => {
+      assert.deepEqual(times(await store.query()), [1_000, 2_000, 3_000, 4_000, 5_000]);
+      assert.deepEqual(warnings, ["Skipping malformed event store line"]);
+    });
+
+    it("filters by type", async () => {
+      assert.deepEqual(times(await store.query({ types: ["riskGuardState"] })), [3_000]);
+      assert.deepEqual(times(await store.query({ types: ["flip", "riskGuardState"] })), [1_000, 2_000, 3_000, 4_000, 5_000]);
+    });
+
+    it("filters by account, ignoring case", async () => {
+      assert.deepEqual(times(await store.query({ account: FOLLOWER_B.toUpperCase().replace("0X", "0x") })), [2_000]);
+    });
+
+    it("filters by an inclusive time range", async () => {
+      assert.deepEqual(times(await store.query({ since: 2_000, until: 4_000 })), [2_000, 3_000, 4_000]);
+    });
+
+    it("keeps the newest events up to the limit", async () => {
+      assert.deepEqual(times(await store.query({ limit: 2 })), [4_000, 5_000]);
+      // As the executor restores its circuit breaker: the latest state of one account
+      assert.deepEqual(times(await store.query({ types: ["flip"], account: FOLLOWER_A, limit: 1 })), [5_000]);
+      assert.deepEqual(await store.query({ limit: 0 }), []);
+    });
+  });
+});
@@ -0,0 +1,301 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import type { ExecutionConfig } from "../../src/config/index.js";
+import type { PositionDelta } from "../../src/domain/followerState.js";
+import type { PositionSnapshot } from "../../src/domain/types.js";
+import { ExecutionScheduler, type BookTouch, type ExecutionVenue } from "../../src/services/executionScheduler.js";
+import type { Logger } from "../../src/utils/logger.js";
+import { SILENT } from "../helpers.js";
+
+const MARK_PRICE = 50_000;
+
+/** Deltas from $20k are sliced into $10k children (0.2 BTC) every second */
+const CONFIG: ExecutionConfig = {
+  mode: "sliced",
+  sliceThresholdUsd: 20_000,
+  sliceNotionalUsd: 10_000,
+  sliceIntervalMs: 1_000,
+  twapMinutes: 30,
+  twapRandomize: false,
+  makerFirst: true,
+  makerTimeoutMs: 30_000,
+  makerRepriceIntervalMs: 5_000,
+  makerMaxDriftBps: 20,
+  liquidityGuard: false,
+};
+
+const POSITION: PositionSnapshot = {
+  coin: "BTC",
+  size: 0,
+  entryPrice: MARK_PRICE,
+  positionValueUsd: 0,
+  leverage: 0,
+  marginUsedUsd: 0,
+  lastUpdatedMs: 0,
+};
+
+/** BTC delta of `deltaSize` from a position of `currentSize` */
+function delta(deltaSize: number, currentSize = 0): PositionDelta {
+  const current = currentSize === 0 ? undefined : { ...POSITION, size: currentSize };
+  return { coin: "BTC", current, targetSize: currentSize + deltaSize, deltaSize, maxNotionalUsd: 1_000_000 };
+}
+
+function close(actual: number | undefined, expected: number) {
+  assert.ok(actual !== undefined && Math.abs(actual - expected) < 1e-9, `expected ${expected}, got ${actual}`);
+}
+
+/**
+ * Scheduler over a fake venue and a manual clock. Child orders fill what `fill` returns for
+ * their absolute size and index (everything by default); the resting maker order reports
+ * `restingFilled` and the touch is `touch`, both changeable by the test.
+ */
+function setup(fill: (size: number, index: number) => number = (size) => size) {
+  const state = {
+    clockMs: 0,
+    /** Signed size of each child or IOC order */
+    slices: [] as number[],
+    /** Signed size and price of each post-only order */
+    posts: [] as Array<{ size: number; price: string }>,
+    /** Oids of cancelled resting orders */
+    cancels: [] as number[],
+    twapCancels: [] as number[],
+    touch: { bid: "50000", ask: "50001" } as BookTouch | undefined,
+    restingFilled: 0,
+    /** Info log entries with their metadata */
+    logs: [] as Array<{ message: string; meta: Record<string, unknown> | undefined }>,
+  };
+  const venue: ExecutionVenue = {
+    placeSlice: async (child) => {
+      state.slices.push(child.deltaSize);
+      return fill(Math.abs(child.deltaSize), state.slices.length - 1);
+    },
+    placeTwap: async () => 42,
+    cancelTwap: async (_coin, twapId) => {
+      state.twapCancels.push(twapId);
+    },
+    getMarkPrice: () => MARK_PRICE,
+    getTouch: async () => state.touch,
+    postMaker: async (child, price) => {
+      state.posts.push({ size: child.deltaSize, price });
+      state.restingFilled = 0;
+      return { oid: state.posts.length };
+    },
+    getOrderFill: async () => ({ filledSize: state.restingFilled, open: true }),
+    cancelOrder: async (_coin, oid) => {
+      state.cancels.push(oid);
+    },
+  };
+  const log: Logger = { ...SILENT, info: (message, meta) => state.logs.push({ message, meta }) };
+  const scheduler = new ExecutionScheduler(CONFIG, venue, 10, log, () => state.clockMs);
+
+  /** Moves the clock and the timers forward, then lets the step that ran settle */
+  const advance = async (ms: number) => {
+    state.clockMs += ms;
+    mock.timers.tick(ms);
+    await new Promise((resolve) => setImmediate(resolve));
+  };
+  return { scheduler, state, advance };
+}
+
+beforeEach(() => {
+  mock.timers.enable({ apis: ["setTimeout"] });
+});
+
+afterEach(() => {
+  mock.timers.reset();
+});
+
+describe("sliced execution", () => {
+  it("tracks partial fills across child orders", async () => {
+    const { scheduler, state, advance } = setup((size, index) => (index === 0 ? size / 2 : size));
+    await scheduler.start(delta(0.5), "sliced");
+
+    let [progress] = scheduler.list();
+    close(progress?.filledSize, 0.1);
+    close(progress?.remainingSize, 0.4);
+
+    await advance(1_000);
+    await advance(1_000);
+    [progress] = scheduler.list();
+    close(progress?.filledSize, 0.5);
+    close(progress?.remainingSize, 0);
+    assert.equal(progress?.childOrders, 3);
+    assert.deepEqual(state.slices, [0.2, 0.2, 0.2]);
+
+    // Nothing left to send: the next step finishes the execution
+    await advance(1_000);
+    assert.equal(scheduler.has("BTC"), false);
+    assert.equal(state.slices.length, 3);
+  });
+
+  it("sends the last child for the whole remainder rather than leaving a sliver", async () => {
+    // 0.4001 BTC: after two 0.2 children only $5 would remain, so the second takes 0.2001
+    const { scheduler, state, advance } = setup();
+    await scheduler.start(delta(-0.4001), "sliced");
+    await advance(1_000);
+    close(state.slices[0], -0.2);
+    close(state.slices[1], -0.2001);
+  });
+
+  it("abandons the execution after three child orders in a row fill nothing", async () => {
+    const { scheduler, state, advance } = setup(() => 0);
+    await scheduler.start(delta(0.5), "sliced");
+    await advance(1_000);
+    await advance(1_000);
+
+    assert.equal(scheduler.has("BTC"), false);
+    await advance(1_000);
+    assert.equal(state.slices.length, 3);
+  });
+
+  it("restarts the count of empty child orders after a fill", async () => {
+    const { scheduler, state, advance } = setup((size, index) => (index === 2 ? 0.1 : 0));
+    await scheduler.start(delta(0.5), "sliced");
+    for (let step = 0; step < 6; step += 1) {
+      await advance(1_000);
+    }
+    assert.equal(state.slices.length, 6);
+    assert.equal(scheduler.has("BTC"), false);
+  });
+});
+
+describe("reconcile", () => {
+  it("cancels the remainder when the leader reverses", async () => {
+    const { scheduler, state, advance } = setup();
+    await scheduler.start(delta(0.5), "sliced");
+
+    const reversed = delta(-0.4, 0.2);
+    assert.deepEqual(await scheduler.reconcile([reversed]), [reversed]);
+    assert.equal(scheduler.has("BTC"), false);
+    await advance(1_000);
+    assert.deepEqual(state.slices, [0.2]);
+  });
+
+  it("claims a same-side delta and resizes the remainder from it", async () => {
+    const { scheduler } = setup((size) => size / 2);
+    await scheduler.start(delta(0.5), "sliced");
+
+    // The refreshed position shows the 0.1 fill, and the leader has added since
+    assert.deepEqual(await scheduler.reconcile([delta(0.6, 0.1)]), []);
+    const [progress] = scheduler.list();
+    close(progress?.remainingSize, 0.6);
+    close(progress?.totalSize, 0.7);
+  });
+
+  it("finishes an execution whose target has been reached", async () => {
+    const { scheduler, state } = setup();
+    await scheduler.start(delta(0.5), "sliced");
+    assert.deepEqual(await scheduler.reconcile([]), []);
+    assert.equal(scheduler.has("BTC"), false);
+    const complete = state.logs.find(({ message }) => message === "Scheduled execution complete");
+    assert.equal(complete?.meta?.reason, "target reached");
+  });
+});
+
+describe("TWAP execution", () => {
+  it("measures progress from the position and ends after its duration on the injected clock", async () => {
+    const { scheduler, state } = setup();
+    await scheduler.start(delta(1), "twap");
+    assert.equal(scheduler.list()[0]?.twapId, 42);
+
+    await scheduler.reconcile([delta(0.7, 0.3)]);
+    const [progress] = scheduler.list();
+    close(progress?.filledSize, 0.3);
+    close(progress?.remainingSize, 0.7);
+
+    // 30 minutes plus the grace period
+    state.clockMs += 30 * 60_000 + 30_000;
+    assert.deepEqual(await scheduler.reconcile([delta(0.2, 0.8)]), []);
+    assert.equal(scheduler.has("BTC"), false);
+    assert.deepEqual(state.twapCancels, []);
+  });
+});
+
+describe("maker execution", () => {
+  /** Reason logged when the maker execution last fell back to IOC */
+  const fallbackReason = (logs: Array<{ message: string; meta: Record<string, unknown> | undefined }>) =>
+    logs.findLast(({ message }) => message === "Maker execution fell back to IOC")?.meta?.reason;
+
+  it("rests at the touch and keeps the order while the touch holds", async () => {
+    const { scheduler, state, advance } = setup();
+    await scheduler.start(delta(0.5), "maker");
+    await advance(5_000);
+
+    assert.deepEqual(state.posts, [{ size: 0.5, price: "50000" }]);
+    assert.deepEqual(state.cancels, []);
+    assert.equal(scheduler.list()[0]?.restingOid, 1);
+  });
+
+  it("counts partial fills and sends the remainder as IOC on timeout", async () => {
+    const { scheduler, state, advance } = setup();
+    await scheduler.start(delta(0.5), "maker");
+
+    state.restingFilled = 0.2;
+    await advance(5_000);
+    const [progress] = scheduler.list();
+    close(progress?.filledSize, 0.2);
+    close(progress?.remainingSize, 0.3);
+    assert.equal(state.posts.length, 1);
+
+    await advance(25_000);
+    assert.deepEqual(state.cancels, [1]);
+    close(state.slices[0], 0.3);
+    assert.equal(fallbackReason(state.logs), "timeout");
+    assert.equal(scheduler.has("BTC"), false);
+  });
+
+  it("re-prices to a moved touch and falls back to IOC once the drift limit is reached", async () => {
+    const { scheduler, state, advance } = setup();
+    await scheduler.start(delta(0.5), "maker");
+
+    // 10 bps up: chase the bid
+    state.touch = { bid: "50050", ask: "50051" };
+    await advance(5_000);
+    assert.deepEqual(state.cancels, [1]);
+    assert.deepEqual(state.posts[1], { size: 0.5, price: "50050" });
+
+    // 30 bps above where the execution started
+    state.touch = { bid: "50150", ask: "50151" };
+    await advance(5_000);
+    assert.deepEqual(state.cancels, [1, 2]);
+    assert.deepEqual(state.slices, [0.5]);
+    assert.equal(fallbackReason(state.logs), "price drift");
+    assert.equal(scheduler.has("BTC"), false);
+  });
+
+  it("measures sell drift from the ask", async () => {
+    const { scheduler, state, advance } = setup();
+    await scheduler.start(delta(-0.5, 0.5), "maker");
+    assert.deepEqual(state.posts, [{ size: -0.5, price: "50001" }]);
+
+    // A rising ask is favourable for a sell
+    state.touch = { bid: "50200", ask: "50201" };
+    await advance(5_000);
+    assert.equal(scheduler.has("BTC"), true);
+
+    state.touch = { bid: "49800", ask: "49801" };
+    await advance(5_000);
+    assert.deepEqual(state.slices, [-0.5]);
+    assert.equal(fallbackReason(state.logs), "price drift");
+  });
+
+  it("sends the delta as IOC when the book is empty", async () => {
+    const { scheduler, state } = setup();
+    state.touch = undefined;
+    await scheduler.start(delta(0.5), "maker");
+
+    assert.deepEqual(state.posts, []);
+    assert.deepEqual(state.slices, [0.5]);
+    assert.equal(fallbackReason(state.logs), "empty order book");
+  });
+
+  it("cancels the resting order when the leader reverses", async () => {
+    const { scheduler, state } = setup();
+    await scheduler.start(delta(0.5), "maker");
+
+    const reversed = delta(-0.3);
+    assert.deepEqual(await scheduler.reconcile([reversed]), [reversed]);
+    assert.deepEqual(state.cancels, [1]);
+    assert.equal(scheduler.has("BTC"), false);
+  });
+});
@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { estimateFill, type FillEstimate } from "../../src/services/liquidityGuard.js";
+
+function close(actual: FillEstimate, expected: FillEstimate) {
+  const ok = Math.abs(actual.size - expected.size) < 1e-9 && Math.abs(actual.avgPrice - expected.avgPrice) < 1e-9;
+  assert.ok(ok, `expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+}
+
+describe("estimateFill", () => {
+  it("fills the whole order when the book is deep enough within the budget", () => {
+    const asks = [
+      { px: 100, sz: 1 },
+      { px: 100.1, sz: 1 },
+    ];
+    close(estimateFill(asks, true, 1.5, 100, 25), { size: 1.5, avgPrice: 150.05 / 1.5 });
+  });
+
+  it("stops at the visible depth", () => {
+    const asks = [
+      { px: 100, sz: 1 },
+      { px: 100.1, sz: 1 },
+    ];
+    close(estimateFill(asks, true, 5, 100, 25), { size: 2, avgPrice: 100.05 });
+  });
+
+  it("fills nothing from an empty book", () => {
+    assert.deepEqual(estimateFill([], true, 1, 100, 25), { size: 0, avgPrice: 0 });
+    assert.deepEqual(estimateFill([], false, 1, 100, 25), { size: 0, avgPrice: 0 });
+  });
+
+  it("takes a level past the limit only until the average reaches the limit", () => {
+    // Limit 100.5: 1 @ 100 leaves 0.5 of slack, which pays for 1 @ 101
+    const asks = [
+      { px: 100, sz: 1 },
+      { px: 101, sz: 10 },
+    ];
+    close(estimateFill(asks, true, 5, 100, 50), { size: 2, avgPrice: 100.5 });
+  });
+
+  it("caps sells against the bid side the same way", () => {
+    // Limit 99.5: 1 @ 100 leaves 0.5 of slack, which pays for 1 @ 99
+    const bids = [
+      { px: 100, sz: 1 },
+      { px: 99, sz: 10 },
+    ];
+    close(estimateFill(bids, false, 5, 100, 50), { size: 2, avgPrice: 99.5 });
+  });
+
+  it("fills nothing when the best level is already past the limit", () => {
+    assert.deepEqual(estimateFill([{ px: 101, sz: 10 }], true, 1, 100, 50), { size: 0, avgPrice: 0 });
+    assert.deepEqual(estimateFill([{ px: 99, sz: 10 }], false, 1, 100, 50), { size: 0, avgPrice: 0 });
+  });
+});
@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { maxLeverageForNotional, maxNotionalForEquity, type MarginTier } from "../../src/services/marketMetadata.js";
+
+/** 20x below $500k, 10x from $500k, 5x from $2M */
+const TIERS: MarginTier[] = [
+  { lowerBoundUsd: 0, maxLeverage: 20 },
+  { lowerBoundUsd: 500_000, maxLeverage: 10 },
+  { lowerBoundUsd: 2_000_000, maxLeverage: 5 },
+];
+
+function close(actual: number, expected: number) {
+  assert.ok(Math.abs(actual - expected) < 1e-6, `expected ${expected}, got ${actual}`);
+}
+
+describe("maxLeverageForNotional", () => {
+  it("is unlimited without tiers", () => {
+    assert.equal(maxLeverageForNotional([], 1_000_000), Number.POSITIVE_INFINITY);
+  });
+
+  it("switches tier exactly at each lower bound", () => {
+    assert.equal(maxLeverageForNotional(TIERS, 0), 20);
+    assert.equal(maxLeverageForNotional(TIERS, 499_999), 20);
+    assert.equal(maxLeverageForNotional(TIERS, 500_000), 10);
+    assert.equal(maxLeverageForNotional(TIERS, 1_999_999), 10);
+    assert.equal(maxLeverageForNotional(TIERS, 2_000_000), 5);
+    assert.equal(maxLeverageForNotional(TIERS, 1e12), 5);
+  });
+
+  it("uses the first tier below every lower bound", () => {
+    assert.equal(maxLeverageForNotional([{ lowerBoundUsd: 100, maxLeverage: 3 }], 50), 3);
+  });
+});
+
+describe("maxNotionalForEquity", () => {
+  it("is unlimited without tiers", () => {
+    assert.equal(maxNotionalForEquity([], 10_000), Number.POSITIVE_INFINITY);
+  });
+
+  it("allows the first tier's leverage while it stays below the next bound", () => {
+    assert.equal(maxNotionalForEquity(TIERS, 10_000), 200_000);
+  });
+
+  it("stops just below a tier bound the lower leverage cannot reach", () => {
+    // 20x would be $600k, but from $500k only 10x ($300k) is allowed
+    close(maxNotionalForEquity(TIERS, 25_000), 499_999.99);
+    close(maxNotionalForEquity(TIERS, 30_000), 499_999.99);
+    close(maxNotionalForEquity(TIERS, 49_999), 499_999.99);
+  });
+
+  it("moves into a higher tier once its leverage reaches the bound", () => {
+    assert.equal(maxNotionalForEquity(TIERS, 50_000), 500_000);
+    assert.equal(maxNotionalForEquity(TIERS, 60_000), 600_000);
+    assert.equal(maxNotionalForEquity(TIERS, 1_000_000), 5_000_000);
+  });
+
+  it("allows nothing without equity", () => {
+    assert.equal(maxNotionalForEquity(TIERS, 0), 0);
+    assert.equal(maxNotionalForEquity(TIERS, -1_000), 0);
+  });
+
+  it("never exceeds the leverage of the tier it lands in", () => {
+    for (const equity of [1_000, 24_999, 25_000, 49_999, 50_000, 200_000, 400_000, 400_001]) {
+      const notional = maxNotionalForEquity(TIERS, equity);
+      assert.ok(notional <= maxLeverageForNotional(TIERS, notional) * equity, `equity ${equity}`);
+    }
+  });
+});
@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  classifyOrderError,
+  decodeOrderStatus,
+  ORDER_ERROR_POLICIES,
+  type OrderErrorKind,
+  type OrderErrorPolicy,
+} from "../../src/services/orderStatus.js";
+
+/** A representative exchange rejection message and the expected reaction for each kind */
+const CASES: Record<OrderErrorKind, { message: string; policy: OrderErrorPolicy }> = {
+  insufficient_margin: {
+    message: "Insufficient margin to place order. asset=0",
+    policy: { retry: true, cooldownMs: 0, accountWide: false },
+  },
+  reduce_only: {
+    message: "Reduce only order would increase position. asset=0",
+    policy: { retry: true, cooldownMs: 0, accountWide: false },
+  },
+  min_notional: {
+    message: "Order must have minimum value of $10. asset=0",
+    policy: { retry: false, cooldownMs: 0, accountWide: false },
+  },
+  tick_size: {
+    message: "Order has invalid price. asset=0",
+    policy: { retry: false, cooldownMs: 0, accountWide: false },
+  },
+  rate_limit: {
+    message: "Too many cumulative requests sent (10001 > 10000) for cumulative volume traded.",
+    policy: { retry: true, cooldownMs: 10_000, accountWide: true },
+  },
+  unknown_asset: {
+    message: "Unknown asset 9999",
+    policy: { retry: false, cooldownMs: 0, accountWide: false },
+  },
+  post_only: {
+    message: "Post only order would have immediately matched, bbo was 50000@50001. asset=0",
+    policy: { retry: true, cooldownMs: 0, accountWide: false },
+  },
+  no_liquidity: {
+    message: "Order could not immediately match against any resting orders. asset=0",
+    policy: { retry: true, cooldownMs: 0, accountWide: false },
+  },
+  other: {
+    message: "Order price cannot be more than 80% away from the reference price",
+    policy: { retry: true, cooldownMs: 0, accountWide: false },
+  },
+};
+
+describe("classifyOrderError", () => {
+  for (const [kind, { message, policy }] of Object.entries(CASES) as Array<[OrderErrorKind, (typeof CASES)[OrderErrorKind]]>) {
+    it(`maps "${message}" to ${kind} and its policy`, () => {
+      assert.equal(classifyOrderError(message), kind);
+      assert.deepEqual(ORDER_ERROR_POLICIES[kind], policy);
+    });
+  }
+
+  it("falls back to other for unrecognised and empty messages", () => {
+    assert.equal(classifyOrderError("Something unexpected happened"), "other");
+    assert.equal(classifyOrderError(""), "other");
+  });
+});
+
+describe("decodeOrderStatus", () => {
+  it("decodes filled, resting and rejected orders", () => {
+    assert.deepEqual(decodeOrderStatus({ filled: { oid: 1, totalSz: "0.5", avgPx: "50000.5" } }), {
+      status: "filled",
+      oid: 1,
+      filledSize: 0.5,
+      avgPrice: 50_000.5,
+    });
+    assert.deepEqual(decodeOrderStatus({ resting: { oid: 2 } }), { status: "resting", oid: 2 });
+    assert.deepEqual(decodeOrderStatus({ error: CASES.min_notional.message }), {
+      status: "error",
+      kind: "min_notional",
+      message: CASES.min_notional.message,
+    });
+  });
+});
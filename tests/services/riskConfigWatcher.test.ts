@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import type { FollowerConfig, RiskConfig } from "../../src/config/index.js";
+import { FollowerFleet, type FollowerRuntime } from "../../src/services/followerFleet.js";
+import { RiskConfigWatcher } from "../../src/services/riskConfigWatcher.js";
+import type { TradeExecutor } from "../../src/services/tradeExecutor.js";
+import type { Logger } from "../../src/utils/logger.js";
+import { RISK, SILENT } from "../helpers.js";
+
+const KEY = `0x${"1".repeat(64)}` as const;
+
+const FOLLOWERS: FollowerConfig[] = [
+  { id: "alpha", privateKey: KEY, risk: RISK },
+  { id: "beta", privateKey: KEY, risk: { ...RISK, maxLeverage: 4 } },
+];
+
+/**
+ * Watcher over a fleet of fake executors holding their environment risk. Returns the risk
+ * each executor received per `updateRisk` call and the "Risk config updated" log entries.
+ */
+function setup(filePath: string) {
+  const updates: Array<{ follower: string; risk: RiskConfig }> = [];
+  const logged: Array<Record<string, unknown> | undefined> = [];
+  const runtimes = FOLLOWERS.map((follower) => {
+    let risk = follower.risk;
+    const executor = {
+      getRisk: () => risk,
+      updateRisk: (next: RiskConfig) => {
+        risk = next;
+        updates.push({ follower: follower.id, risk: next });
+      },
+    } as unknown as TradeExecutor;
+    return { id: follower.id, executor } as FollowerRuntime;
+  });
+  const log: Logger = {
+    ...SILENT,
+    info: (message, meta) => {
+      if (message === "Risk config updated") {
+        logged.push(meta);
+      }
+    },
+  };
+  const watcher = new RiskConfigWatcher(filePath, FOLLOWERS, new FollowerFleet(runtimes, SILENT), log);
+  return { watcher, updates, logged };
+}
+
+describe("RiskConfigWatcher.load", () => {
+  let dir = "";
+  let filePath = "";
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), "risk-config-"));
+    filePath = join(dir, "risk.yaml");
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("applies changed settings and logs a per-follower diff", async () => {
+    const { watcher, updates, logged } = setup(filePath);
+    await writeFile(filePath, "copyRatio: 0.5\nfollowers:\n  beta:\n    maxLeverage: 2\n");
+    await watcher.load();
+
+    assert.deepEqual(updates, [
+      { follower: "alpha", risk: { ...RISK, copyRatio: 0.5 } },
+      { follower: "beta", risk: { ...RISK, copyRatio: 0.5, maxLeverage: 2 } },
+    ]);
+    assert.deepEqual(logged, [
+      { follower: "alpha", changes: { copyRatio: { from: 1, to: 0.5 } } },
+      { follower: "beta", changes: { copyRatio: { from: 1, to: 0.5 }, maxLeverage: { from: 4, to: 2 } } },
+    ]);
+  });
+
+  it("skips followers whose settings did not change", async () => {
+    const { watcher, updates, logged } = setup(filePath);
+    await writeFile(filePath, JSON.stringify({ followers: { beta: { maxSlippageBps: 40 } } }));
+    await watcher.load();
+
+    assert.deepEqual(updates.map(({ follower }) => follower), ["beta"]);
+    assert.equal(logged.length, 1);
+  });
+
+  it("reverts a key removed from the file to its environment value", async () => {
+    const { watcher, updates, logged } = setup(filePath);
+    await writeFile(filePath, "copyRatio: 0.5\n");
+    await watcher.load();
+    await writeFile(filePath, "{}\n");
+    await watcher.load();
+
+    assert.deepEqual(updates.slice(2).map(({ risk }) => risk), [RISK, { ...RISK, maxLeverage: 4 }]);
+    assert.deepEqual(logged[2], { follower: "alpha", changes: { copyRatio: { from: 0.5, to: 1 } } });
+  });
+
+  it("applies nothing when any follower's settings are invalid", async () => {
+    const { watcher, updates, logged } = setup(filePath);
+    await writeFile(filePath, JSON.stringify({ copyRatio: 0.5, followers: { beta: { maxLeverage: 0 } } }));
+    await assert.rejects(watcher.load(), /risk\.followers\.beta\.maxLeverage/);
+
+    await writeFile(filePath, JSON.stringify({ followers: { gamma: { copyRatio: 0.5 } } }));
+    await assert.rejects(watcher.load(), /Unknown follower id/);
+
+    assert.deepEqual(updates, []);
+    assert.deepEqual(logged, []);
+  });
+});
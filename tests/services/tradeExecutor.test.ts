@@ -0,0 +1,299 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type * as hl from "@nktkas/hyperliquid";
+import type { ClearinghouseStateResponse } from "@nktkas/hyperliquid/api/info";
+import type { FollowerExchangeClient } from "../../src/clients/hyperliquid.js";
+import type { ExecutionConfig, RiskConfig } from "../../src/config/index.js";
+import { FollowerState } from "../../src/domain/followerState.js";
+import { LeaderState, type WeightedLeader } from "../../src/domain/leaderState.js";
+import type { EventPayload, EventStore, FlipEvent } from "../../src/services/eventStore.js";
+import type { AssetMetadata, MarketMetadataService } from "../../src/services/marketMetadata.js";
+import type { OrderStatus } from "../../src/services/orderStatus.js";
+import { TradeExecutor } from "../../src/services/tradeExecutor.js";
+import { RISK as BASE_RISK, SILENT } from "../helpers.js";
+
+const LEADER = "0x000000000000000000000000000000000000000a";
+const FOLLOWER = "0x00000000000000000000000000000000000000f0";
+
+/** Follower account value in every clearinghouse snapshot */
+const EQUITY_USD = 10_000;
+
+const ASSETS: Record<string, AssetMetadata> = {
+  BTC: { assetId: 0, coin: "BTC", maxLeverage: 40, sizeDecimals: 5, marginTableId: 0, marginTiers: [] },
+  ETH: { assetId: 1, coin: "ETH", maxLeverage: 25, sizeDecimals: 4, marginTableId: 0, marginTiers: [] },
+  SOL: { assetId: 5, coin: "SOL", maxLeverage: 20, sizeDecimals: 2, marginTableId: 0, marginTiers: [] },
+};
+
+const MARK_PRICES: Record<string, number> = { BTC: 50_000, ETH: 2_500, SOL: 200 };
+
+const METADATA = {
+  ensureLoaded: async () => {},
+  refreshMarkPrices: async () => {},
+  getMarkPrice: (coin: string) => MARK_PRICES[coin],
+  getMarginTiers: (coin: string) => ASSETS[coin]?.marginTiers,
+  getByCoin: (coin: string) => ASSETS[coin],
+  getByAssetId: (assetId: number) => Object.values(ASSETS).find((asset) => asset.assetId === assetId),
+  requireByCoin: (coin: string) => {
+    const metadata = ASSETS[coin];
+    if (!metadata) {
+      throw new Error(`Unknown coin ${coin}`);
+    }
+    return metadata;
+  },
+} as unknown as MarketMetadataService;
+
+/** Every delta is sent at once as IOC, without book checks */
+const EXECUTION: ExecutionConfig = {
+  mode: "immediate",
+  sliceThresholdUsd: 1_000_000,
+  sliceNotionalUsd: 10_000,
+  sliceIntervalMs: 10_000,
+  twapMinutes: 30,
+  twapRandomize: false,
+  makerFirst: false,
+  makerTimeoutMs: 30_000,
+  makerRepriceIntervalMs: 5_000,
+  makerMaxDriftBps: 20,
+  liquidityGuard: false,
+};
+
+const RISK: RiskConfig = { ...BASE_RISK, maxNotionalUsd: 1_000_000 };
+
+type SubmittedOrder = Parameters<FollowerExchangeClient["order"]>[0]["orders"][number];
+
+/** Leader on $100k of equity holding the given signed sizes */
+function leader(sizes: Record<string, number>): WeightedLeader {
+  const state = new LeaderState("leader", SILENT);
+  state.setMetrics({ accountValueUsd: 100_000, totalNotionalUsd: 0, totalMarginUsedUsd: 0, withdrawableUsd: 0, lastUpdatedMs: 0 });
+  for (const [coin, size] of Object.entries(sizes)) {
+    state.upsertPosition(coin, {
+      coin,
+      size,
+      entryPrice: MARK_PRICES[coin] ?? 0,
+      positionValueUsd: 0,
+      leverage: 0,
+      marginUsedUsd: 0,
+      lastUpdatedMs: 0,
+    });
+  }
+  return { address: LEADER, weight: 1, state };
+}
+
+/** Follower clearinghouse snapshot with the given margin in use and signed position sizes */
+function clearinghouse(marginUsedUsd: number, sizes: Record<string, number> = {}): ClearinghouseStateResponse {
+  const summary = {
+    accountValue: String(EQUITY_USD),
+    totalNtlPos: "0",
+    totalRawUsd: String(EQUITY_USD),
+    totalMarginUsed: String(marginUsedUsd),
+  };
+  return {
+    marginSummary: summary,
+    crossMarginSummary: summary,
+    crossMaintenanceMarginUsed: "0",
+    withdrawable: String(EQUITY_USD - marginUsedUsd),
+    assetPositions: Object.entries(sizes).map(([coin, size]) => ({
+      type: "oneWay" as const,
+      position: {
+        coin,
+        szi: String(size),
+        leverage: { type: "cross" as const, value: 2 },
+        entryPx: String(MARK_PRICES[coin]),
+        positionValue: String(Math.abs(size) * (MARK_PRICES[coin] ?? 0)),
+        unrealizedPnl: "0",
+        returnOnEquity: "0",
+        liquidationPx: null,
+        marginUsed: "0",
+        maxLeverage: 20,
+        cumFunding: { allTime: "0", sinceOpen: "0", sinceChange: "0" },
+      },
+    })),
+    time: 0,
+  };
+}
+
+/**
+ * Executor for one leader over fake clients. Each clearinghouse fetch takes the next
+ * snapshot (the last one repeats); `respond` answers each submitted order.
+ */
+function harness(options: {
+  leader: WeightedLeader;
+  snapshots: ClearinghouseStateResponse[];
+  respond?: (order: SubmittedOrder) => OrderStatus;
+}) {
+  /** Clearinghouse fetches ("state") and order batches ("orders"), in call order */
+  const calls: string[] = [];
+  const batches: SubmittedOrder[][] = [];
+  const events: EventPayload[] = [];
+  const snapshots = [...options.snapshots];
+  const respond =
+    options.respond ??
+    ((order: SubmittedOrder): OrderStatus => ({
+      filled: { totalSz: String(order.s), avgPx: String(order.p), oid: batches.length },
+    }));
+
+  const infoClient = {
+    clearinghouseState: async () => {
+      calls.push("state");
+      return snapshots.length > 1 ? snapshots.shift() : snapshots[0];
+    },
+  } as unknown as hl.InfoClient;
+  const exchangeClient = {
+    order: async ({ orders }: { orders: SubmittedOrder[] }) => {
+      calls.push("orders");
+      batches.push(orders);
+      return { status: "ok", response: { type: "order", data: { statuses: orders.map(respond) } } };
+    },
+    updateLeverage: async () => ({ status: "ok", response: { type: "default" } }),
+  } as unknown as FollowerExchangeClient;
+  const eventStore = { record: (event: EventPayload) => events.push(event) } as unknown as EventStore;
+
+  const executor = new TradeExecutor({
+    followerId: "test",
+    exchangeClient,
+    infoClient,
+    followerAddress: FOLLOWER,
+    leaders: [options.leader],
+    followerState: new FollowerState(SILENT),
+    metadataService: METADATA,
+    risk: RISK,
+    execution: EXECUTION,
+    eventStore,
+    now: () => 1_000_000,
+    log: SILENT,
+  });
+  const flips = () =>
+    events.filter((event): event is FlipEvent => event.type === "flip").map(({ stage, fromSize }) => ({ stage, fromSize }));
+  return { executor, calls, batches, flips };
+}
+
+/** Side, size and reduce-only flag of each order in a batch */
+function summarize(batch: SubmittedOrder[] | undefined) {
+  return batch?.map((order) => ({ asset: order.a, isBuy: order.b, size: order.s, reduceOnly: order.r }));
+}
+
+describe("flip execution", () => {
+  // Leader is 0.5x short BTC, the follower holds 0.2 BTC long: target -0.1 BTC
+  const shortLeader = () => leader({ BTC: -1 });
+
+  it("closes reduce-only, refreshes and opens the new side once flat", async () => {
+    const { executor, calls, batches, flips } = harness({
+      leader: shortLeader(),
+      snapshots: [clearinghouse(0, { BTC: 0.2 }), clearinghouse(0)],
+    });
+    await executor.syncWithLeader();
+
+    assert.deepEqual(calls, ["state", "orders", "state", "orders"]);
+    assert.deepEqual(summarize(batches[0]), [{ asset: 0, isBuy: false, size: "0.2", reduceOnly: true }]);
+    assert.deepEqual(summarize(batches[1]), [{ asset: 0, isBuy: false, size: "0.1", reduceOnly: false }]);
+    assert.deepEqual(flips(), [
+      { stage: "close", fromSize: 0.2 },
+      { stage: "open", fromSize: 0 },
+    ]);
+  });
+
+  it("defers the open when the close only partly filled", async () => {
+    const { executor, calls, batches, flips } = harness({
+      leader: shortLeader(),
+      snapshots: [clearinghouse(0, { BTC: 0.2 }), clearinghouse(0, { BTC: 0.05 })],
+    });
+    await executor.syncWithLeader();
+
+    assert.deepEqual(calls, ["state", "orders", "state"]);
+    assert.equal(batches.length, 1);
+    assert.deepEqual(flips(), [
+      { stage: "close", fromSize: 0.2 },
+      { stage: "openDeferred", fromSize: 0.05 },
+    ]);
+  });
+
+  it("defers the open when the close is rejected", async () => {
+    const { executor, calls, batches, flips } = harness({
+      leader: shortLeader(),
+      snapshots: [clearinghouse(0, { BTC: 0.2 })],
+      respond: () => ({ error: "Order could not immediately match against any resting orders." }),
+    });
+    await executor.syncWithLeader();
+
+    assert.deepEqual(calls, ["state", "orders", "state"]);
+    assert.deepEqual(summarize(batches[0]), [{ asset: 0, isBuy: false, size: "0.2", reduceOnly: true }]);
+    assert.deepEqual(flips(), [{ stage: "openDeferred", fromSize: 0.2 }]);
+  });
+
+  it("retries the whole flip from the actual position on the next sync", async () => {
+    const { executor, batches, flips } = harness({
+      leader: shortLeader(),
+      snapshots: [
+        clearinghouse(0, { BTC: 0.2 }),
+        clearinghouse(0, { BTC: 0.05 }),
+        clearinghouse(0, { BTC: 0.05 }),
+        clearinghouse(0),
+      ],
+    });
+    await executor.syncWithLeader();
+    await executor.syncWithLeader();
+
+    assert.deepEqual(summarize(batches[1]), [{ asset: 0, isBuy: false, size: "0.05", reduceOnly: true }]);
+    assert.deepEqual(summarize(batches[2]), [{ asset: 0, isBuy: false, size: "0.1", reduceOnly: false }]);
+    assert.deepEqual(flips().slice(2), [
+      { stage: "close", fromSize: 0.05 },
+      { stage: "open", fromSize: 0 },
+    ]);
+  });
+
+  it("sends a flip whose close is below the minimum order as one order", async () => {
+    // 0.0001 BTC is $5 of notional
+    const { executor, calls, batches, flips } = harness({
+      leader: shortLeader(),
+      snapshots: [clearinghouse(0, { BTC: 0.0001 })],
+    });
+    await executor.syncWithLeader();
+
+    assert.deepEqual(calls, ["state", "orders"]);
+    assert.deepEqual(summarize(batches[0]), [{ asset: 0, isBuy: false, size: "0.1001", reduceOnly: false }]);
+    assert.deepEqual(flips(), []);
+  });
+});
+
+describe("margin-aware phasing", () => {
+  // 0.8x ETH and 1.2x BTC: the $10k follower targets 3.2 ETH ($8k) and 0.24 BTC ($12k) at 2x leverage,
+  // i.e. $4k and $6k of margin
+  const twoCoinLeader = () => leader({ ETH: 32, BTC: 2.4 });
+
+  it("opens the largest target gap first and scales the rest to 95% of free margin", async () => {
+    const { executor, batches } = harness({ leader: twoCoinLeader(), snapshots: [clearinghouse(0)] });
+    await executor.syncWithLeader();
+
+    // $9.5k usable: BTC takes $6k, ETH gets $3.5k of its $4k
+    assert.deepEqual(summarize(batches[0]), [
+      { asset: 0, isBuy: true, size: "0.24", reduceOnly: false },
+      { asset: 1, isBuy: true, size: "2.8", reduceOnly: false },
+    ]);
+    assert.equal(batches.length, 1);
+  });
+
+  it("drops an opening order that the remaining margin cannot fund", async () => {
+    const { executor, batches } = harness({ leader: twoCoinLeader(), snapshots: [clearinghouse(9_000)] });
+    await executor.syncWithLeader();
+
+    // $950 usable goes to BTC alone: 0.24 × 950 / 6000
+    assert.deepEqual(summarize(batches[0]), [{ asset: 0, isBuy: true, size: "0.038", reduceOnly: false }]);
+  });
+
+  it("reduces first and sizes openings from the margin state refreshed after the reduction", async () => {
+    // 50 SOL ($10k) ties up $5k of margin until it is closed
+    const { executor, calls, batches } = harness({
+      leader: twoCoinLeader(),
+      snapshots: [clearinghouse(5_000, { SOL: 50 }), clearinghouse(0)],
+    });
+    await executor.syncWithLeader();
+
+    assert.deepEqual(calls, ["state", "orders", "state", "orders"]);
+    assert.deepEqual(summarize(batches[0]), [{ asset: 5, isBuy: false, size: "50", reduceOnly: true }]);
+    // Sized from the stale $5k in use, BTC would be cut to 0.19 and ETH dropped
+    assert.deepEqual(summarize(batches[1]), [
+      { asset: 0, isBuy: true, size: "0.24", reduceOnly: false },
+      { asset: 1, isBuy: true, size: "2.8", reduceOnly: false },
+    ]);
+  });
+});
@@ -0,0 +1,363 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type * as hl from "@nktkas/hyperliquid";
+import type { FollowerExchangeClient } from "../../src/clients/hyperliquid.js";
+import type { RiskConfig } from "../../src/config/index.js";
+import { FollowerState } from "../../src/domain/followerState.js";
+import { LeaderState, type WeightedLeader } from "../../src/domain/leaderState.js";
+import type { PositionSnapshot } from "../../src/domain/types.js";
+import type { AssetMetadata, MarketMetadataService } from "../../src/services/marketMetadata.js";
+import { mirrorCloid, TriggerOrderMirror, type TriggerMirrorFollower } from "../../src/services/triggerOrders.js";
+import type { Logger } from "../../src/utils/logger.js";
+import { RISK, SILENT } from "../helpers.js";
+
+const LEADER_A = "0x000000000000000000000000000000000000000a";
+const LEADER_B = "0x000000000000000000000000000000000000000b";
+const FOLLOWER = "0x00000000000000000000000000000000000000f0";
+
+type FrontendOrder = Awaited<ReturnType<hl.InfoClient["frontendOpenOrders"]>>[number];
+
+const ASSETS: Record<string, AssetMetadata> = {
+  BTC: { assetId: 0, coin: "BTC", maxLeverage: 40, sizeDecimals: 5, marginTableId: 0, marginTiers: [] },
+  ETH: { assetId: 1, coin: "ETH", maxLeverage: 25, sizeDecimals: 4, marginTableId: 0, marginTiers: [] },
+};
+
+const MARK_PRICES: Record<string, number> = { BTC: 50_000, ETH: 2_500 };
+
+const METADATA = {
+  ensureLoaded: async () => {},
+  getMarkPrice: (coin: string) => MARK_PRICES[coin],
+  getByCoin: (coin: string) => ASSETS[coin],
+  requireByCoin: (coin: string) => {
+    const metadata = ASSETS[coin];
+    if (!metadata) {
+      throw new Error(`Unknown coin ${coin}`);
+    }
+    return metadata;
+  },
+} as unknown as MarketMetadataService;
+
+function position(coin: string, size: number): PositionSnapshot {
+  return { coin, size, entryPrice: 0, positionValueUsd: 0, leverage: 0, marginUsedUsd: 0, lastUpdatedMs: 0 };
+}
+
+/** Leader holding the given signed sizes, on $100k of equity unless given */
+function leader(
+  address: `0x${string}`,
+  weight: number,
+  sizes: Record<string, number>,
+  equityUsd = 100_000,
+): WeightedLeader {
+  const state = new LeaderState("leader", SILENT);
+  state.setMetrics({ accountValueUsd: equityUsd, totalNotionalUsd: 0, totalMarginUsedUsd: 0, withdrawableUsd: 0, lastUpdatedMs: 0 });
+  for (const [coin, size] of Object.entries(sizes)) {
+    state.upsertPosition(coin, position(coin, size));
+  }
+  return { address, weight, state };
+}
+
+/** Open order as listed by `frontendOpenOrders`; defaults to a 1 BTC sell stop at 45k */
+function openOrder(fields: Partial<FrontendOrder>): FrontendOrder {
+  return {
+    coin: "BTC",
+    side: "A",
+    limitPx: "45000",
+    sz: "1",
+    oid: 1,
+    timestamp: 0,
+    origSz: fields.sz ?? "1",
+    triggerCondition: "Price below 45000",
+    isTrigger: true,
+    triggerPx: "45000",
+    children: [],
+    isPositionTpsl: false,
+    reduceOnly: true,
+    orderType: "Stop Market",
+    tif: null,
+    cloid: null,
+    ...fields,
+  };
+}
+
+/**
+ * Builds a mirror over fake clients serving `openOrders` by address, for one follower
+ * holding `followerSizes`. Exchange requests are collected in `requests`.
+ */
+function setup(options: {
+  leaders: WeightedLeader[];
+  followerSizes: Record<string, number>;
+  openOrders: Record<string, FrontendOrder[]>;
+  risk?: RiskConfig;
+  log?: Logger;
+}) {
+  const requests: Array<{ action: "order" | "cancel" | "batchModify"; params: unknown }> = [];
+  const infoClient = {
+    frontendOpenOrders: async ({ user }: { user: string }) => options.openOrders[user] ?? [],
+  } as unknown as hl.InfoClient;
+  const exchangeClient = {
+    order: async (params: unknown) => requests.push({ action: "order", params }),
+    cancel: async (params: unknown) => requests.push({ action: "cancel", params }),
+    batchModify: async (params: unknown) => requests.push({ action: "batchModify", params }),
+  } as unknown as FollowerExchangeClient;
+
+  const state = new FollowerState(SILENT);
+  for (const [coin, size] of Object.entries(options.followerSizes)) {
+    state.upsertPosition(coin, position(coin, size));
+  }
+  const follower: TriggerMirrorFollower = {
+    id: "follower",
+    address: FOLLOWER,
+    state,
+    exchangeClient,
+    getRisk: () => options.risk ?? RISK,
+  };
+  const mirror = new TriggerOrderMirror(infoClient, options.leaders, [follower], METADATA, 60_000, options.log ?? SILENT);
+  return { mirror, requests };
+}
+
+/** Orders of the single place request sent by a pass */
+function placedOrders(requests: ReadonlyArray<{ action: string; params: unknown }>) {
+  assert.deepEqual(
+    requests.map((request) => request.action),
+    ["order"],
+  );
+  return (requests[0]?.params as { orders: Array<Record<string, unknown>> }).orders;
+}
+
+describe("TriggerOrderMirror", () => {
+  describe("scaling", () => {
+    it("mirrors a leader stop onto the same share of the follower position", async () => {
+      const { mirror, requests } = setup({
+        leaders: [leader(LEADER_A, 1, { BTC: 2 })],
+        followerSizes: { BTC: 0.2 },
+        openOrders: { [LEADER_A]: [openOrder({ sz: "1", oid: 7 })] },
+      });
+      await mirror.syncOnce();
+      assert.deepEqual(placedOrders(requests), [
+        {
+          a: 0,
+          b: false,
+          p: "45000",
+          s: "0.1",
+          r: true,
+          t: { trigger: { isMarket: true, triggerPx: "45000", tpsl: "sl" } },
+          c: mirrorCloid(LEADER_A, 7),
+        },
+      ]);
+    });
+
+    it("covers the whole follower position with a position TP/SL", async () => {
+      const { mirror, requests } = setup({
+        leaders: [leader(LEADER_A, 1, { ETH: -10 })],
+        followerSizes: { ETH: -1.5 },
+        openOrders: {
+          [LEADER_A]: [
+            openOrder({
+              coin: "ETH",
+              side: "B",
+              sz: "0",
+              isPositionTpsl: true,
+              orderType: "Take Profit Limit",
+              triggerPx: "2000",
+              limitPx: "2010",
+            }),
+          ],
+        },
+      });
+      await mirror.syncOnce();
+      const [order] = placedOrders(requests);
+      assert.equal(order?.s, "1.5");
+      assert.equal(order?.b, true);
+      assert.equal(order?.p, "2010");
+      assert.deepEqual(order?.t, { trigger: { isMarket: false, triggerPx: "2000", tpsl: "tp" } });
+    });
+
+    it("splits the follower position by each leader's weighted share", async () => {
+      // Net leverage is 1 × 1x + 0.5 × 2x = 2x, so each leader holds half of the blend
+      const { mirror, requests } = setup({
+        leaders: [leader(LEADER_A, 1, { BTC: 2 }), leader(LEADER_B, 0.5, { BTC: 4 })],
+        followerSizes: { BTC: 0.4 },
+        openOrders: {
+          [LEADER_A]: [openOrder({ sz: "2", oid: 1 })],
+          [LEADER_B]: [openOrder({ sz: "1", oid: 2 })],
+        },
+      });
+      await mirror.syncOnce();
+      assert.deepEqual(
+        placedOrders(requests).map((order) => [order.c, order.s]),
+        [
+          [mirrorCloid(LEADER_A, 1), "0.2"],
+          [mirrorCloid(LEADER_B, 2), "0.05"],
+        ],
+      );
+    });
+
+    it("follows the blended side when leader equity outweighs the net size", async () => {
+      // $1M long 10 BTC (0.5x) against $100k short 5 BTC (2.5x): the blend is 2x short despite +5 BTC
+      const { mirror, requests } = setup({
+        leaders: [leader(LEADER_A, 1, { BTC: 10 }, 1_000_000), leader(LEADER_B, 1, { BTC: -5 })],
+        followerSizes: { BTC: -0.4 },
+        openOrders: {
+          [LEADER_A]: [openOrder({ sz: "10", oid: 1 })],
+          [LEADER_B]: [openOrder({ side: "B", sz: "5", oid: 2, triggerPx: "55000", limitPx: "55000" })],
+        },
+      });
+      await mirror.syncOnce();
+      // B carries 2.5x of the 2x net, so its stop covers the whole follower position; A's long-side stop is skipped
+      assert.deepEqual(
+        placedOrders(requests).map((order) => [order.c, order.b, order.s]),
+        [[mirrorCloid(LEADER_B, 2), true, "0.4"]],
+      );
+    });
+
+    it("never mirrors more than the follower position", async () => {
+      const { mirror, requests } = setup({
+        leaders: [leader(LEADER_A, 1, { BTC: 2 })],
+        followerSizes: { BTC: 0.2 },
+        openOrders: { [LEADER_A]: [openOrder({ sz: "5" })] },
+      });
+      await mirror.syncOnce();
+      assert.equal(placedOrders(requests)[0]?.s, "0.2");
+    });
+
+    it("skips orders it cannot mirror onto the follower's side", async () => {
+      const cases: Array<{
+        name: string;
+        leaders: WeightedLeader[];
+        followerSizes: Record<string, number>;
+        order?: FrontendOrder;
+        risk?: RiskConfig;
+      }> = [
+        { name: "follower on the opposite side", leaders: [leader(LEADER_A, 1, { BTC: 2 })], followerSizes: { BTC: -0.2 } },
+        { name: "follower flat", leaders: [leader(LEADER_A, 1, { BTC: 2 })], followerSizes: {} },
+        { name: "negatively weighted leader", leaders: [leader(LEADER_A, -1, { BTC: 2 })], followerSizes: { BTC: -0.2 } },
+        {
+          name: "denied coin",
+          leaders: [leader(LEADER_A, 1, { BTC: 2 })],
+          followerSizes: { BTC: 0.2 },
+          risk: { ...RISK, deniedCoins: ["BTC"] },
+        },
+        {
+          name: "below the minimum notional",
+          leaders: [leader(LEADER_A, 1, { BTC: 2 })],
+          followerSizes: { BTC: 0.0002 },
+        },
+        {
+          name: "not reduce-only",
+          leaders: [leader(LEADER_A, 1, { BTC: 2 })],
+          followerSizes: { BTC: 0.2 },
+          order: openOrder({ reduceOnly: false }),
+        },
+        {
+          name: "plain limit order",
+          leaders: [leader(LEADER_A, 1, { BTC: 2 })],
+          followerSizes: { BTC: 0.2 },
+          order: openOrder({ isTrigger: false, orderType: "Limit" }),
+        },
+      ];
+      for (const { name, leaders, followerSizes, order, risk } of cases) {
+        const { mirror, requests } = setup({
+          leaders,
+          followerSizes,
+          openOrders: { [LEADER_A]: [order ?? openOrder({})] },
+          ...(risk ? { risk } : {}),
+        });
+        await mirror.syncOnce();
+        assert.deepEqual(requests, [], name);
+      }
+    });
+  });
+
+  describe("diff against follower orders", () => {
+    it("places missing copies, modifies changed ones, cancels stale ones and keeps the rest", async () => {
+      // Follower copies: oid 1 up to date, oid 2 at an old trigger price, a copy of a leader order
+      // that is gone, and an order the follower placed itself
+      const followerOrders = [
+        openOrder({ sz: "0.1", oid: 101, cloid: mirrorCloid(LEADER_A, 1) }),
+        openOrder({ sz: "0.1", oid: 102, cloid: mirrorCloid(LEADER_A, 2), triggerPx: "44500", limitPx: "44500" }),
+        openOrder({ sz: "0.1", oid: 109, cloid: mirrorCloid(LEADER_A, 9) }),
+        openOrder({ sz: "0.1", oid: 110, cloid: "0x0000000000000000000000000000000a" }),
+      ];
+      const { mirror, requests } = setup({
+        leaders: [leader(LEADER_A, 1, { BTC: 2 })],
+        followerSizes: { BTC: 0.2 },
+        openOrders: {
+          [LEADER_A]: [
+            openOrder({ sz: "1", oid: 1 }),
+            openOrder({ sz: "1", oid: 2, triggerPx: "44000", limitPx: "44000" }),
+            openOrder({ sz: "1", oid: 3, triggerPx: "43000", limitPx: "43000" }),
+          ],
+          [FOLLOWER]: followerOrders,
+        },
+      });
+
+      await mirror.syncOnce();
+      assert.deepEqual(
+        requests.map((request) => request.action),
+        ["cancel", "batchModify", "order"],
+      );
+      assert.deepEqual(requests[0]?.params, { cancels: [{ a: 0, o: 109 }] });
+      const { modifies } = requests[1]?.params as { modifies: Array<{ oid: number; order: Record<string, unknown> }> };
+      assert.deepEqual(
+        modifies.map(({ oid, order }) => [oid, order.c, order.p]),
+        [[102, mirrorCloid(LEADER_A, 2), "44000"]],
+      );
+      const { orders } = requests[2]?.params as { orders: Array<Record<string, unknown>> };
+      assert.deepEqual(
+        orders.map((order) => order.c),
+        [mirrorCloid(LEADER_A, 3)],
+      );
+    });
+
+    it("resizes a copy when the follower position changes", async () => {
+      const { mirror, requests } = setup({
+        leaders: [leader(LEADER_A, 1, { BTC: 2 })],
+        followerSizes: { BTC: 0.4 },
+        openOrders: {
+          [LEADER_A]: [openOrder({ sz: "1", oid: 1 })],
+          [FOLLOWER]: [openOrder({ sz: "0.1", oid: 101, cloid: mirrorCloid(LEADER_A, 1) })],
+        },
+      });
+      await mirror.syncOnce();
+      assert.deepEqual(
+        requests.map((request) => request.action),
+        ["batchModify"],
+      );
+      const { modifies } = requests[0]?.params as { modifies: Array<{ oid: number; order: Record<string, unknown> }> };
+      assert.deepEqual(
+        modifies.map(({ oid, order }) => [oid, order.s]),
+        [[101, "0.2"]],
+      );
+    });
+
+    it("sends nothing when every copy is up to date", async () => {
+      const { mirror, requests } = setup({
+        leaders: [leader(LEADER_A, 1, { BTC: 2 })],
+        followerSizes: { BTC: 0.2 },
+        openOrders: {
+          [LEADER_A]: [openOrder({ sz: "1", oid: 1 })],
+          [FOLLOWER]: [openOrder({ sz: "0.1", oid: 101, cloid: mirrorCloid(LEADER_A, 1) })],
+        },
+      });
+      await mirror.syncOnce();
+      assert.deepEqual(requests, []);
+    });
+  });
+
+  it("warns at start about followers and leaders whose orders are never mirrored", () => {
+    const warnings: string[] = [];
+    const { mirror } = setup({
+      leaders: [leader(LEADER_A, 1, {}), leader(LEADER_B, -0.5, {})],
+      followerSizes: {},
+      openOrders: {},
+      risk: { ...RISK, inverse: true },
+      log: { ...SILENT, warn: (message) => warnings.push(message) },
+    });
+    mirror.start();
+    mirror.stop();
+    assert.deepEqual(warnings, [
+      "Trigger orders are not mirrored for inverse-copying followers",
+      "Trigger orders of negatively weighted leaders are not mirrored",
+    ]);
+  });
+});
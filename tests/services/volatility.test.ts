@@ -0,0 +1,40 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { realizedDailyVolatility } from "../../src/services/volatility.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+function close(actual: number | undefined, expected: number) {
+  assert.ok(actual !== undefined && Math.abs(actual - expected) < 1e-12, `expected ${expected}, got ${actual}`);
+}
+
+/** Closes with log returns of +1% then -1%: sample standard deviation 0.01 × √2 */
+const UP_DOWN = [100, 100 * Math.exp(0.01), 100];
+
+describe("realizedDailyVolatility", () => {
+  it("needs at least two returns", () => {
+    assert.equal(realizedDailyVolatility([], DAY_MS), undefined);
+    assert.equal(realizedDailyVolatility([100], DAY_MS), undefined);
+    assert.equal(realizedDailyVolatility([100, 101], DAY_MS), undefined);
+  });
+
+  it("rejects zero, negative and missing prices", () => {
+    assert.equal(realizedDailyVolatility([100, 0, 100], DAY_MS), undefined);
+    assert.equal(realizedDailyVolatility([100, -1, 100], DAY_MS), undefined);
+    assert.equal(realizedDailyVolatility([100, Number.NaN, 100], DAY_MS), undefined);
+  });
+
+  it("is zero for flat prices", () => {
+    assert.equal(realizedDailyVolatility([100, 100, 100, 100], HOUR_MS), 0);
+  });
+
+  it("uses the sample standard deviation of log returns for daily candles", () => {
+    close(realizedDailyVolatility(UP_DOWN, DAY_MS), 0.01 * Math.SQRT2);
+  });
+
+  it("scales shorter intervals by the square root of periods per day", () => {
+    close(realizedDailyVolatility(UP_DOWN, HOUR_MS), 0.01 * Math.SQRT2 * Math.sqrt(24));
+    close(realizedDailyVolatility(UP_DOWN, 15 * 60 * 1000), 0.01 * Math.SQRT2 * Math.sqrt(96));
+  });
+});
@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { formatPrice, formatSize, maxPriceDecimals, type MarketType } from "../../src/utils/format.js";
+
+describe("maxPriceDecimals", () => {
+  const cases: Array<{ sizeDecimals: number; market: MarketType; expected: number }> = [
+    { sizeDecimals: 0, market: "perp", expected: 6 },
+    { sizeDecimals: 5, market: "perp", expected: 1 },
+    { sizeDecimals: 6, market: "perp", expected: 0 },
+    { sizeDecimals: 7, market: "perp", expected: 0 },
+    { sizeDecimals: 0, market: "spot", expected: 8 },
+    { sizeDecimals: 2, market: "spot", expected: 6 },
+  ];
+  for (const { sizeDecimals, market, expected } of cases) {
+    it(`${market} szDecimals=${sizeDecimals} -> ${expected}`, () => {
+      assert.equal(maxPriceDecimals({ sizeDecimals }, market), expected);
+    });
+  }
+});
+
+describe("formatPrice", () => {
+  const cases: Array<{ name: string; price: number; sizeDecimals: number; market?: MarketType; expected: string }> = [
+    { name: "BTC-like price keeps integer digits", price: 97_123.4, sizeDecimals: 5, expected: "97123" },
+    { name: "integer prices beyond 5 significant figures", price: 123_456.7, sizeDecimals: 5, expected: "123457" },
+    { name: "rounds to 5 significant figures", price: 1234.567, sizeDecimals: 4, expected: "1234.6" },
+    { name: "ETH-like price capped by MAX_DECIMALS - szDecimals", price: 3456.78, sizeDecimals: 4, expected: "3456.8" },
+    { name: "one integer digit", price: 1.23456, sizeDecimals: 2, expected: "1.2346" },
+    { name: "mark price with one decimal is not a tick size", price: 1.2, sizeDecimals: 1, expected: "1.2" },
+    { name: "sub-unit price limited by significant figures", price: 0.123456, sizeDecimals: 0, expected: "0.12346" },
+    { name: "sub-unit price limited by decimals", price: 0.123456, sizeDecimals: 2, expected: "0.1235" },
+    { name: "small price uses all allowed decimals", price: 0.00012345, sizeDecimals: 0, expected: "0.000123" },
+    { name: "exact power of ten", price: 0.0001, sizeDecimals: 0, expected: "0.0001" },
+    { name: "exact power of ten above one", price: 1000, sizeDecimals: 3, expected: "1000" },
+    { name: "strips trailing zeros", price: 2.5, sizeDecimals: 1, expected: "2.5" },
+    { name: "carry to the next power of ten", price: 9.999996, sizeDecimals: 2, expected: "10" },
+    { name: "rounds half up despite binary representation", price: 1.005, sizeDecimals: 4, expected: "1.01" },
+    { name: "no decimals when szDecimals is 6", price: 12.7, sizeDecimals: 6, expected: "13" },
+    { name: "exponent notation input", price: 1.5e-5, sizeDecimals: 0, expected: "0.000015" },
+    { name: "spot allows 8 decimals", price: 0.00012345, sizeDecimals: 0, market: "spot", expected: "0.00012345" },
+    { name: "spot still limited to 5 significant figures", price: 0.0000123456, sizeDecimals: 0, market: "spot", expected: "0.00001235" },
+  ];
+  for (const { name, price, sizeDecimals, market, expected } of cases) {
+    it(`${name}: ${price} -> ${expected}`, () => {
+      assert.equal(formatPrice(price, { sizeDecimals }, market), expected);
+    });
+  }
+
+  const invalid: Array<{ name: string; price: number; sizeDecimals: number }> = [
+    { name: "zero", price: 0, sizeDecimals: 0 },
+    { name: "negative", price: -1, sizeDecimals: 0 },
+    { name: "NaN", price: Number.NaN, sizeDecimals: 0 },
+    { name: "infinity", price: Number.POSITIVE_INFINITY, sizeDecimals: 0 },
+    { name: "rounds to zero", price: 0.0000001, sizeDecimals: 2 },
+  ];
+  for (const { name, price, sizeDecimals } of invalid) {
+    it(`throws for ${name}`, () => {
+      assert.throws(() => formatPrice(price, { sizeDecimals }));
+    });
+  }
+});
+
+describe("formatSize", () => {
+  const cases: Array<{ name: string; size: number; sizeDecimals: number; expected: string }> = [
+    { name: "rounds to szDecimals", size: 0.123456, sizeDecimals: 3, expected: "0.123" },
+    { name: "strips trailing zeros", size: 1.5, sizeDecimals: 4, expected: "1.5" },
+    { name: "whole sizes", size: 42, sizeDecimals: 0, expected: "42" },
+    { name: "rounds whole-unit assets", size: 41.6, sizeDecimals: 0, expected: "42" },
+    { name: "rounds half up despite binary representation", size: 0.145, sizeDecimals: 2, expected: "0.15" },
+    { name: "rounds away tiny sizes", size: 0.00004, sizeDecimals: 4, expected: "0" },
+    { name: "zero", size: 0, sizeDecimals: 3, expected: "0" },
+    { name: "exponent notation input", size: 1.5e-7, sizeDecimals: 8, expected: "0.00000015" },
+  ];
+  for (const { name, size, sizeDecimals, expected } of cases) {
+    it(`${name}: ${size} -> ${expected}`, () => {
+      assert.equal(formatSize(size, { sizeDecimals }), expected);
+    });
+  }
+
+  it("throws for negative sizes", () => {
+    assert.throws(() => formatSize(-1, { sizeDecimals: 2 }));
+  });
+});